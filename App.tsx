@@ -1,34 +1,155 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import ChatInterface from './components/ChatInterface';
 import VideoCallOverlay from './components/VideoCallOverlay';
-import { ChatMessage, ConnectionStatus, MessageType, LogEntry } from './types';
+import QrScanner from './components/QrScanner';
+import LinkRequestPrompt from './components/LinkRequestPrompt';
+import NetworkSettingsSheet from './components/NetworkSettingsSheet';
+import { PeerLinkContext, usePeerLinkClient, usePeerLinkEvent, usePeerLinkState } from './hooks/usePeerLink';
+import {
+  ChatMessage, ConnectionStatus, MessageType, LogEntry, FileManifest,
+  TransferAction, TransferStatus, FolderManifest, FolderContent, LinkSecurity,
+  CallEndReason, CallKind, VoiceNoteMeta,
+  DeliveryState, SessionResume, RoomCallState, RoomRoster
+} from './types';
+import { indexedDbTransferStore } from './services/chunkStore';
+import { WIRE_FORMAT } from './services/wireCodec';
+import { Identity, SafetyInfo, checkKnownKey, isE2ESupported, knownKeyFor, loadIdentity, trustKey } from './services/e2eCrypto';
+import { createSecureChannel } from './services/secureChannel';
+import { createPeerLinkClient } from './services/peerLinkClient';
+import { peerJsTransport } from './services/transport';
+import { messageTypeFor, resolveMimeType } from './services/fileTypes';
+import { PickedFolder } from './services/folderEntries';
+import {
+  blobKeysOf, deleteConversation, deleteMessageFiles, exportConversation, importConversation, loadConversation,
+  requestPersistentStorage, saveMessages
+} from './services/chatHistory';
+import {
+  Contact, findContact, formatLastSeen, generatePeerId, loadContacts, loadDeviceId, pairingLink, parsePairingCode,
+  removeContact, saveDeviceId, takeDeepLinkPeer, updateContact
+} from './services/contacts';
+import { encodeQr, qrSvgPath } from './services/qrCode';
+import {
+  CallSession, CameraFacing, DEFAULT_MEDIA_STATE, LocalMediaState, callLogFor,
+  DEFAULT_REMOTE_MEDIA, RemoteMediaState, canShareScreen, createCallSession, isCallBusy, videoConstraints
+} from './services/callSession';
+import { CallStats } from './services/callStats';
+import { CallRecorder, canRecordCalls, recordingFileName, startCallRecording } from './services/callRecorder';
+import { voiceFileName } from './services/voiceNote';
+import {
+  DIAL_TIMEOUT, lastSeenFrom, loadOpOutbox, resumeGap, saveOpOutbox, shouldRedial, toWire
+} from './services/outbox';
+import {
+  RECEIPT_BATCH_DELAY, RECEIPT_BATCH_DELAY_BUSY, ReceiptKind, TYPING_EXPIRE, TYPING_IDLE, TYPING_REFRESH,
+  addReceipts, advancesDelivery, createReceiptBatch, hasPendingReceipts, isReceiptable, takeReceipts
+} from './services/receipts';
+import { applyOps, isMessageOp, isPermittedOp, isTextual } from './services/messageOps';
+import {
+  ROOM_CLAIM_JITTER, ROOM_LOOKUP_TIMEOUT, RoomState, createRoom, generateRoomCode, parseRoomCode, roomAdmits, roomHostId,
+  roomKey
+} from './services/room';
+import {
+  APPROVAL_TIMEOUT, REJECT_COOLDOWN, blockPeer, isBlocked, judgeIncoming, loadBlocked, loadJoinPin, normalizePin,
+  saveJoinPin, unblockPeer
+} from './services/accessControl';
+import {
+  NetworkSettings, describeSignaling, loadNetworkSettings, peerOptionsFor, saveNetworkSettings, takeDeepLinkConfig
+} from './services/networkSettings';
+import { FAILURE_TITLES, HANDSHAKE_STAGES, STAGE_LABELS, describeCandidates, remedyFor } from './services/linkDiagnostics';
 import { v4 as uuidv4 } from 'uuid';
 
-const CHUNK_SIZE = 16384;
-const HANDSHAKE_TIMEOUT = 45000; // 延长至 45 秒
-
 const App: React.FC = () => {
-  const [myId, setMyId] = useState<string>('');
   const [targetIdInput, setTargetIdInput] = useState<string>('');
   const [activeTargetId, setActiveTargetId] = useState<string>('');
-  const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [transferProgress, setTransferProgress] = useState<Record<string, number>>({});
+  const [transfers, setTransfers] = useState<Record<string, TransferStatus>>({});
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [copied, setCopied] = useState(false);
+  const [security, setSecurity] = useState<LinkSecurity>({ state: 'negotiating' });
+  const [contacts, setContacts] = useState<Contact[]>(() => loadContacts());
+  const [showScanner, setShowScanner] = useState(false);
+  const [remoteTyping, setRemoteTyping] = useState(false);
+  const [roomCodeInput, setRoomCodeInput] = useState('');
+  const [targetPinInput, setTargetPinInput] = useState('');
+  const [roomPinInput, setRoomPinInput] = useState('');
+  const [joinPin, setJoinPin] = useState<string | null>(() => loadJoinPin());
+  const [blocked, setBlocked] = useState<string[]>(() => loadBlocked());
+  const [linkRequests, setLinkRequests] = useState<string[]>([]);
+  const [networkSettings, setNetworkSettings] = useState<NetworkSettings>(() => loadNetworkSettings());
+  const [showNetwork, setShowNetwork] = useState(false);
+  const [room, setRoom] = useState<RoomState | null>(null);
+  const [groupCall, setGroupCall] = useState<CallSession | null>(null);
+  const [roomStreams, setRoomStreams] = useState<Record<string, MediaStream>>({});
   
-  const [isInCall, setIsInCall] = useState(false);
-  const [isIncomingCall, setIsIncomingCall] = useState(false);
+  const [callSession, setCallSession] = useState<CallSession | null>(null);
+  const [mediaState, setMediaState] = useState<LocalMediaState>(DEFAULT_MEDIA_STATE);
+  const [remoteMedia, setRemoteMedia] = useState<RemoteMediaState>(DEFAULT_REMOTE_MEDIA);
+  const [callStats, setCallStats] = useState<CallStats | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [remoteRecording, setRemoteRecording] = useState(false);
   const [localStream, setLocalStream] = useState<MediaStream | null>(null);
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
 
-  const peerRef = useRef<any>(null);
-  const connRef = useRef<any>(null);
-  const callRef = useRef<any>(null);
-  const heartbeatIntervalRef = useRef<any>(null);
-  const incomingChunks = useRef<Record<string, { chunks: any[], total: number }>>({});
-  const connectionTimeoutRef = useRef<any>(null);
+  const localMediaRef = useRef<Promise<MediaStream | null> | null>(null);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const mediaStateRef = useRef<LocalMediaState>(DEFAULT_MEDIA_STATE);
+  const flippingRef = useRef(false);
+  // 共享屏幕期间保留摄像头轨道，停止共享时直接换回
+  const cameraTrackRef = useRef<MediaStreamTrack | null>(null);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const identityRef = useRef<Promise<Identity | null>>(Promise.resolve(null));
+  // 当前会话对应的对端，以及已落盘的消息对象（按引用比较，变化即重写）
+  const conversationPeerRef = useRef<string>('');
+  const persistedRef = useRef<Map<string, ChatMessage>>(new Map());
+  const historyChainRef = useRef<Promise<void>>(Promise.resolve());
+  const historyLoadRef = useRef<Promise<ChatMessage[]>>(Promise.resolve([]));
+  // 供只注册一次的连接回调读取最新消息列表
+  const messagesRef = useRef<ChatMessage[]>([]);
+  messagesRef.current = messages;
+  // 房间成员主动离开时关闭的连接
+  const endedLinksRef = useRef<WeakSet<any>>(new WeakSet());
+  const receiptsRef = useRef(createReceiptBatch());
+  const typingSentAtRef = useRef(0);
+  const typingIdleRef = useRef<any>(null);
+  const remoteTypingRef = useRef<any>(null);
+  // 目标消息尚未到达的回应/编辑/撤回，按 refId 暂存
+  const pendingOpsRef = useRef<Record<string, ChatMessage[]>>({});
+  // 断线期间本机的操作，同时存入 localStorage，重连（包括刷新之后）时发出
+  const opOutboxRef = useRef<ChatMessage[]>([]);
+  // 房间：每位成员一条直连，群通话每位成员一条媒体连接
+  const roomRef = useRef<RoomState | null>(null);
+  const roomLinksRef = useRef<Map<string, any>>(new Map());
+  const roomMediaRef = useRef<Map<string, any>>(new Map());
+  const roomHostRef = useRef<any>(null);
+  const groupCallRef = useRef<CallSession | null>(null);
+  // 等待用户确认的来访连接；确认前收到的数据先缓存，放行后按序补交
+  const linkRequestsRef = useRef<{ conn: any; buffered: any[]; hold: (raw: any) => void; timer: any }[]>([]);
+  // 本次运行中已放行的对端，断线重连时不再询问
+  const approvedPeersRef = useRef<Set<string>>(new Set());
+  const rejectedAtRef = useRef<Record<string, number>>({});
+  const networkRef = useRef<NetworkSettings>(networkSettings);
+  // ?connect= 深链接：等信令上线后再连接
+  const pendingConnectRef = useRef<string | null>(null);
+
+  // 信令登记、主链路、断线重连、文件传输与一对一通话都由客户端负责，这里只订阅它的事件
+  const client = usePeerLinkClient(() => createPeerLinkClient({
+    transport: peerJsTransport,
+    peerOptions: () => peerOptionsFor(networkRef.current),
+    identity: () => identityRef.current,
+    generateId: generatePeerId,
+    transferStore: indexedDbTransferStore,
+    // 设备相关的函数在后面定义，这里包一层等到调用时再取
+    media: {
+      acquire: kind => acquireMedia(kind),
+      current: () => localStreamRef.current,
+      state: () => mediaStateRef.current,
+      release: () => releaseLocalMedia()
+    },
+    busy: () => !!groupCallRef.current
+  }));
+  const { peerId: myId, online, stage, status, failure, candidates, reconnect } = usePeerLinkState(client);
+
+  const myQr = useMemo(() => myId ? encodeQr(pairingLink(myId)) : null, [myId]);
 
   const addLog = (message: string, level: LogEntry['level'] = 'info') => {
     const newLog: LogEntry = {
@@ -40,200 +161,532 @@ const App: React.FC = () => {
     setLogs(prev => [newLog, ...prev].slice(0, 50));
   };
 
+  usePeerLinkEvent(client, 'log', (message, level) => addLog(message, level));
+  usePeerLinkEvent(client, 'ready', () => {
+    const pending = pendingConnectRef.current;
+    if (pending) {
+      pendingConnectRef.current = null;
+      setTargetIdInput(pending);
+      connectToPeer(pending);
+    }
+  });
+  usePeerLinkEvent(client, 'id-taken', (_, freshId) => saveDeviceId(freshId));
+  usePeerLinkEvent(client, 'connection', conn => routeIncomingLink(conn));
+  usePeerLinkEvent(client, 'call', media => routeIncomingMedia(media));
+  usePeerLinkEvent(client, 'error', err => handlePeerError(err));
+  usePeerLinkEvent(client, 'link', conn => {
+    openConversation(conn.peer);
+    setSecurity({ state: 'negotiating' });
+  });
+  usePeerLinkEvent(client, 'link-open', conn => handleLinkOpen(conn));
+  usePeerLinkEvent(client, 'link-close', conn => handleLinkClose(conn));
+  usePeerLinkEvent(client, 'secured', (peerId, info) => handleEncryptionEstablished(peerId, info));
+  usePeerLinkEvent(client, 'message', msg => handleData(msg));
+  usePeerLinkEvent(client, 'reconnect-failed', () => {
+    setMessages(prev => prev.map(m => m.delivery === 'queued' ? { ...m, delivery: 'failed' } : m));
+  });
+  usePeerLinkEvent(client, 'transfer', (tId, status) => trackTransfer(tId, status));
+  usePeerLinkEvent(client, 'file-incoming', (tId, senderId, fileName, manifest) => announceIncomingFile(tId, senderId, fileName, manifest));
+  usePeerLinkEvent(client, 'folder-incoming', (manifest, senderId) => announceIncomingFolder(manifest, senderId));
+  usePeerLinkEvent(client, 'file-received', (msg, manifest) => receiveFile(msg, manifest));
+  usePeerLinkEvent(client, 'file-corrupted', msg => upsertMessage(msg));
+  usePeerLinkEvent(client, 'file-sent', (msg, manifest) => finishSentFile(msg, manifest));
+  usePeerLinkEvent(client, 'transfer-cancelled', (_, fileName, by) => noteCancelledTransfer(fileName, by));
+  usePeerLinkEvent(client, 'room-file-delivery', (tId, delivery) => settleRoomFile(tId, delivery));
+  usePeerLinkEvent(client, 'call-session', session => setCallSession(session));
+  usePeerLinkEvent(client, 'call-ending', () => {
+    stopRecording();
+    setRemoteRecording(false);
+  });
+  usePeerLinkEvent(client, 'call-stream', stream => setRemoteStream(stream));
+  usePeerLinkEvent(client, 'call-remote-media', state => setRemoteMedia(state));
+  usePeerLinkEvent(client, 'call-remote-recording', recording => setRemoteRecording(recording));
+  usePeerLinkEvent(client, 'call-stats', stats => setCallStats(stats));
+  usePeerLinkEvent(client, 'call-log', (session, outcome) => addCallLog(session, outcome));
+
   useEffect(() => {
-    initPeer();
+    identityRef.current = isE2ESupported()
+      ? loadIdentity().catch(() => {
+          addLog("Identity key unavailable, link will not be end-to-end encrypted", "warn");
+          return null;
+        })
+      : Promise.resolve(null);
+    pendingConnectRef.current = takeDeepLinkPeer();
+    // 配置链接可以把信令改到任意服务器，必须由用户确认
+    const imported = takeDeepLinkConfig();
+    if (imported && window.confirm(
+      `Use the network settings from this link?\n\nSignaling: ${describeSignaling(imported.signaling)}\nICE servers: ${imported.iceServers.length}`
+    )) {
+      saveNetworkSettings(imported);
+      networkRef.current = imported;
+      setNetworkSettings(imported);
+      addLog(`Network settings imported (${describeSignaling(imported.signaling)})`, "info");
+    }
+    client.start(loadDeviceId());
+    client.transfers.restore();
+    requestPersistentStorage().catch(() => {});
+    // 网络恢复时不必等退避计时，立即重试
+    const handleOnline = () => client.resumeReconnect();
+    window.addEventListener('online', handleOnline);
     return () => {
-      stopHeartbeat();
-      if (peerRef.current) peerRef.current.destroy();
-      if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
+      window.removeEventListener('online', handleOnline);
+      roomHostRef.current?.destroy();
     };
   }, []);
 
-  const startHeartbeat = () => {
-    stopHeartbeat();
-    heartbeatIntervalRef.current = setInterval(() => {
-      if (peerRef.current && !peerRef.current.disconnected) {
-        // PeerJS 内部会处理信令心跳，此处仅用于监测
-      } else if (peerRef.current?.disconnected) {
-        addLog("Signaling lost, reconnecting...", "warn");
-        peerRef.current.reconnect();
-      }
-    }, 15000);
+  // 写入串成一条链，避免同一条消息的旧版本晚于新版本落盘
+  const queueHistory = (task: () => Promise<void>): Promise<void> => {
+    historyChainRef.current = historyChainRef.current
+      .then(task)
+      .catch(e => addLog(`History: ${e?.message || e}`, "warn"));
+    return historyChainRef.current;
   };
 
-  const stopHeartbeat = () => {
-    if (heartbeatIntervalRef.current) clearInterval(heartbeatIntervalRef.current);
+  useEffect(() => {
+    const peerId = conversationPeerRef.current;
+    if (!peerId) return;
+    const changed = messages.filter(m => persistedRef.current.get(m.id) !== m);
+    if (!changed.length) return;
+    changed.forEach(m => persistedRef.current.set(m.id, m));
+    const selfId = client.id;
+    queueHistory(() => saveMessages(peerId, selfId, changed));
+  }, [messages]);
+
+  // 目标消息到达（或历史载入）后补上暂存的操作
+  useEffect(() => {
+    const pending = pendingOpsRef.current;
+    const ready = Object.keys(pending).filter(id => messages.some(m => m.id === id));
+    if (!ready.length) return;
+    const ops = ready.flatMap(id => pending[id]);
+    ready.forEach(id => delete pending[id]);
+    applyMessageOps(ops);
+  }, [messages]);
+
+  const openConversation = async (peerId: string) => {
+    // 同一对端重连时保留内存中的消息
+    if (conversationPeerRef.current === peerId) return;
+    conversationPeerRef.current = peerId;
+    persistedRef.current = new Map();
+    pendingOpsRef.current = {};
+    opOutboxRef.current = loadOpOutbox(peerId);
+    setMessages([]);
+    const loading = loadConversation(peerId, client.id);
+    historyLoadRef.current = loading.catch(() => []);
+    try {
+      const history = await loading;
+      if (conversationPeerRef.current !== peerId || !history.length) return;
+      history.forEach(m => persistedRef.current.set(m.id, m));
+      setMessages(prev => {
+        const live = new Set(prev.map(m => m.id));
+        return [...history.filter(m => !live.has(m.id)), ...prev];
+      });
+      addLog(`Loaded ${history.length} message(s) from history`, "info");
+    } catch (e: any) {
+      addLog(`History unavailable: ${e?.message || e}`, "warn");
+    }
+  };
+
+  const leaveConversation = () => {
+    client.leave();
+    if (isCallBusy(client.calls.session)) client.calls.end();
+    conversationPeerRef.current = '';
+    historyLoadRef.current = Promise.resolve([]);
+    persistedRef.current = new Map();
+    setMessages([]);
+    setActiveTargetId('');
+    setSecurity({ state: 'negotiating' });
   };
 
-  const initPeer = () => {
-    const peerId = Math.random().toString(36).substring(2, 8).toUpperCase();
-    setMyId(peerId);
+  const clearConversation = async () => {
+    const peerId = conversationPeerRef.current;
+    if (!peerId) return;
+    await queueHistory(() => deleteConversation(peerId));
+    persistedRef.current = new Map();
+    setMessages([]);
+    addLog(`Deleted conversation with ${peerId}`, "warn");
+  };
+
+  const exportCurrentConversation = async (): Promise<Blob | null> => {
+    const peerId = conversationPeerRef.current;
+    if (!peerId) return null;
+    // 等待尚未落盘的消息写完再导出
+    await historyChainRef.current;
+    try {
+      return await exportConversation(peerId);
+    } catch (e: any) {
+      addLog(`Export failed: ${e?.message || e}`, "error");
+      return null;
+    }
+  };
 
-    const Peer = (window as any).Peer;
-    if (!Peer) {
-      addLog("Critical: PeerJS library missing!", "error");
+  const importArchive = async (file: File) => {
+    try {
+      const { peerId, count } = await importConversation(file);
+      addLog(`Imported ${count} message(s) with ${peerId}`, "success");
+      if (peerId !== conversationPeerRef.current) return;
+      const history = await loadConversation(peerId, client.id);
+      history.forEach(m => persistedRef.current.set(m.id, m));
+      setMessages(prev => {
+        const imported = new Set(history.map(m => m.id));
+        return [...history, ...prev.filter(m => !imported.has(m.id))].sort((a, b) => a.timestamp - b.timestamp);
+      });
+    } catch (e: any) {
+      addLog(`Import failed: ${e?.message || e}`, "error");
+    }
+  };
+
+  const routeIncomingLink = (conn: any) => {
+    if (conn.metadata?.room) {
+      acceptRoomLink(conn);
+      return;
+    }
+    // 房间与单聊互斥
+    if (roomRef.current) {
+      addLog(`Declined link from ${conn.peer} while in a room`, "warn");
+      conn.close();
       return;
     }
+    screenIncomingLink(conn);
+  };
 
-    addLog("Initializing P2P kernel...", "info");
-    
-    const newPeer = new Peer(peerId, {
-      debug: 1,
-      config: {
-        iceServers: [
-          { urls: 'stun:stun.l.google.com:19302' },
-          { urls: 'stun:stun1.l.google.com:19302' },
-          { urls: 'stun:stun.anyfirewall.com:3478' },
-          { urls: 'stun:stun.sipgate.net:3478' },
-          { urls: 'stun:global.stun.twilio.com:3478' }
-        ],
-        sdpSemantics: 'unified-plan',
-      }
-    });
+  const routeIncomingMedia = (media: any) => {
+    if (isBlocked(media.peer)) {
+      addLog(`Rejected call from blocked ${media.peer}`, "warn");
+      media.close();
+      return;
+    }
+    if (media.metadata?.room) handleRoomMedia(media);
+    else client.calls.answerMedia(media);
+  };
 
-    newPeer.on('open', (id: string) => {
-      addLog(`Online. ID: ${id}`, "success");
-      startHeartbeat();
-    });
+  const handlePeerError = (err: any) => {
+    if (err.type === 'peer-unavailable' && roomRef.current) {
+      // 门牌刚好离开：自己去接手
+      const code = roomRef.current.code;
+      addLog(`Room: ${err.message}`, "warn");
+      if (String(err.message).includes(roomHostId(code))) claimRoomHost(code);
+      return;
+    }
+    addLog(`System: ${err.type}`, "error");
+  };
 
-    newPeer.on('connection', (conn: any) => {
-      addLog(`Incoming link from ${conn.peer}`, "info");
-      setActiveTargetId(conn.peer);
-      setupDataConnection(conn);
-    });
+  const handleLinkOpen = (conn: any) => {
+    setContacts(updateContact(conn.peer, { lastSeen: Date.now() }));
+    announceSessionResume(conn);
+    flushOps();
+    flushReceipts();
+  };
 
-    newPeer.on('call', (call: any) => {
-      addLog(`Incoming call: ${call.peer}`, "success");
-      callRef.current = call;
-      setActiveTargetId(call.peer);
-      setIsInCall(true);
-      setIsIncomingCall(true);
+  const handleLinkClose = (conn: any) => {
+    setRemoteTyping(false);
+    typingSentAtRef.current = 0;
+    if (findContact(conn.peer)) setContacts(updateContact(conn.peer, { lastSeen: Date.now() }));
+  };
 
-      call.on('stream', (remote: MediaStream) => {
-        addLog("Remote media synchronized", "success");
-        setRemoteStream(remote);
-      });
-      call.on('close', endCall);
-      call.on('error', (err: any) => {
-        addLog(`Call Error: ${err.type}`, "error");
-        endCall();
-      });
-    });
+  const screenIncomingLink = (conn: any) => {
+    const approved = approvedPeersRef.current.has(conn.peer) || conn.peer === conversationPeerRef.current;
+    const rejectedAt = rejectedAtRef.current[conn.peer];
+    if (!approved && rejectedAt && Date.now() - rejectedAt < REJECT_COOLDOWN) {
+      conn.close();
+      return;
+    }
+    const { verdict, reason } = judgeIncoming(conn.peer, conn.metadata?.pin, approved, loadJoinPin());
+    if (verdict === 'reject') {
+      addLog(`Rejected link from ${conn.peer} (${reason})`, "warn");
+      conn.close();
+      return;
+    }
+    if (verdict === 'ask') {
+      requestApproval(conn);
+      return;
+    }
+    if (reason === 'pin') {
+      // PIN 只能用一次
+      saveJoinPin(null);
+      setJoinPin(null);
+      addLog(`${conn.peer} joined with your PIN; the PIN is now cleared`, "info");
+    }
+    acceptIncomingLink(conn);
+  };
 
-    newPeer.on('error', (err: any) => {
-      addLog(`System: ${err.type}`, "error");
-      if (err.type === 'peer-unavailable') {
-        addLog("Peer offline or ID invalid. Ask them to stay on the page.", "error");
-        setStatus(ConnectionStatus.ERROR);
-      }
-      if (err.type === 'disconnected') {
-        addLog("Link to server lost. Reconnecting...", "warn");
-        newPeer.reconnect();
-      }
-    });
+  const acceptIncomingLink = (conn: any, buffered: any[] = []) => {
+    approvedPeersRef.current.add(conn.peer);
+    addLog(`Incoming link from ${conn.peer}`, "info");
+    setActiveTargetId(conn.peer);
+    client.accept(conn, buffered);
+  };
 
-    newPeer.on('disconnected', () => {
-      addLog("Signaling server disconnected.", "warn");
+  const requestApproval = (conn: any) => {
+    // 同一对端重复请求时只保留最新的
+    linkRequestsRef.current.filter(r => r.conn.peer === conn.peer).forEach(r => {
+      removeLinkRequest(r.conn);
+      r.conn.close();
     });
+    const buffered: any[] = [];
+    const hold = (raw: any) => buffered.push(raw);
+    conn.on('data', hold);
+    conn.on('close', () => removeLinkRequest(conn));
+    const timer = setTimeout(() => answerLinkRequest(conn.peer, 'reject'), APPROVAL_TIMEOUT);
+    linkRequestsRef.current = [...linkRequestsRef.current, { conn, buffered, hold, timer }];
+    setLinkRequests(linkRequestsRef.current.map(r => r.conn.peer));
+    addLog(`${conn.peer} is asking to connect`, "warn");
+  };
 
-    peerRef.current = newPeer;
+  const removeLinkRequest = (conn: any) => {
+    const request = linkRequestsRef.current.find(r => r.conn === conn);
+    if (!request) return null;
+    clearTimeout(request.timer);
+    conn.off('data', request.hold);
+    linkRequestsRef.current = linkRequestsRef.current.filter(r => r !== request);
+    setLinkRequests(linkRequestsRef.current.map(r => r.conn.peer));
+    return request;
   };
 
-  const setupDataConnection = (conn: any) => {
-    if (connRef.current && connRef.current.open) {
-      connRef.current.close();
+  const answerLinkRequest = (peerId: string, decision: 'accept' | 'reject' | 'block') => {
+    const pending = linkRequestsRef.current.find(r => r.conn.peer === peerId);
+    const request = pending && removeLinkRequest(pending.conn);
+    if (!request) return;
+    if (decision === 'accept' && !roomRef.current) {
+      acceptIncomingLink(request.conn, request.buffered);
+      return;
+    }
+    if (decision === 'block') {
+      setBlocked(blockPeer(peerId));
+      addLog(`Blocked ${peerId}`, "warn");
+    } else {
+      rejectedAtRef.current[peerId] = Date.now();
+      addLog(`Rejected link from ${peerId}`, "info");
     }
-    
-    connRef.current = conn;
-    addLog(`Syncing with ${conn.peer}...`, "info");
+    request.conn.close();
+  };
 
-    conn.on('open', () => {
-      if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
-      addLog("Secure link established", "success");
-      setStatus(ConnectionStatus.CONNECTED);
-    });
+  const changeJoinPin = () => {
+    const input = window.prompt('Set a one-time PIN (4-8 digits) that callers must enter. Leave empty to remove it.', joinPin || '');
+    if (input === null) return;
+    const pin = input.trim() ? normalizePin(input) : null;
+    if (input.trim() && !pin) {
+      addLog("PIN must be 4-8 digits", "warn");
+      return;
+    }
+    saveJoinPin(pin);
+    setJoinPin(pin);
+    addLog(pin ? "Join PIN set; links without it will be rejected" : "Join PIN removed", "info");
+  };
 
-    conn.on('close', () => {
-      addLog("Secure link severed", "warn");
-      setStatus(ConnectionStatus.DISCONNECTED);
-    });
+  const unblock = (peerId: string) => setBlocked(unblockPeer(peerId));
 
-    conn.on('error', (err: any) => {
-      const type = err.type || err.message || 'connection-failed';
-      addLog(`Link Error: ${type}`, "error");
-      if (type === 'negotiation-failed') {
-        addLog("NAT Traversal failed. Try using same Wi-Fi or both use Cellular Data.", "warn");
+  // 换了信令或 ICE 配置后用同一个 ID 重新上线
+  const applyNetworkSettings = (settings: NetworkSettings) => {
+    saveNetworkSettings(settings);
+    networkRef.current = settings;
+    setNetworkSettings(settings);
+    setShowNetwork(false);
+    addLog(`Signaling: ${describeSignaling(settings.signaling)}, ${settings.iceServers.length} ICE server(s)`, "info");
+    client.restart();
+  };
+
+  // 在安全通道放行发送之前同步调用：身份存疑时先 hold，用户确认后才发出任何消息
+  const handleEncryptionEstablished = (peerId: string, info: SafetyInfo | null) => {
+    if (!info) {
+      // 曾经加密过的对端突然不加密，视同安全码变化：复用其短 ID 的人可以借此绕过指纹校验
+      const expected = findContact(peerId)?.fingerprint || knownKeyFor(peerId);
+      if (!expected) {
+        addLog("Peer does not support encryption; link is NOT end-to-end encrypted", "warn");
+        setSecurity({ state: 'unencrypted' });
+        return;
       }
-      setStatus(ConnectionStatus.ERROR);
+      client.hold();
+      setSecurity({ state: 'unencrypted', keyChanged: true });
+      addLog(`WARNING: ${peerId} used to be end-to-end encrypted but this link is not. Sending is paused.`, "error");
+      setMessages(prev => [...prev, {
+        id: uuidv4(), senderId: client.id, type: MessageType.SYSTEM,
+        content: `Encryption dropped for ${peerId}. Someone may be impersonating them.`, timestamp: Date.now()
+      }]);
+      return;
+    }
+    const previous = checkKnownKey(peerId, info.fingerprint);
+    // 通讯录中绑定的指纹优先：短 ID 被他人复用时也能识破
+    const expected = findContact(peerId)?.fingerprint || previous;
+    const keyChanged = !!expected && expected !== info.fingerprint;
+    if (!keyChanged) setContacts(updateContact(peerId, { fingerprint: info.fingerprint }));
+    setSecurity({
+      state: 'encrypted', safetyNumber: info.safetyNumber, emoji: info.emoji,
+      fingerprint: info.fingerprint, keyChanged
     });
-    
-    conn.on('data', (data: any) => {
-      if (!data) return;
-      if (data.type === MessageType.CHUNK) {
-        handleIncomingChunk(data);
-      } else if (data.type) {
-        setMessages(prev => [...prev, data as ChatMessage]);
+    if (keyChanged) {
+      client.hold();
+      addLog(`WARNING: Safety number for ${peerId} has changed. Sending is paused until you trust it.`, "error");
+      setMessages(prev => [...prev, {
+        id: uuidv4(), senderId: client.id, type: MessageType.SYSTEM,
+        content: `Safety number changed for ${peerId}. Someone may be intercepting this link.`, timestamp: Date.now()
+      }]);
+    } else {
+      addLog(`End-to-end encrypted · ${info.emoji}`, "success");
+    }
+  };
+
+  const trustRemoteKey = () => {
+    if (!client.link) return;
+    if (security.fingerprint) {
+      trustKey(client.link.peer, security.fingerprint);
+      setContacts(updateContact(client.link.peer, { fingerprint: security.fingerprint }));
+      addLog("New safety number accepted", "warn");
+    } else {
+      // 只放行本次会话，保留原指纹：下次对端恢复加密时仍按原密钥校验
+      addLog("Unencrypted link accepted for this session", "warn");
+    }
+    setSecurity(prev => ({ ...prev, keyChanged: false }));
+    client.release();
+  };
+
+  // 文件传输与通话信令已由客户端处理，这里只剩聊天本身的消息
+  const handleData = (data: ChatMessage) => {
+    if (data.type === MessageType.SESSION_RESUME) {
+      handleSessionResume(data.content as SessionResume);
+    } else if (data.type === MessageType.RECEIPT_DELIVERED) {
+      applyReceipts(data.content as string[], 'delivered');
+    } else if (data.type === MessageType.RECEIPT_READ) {
+      applyReceipts(data.content as string[], 'read');
+    } else if (isMessageOp(data)) {
+      handleIncomingOp(data);
+    } else if (data.type === MessageType.TYPING) {
+      handleRemoteTyping(!!data.content?.typing);
+    } else if (data.type) {
+      // 重连补发可能与已收到的消息重复
+      setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data as ChatMessage]);
+      if (isReceiptable(data)) {
+        queueReceipts('delivered', [data.id]);
+        handleRemoteTyping(false);
       }
+    }
+  };
+
+  const sendWire = (conn: any, msg: ChatMessage): Promise<void> => client.sendTo(conn, msg);
+
+  const sendControl = (type: MessageType, fields: Partial<ChatMessage>) => {
+    if (!client.link?.open) return;
+    sendWire(client.link, {
+      id: uuidv4(), senderId: client.id, type,
+      content: null, timestamp: Date.now(), ...fields
     });
   };
 
-  const handleIncomingChunk = (msg: ChatMessage) => {
-    const tId = msg.transferId!;
-    if (!incomingChunks.current[tId]) {
-      incomingChunks.current[tId] = { chunks: [], total: msg.totalChunks! };
-    }
-    incomingChunks.current[tId].chunks[msg.chunkIndex!] = msg.content;
-    const received = Object.keys(incomingChunks.current[tId].chunks).length;
-    const progress = Math.floor((received / msg.totalChunks!) * 100);
-    setTransferProgress(prev => ({ ...prev, [tId]: progress }));
-
-    if (received === msg.totalChunks) {
-      const blob = new Blob(incomingChunks.current[tId].chunks);
-      const finalMsg: ChatMessage = {
-        ...msg,
-        type: msg.fileName?.match(/\.(jpg|jpeg|png|gif)$/i) ? MessageType.IMAGE : MessageType.VIDEO_FILE,
-        content: blob
-      };
-      setMessages(prev => [...prev, finalMsg]);
-      delete incomingChunks.current[tId];
-      setTransferProgress(prev => {
-        const n = { ...prev };
-        delete n[tId];
-        return n;
-      });
+  const upsertMessage = (msg: ChatMessage) => {
+    setMessages(prev => prev.some(m => m.id === msg.id)
+      ? prev.map(m => m.id === msg.id ? msg : m)
+      : [...prev, msg]);
+  };
+
+  const attachToFolder = (folderId: string, tId: string, blob: Blob) => {
+    setMessages(prev => prev.map(m => {
+      if (m.id !== folderId || m.type !== MessageType.FOLDER) return m;
+      const content = m.content as FolderContent;
+      return { ...m, content: { ...content, files: { ...content.files, [tId]: blob } } };
+    }));
+  };
+
+  // 进度面板中的一条传输，null 表示移除
+  const trackTransfer = (tId: string, status: TransferStatus | null) => {
+    setTransfers(prev => {
+      const n = { ...prev };
+      if (status) n[tId] = status;
+      else delete n[tId];
+      return n;
+    });
+  };
+
+  const announceIncomingFile = (tId: string, senderId: string, fileName: string, manifest?: FileManifest) => {
+    // 文件夹内的文件在 FOLDER 气泡里显示进度
+    if (manifest?.folderId) return;
+    setMessages(prev => [...prev, {
+      id: uuidv4(), senderId, type: MessageType.SYSTEM,
+      content: `Receiving: ${fileName}`, timestamp: Date.now(), transferId: tId
+    }]);
+  };
+
+  const announceIncomingFolder = (manifest: FolderManifest, senderId: string) => {
+    queueReceipts('delivered', [manifest.folderId]);
+    upsertMessage({
+      id: manifest.folderId, senderId, type: MessageType.FOLDER,
+      content: { manifest, files: {} } as FolderContent, timestamp: Date.now(), fileName: manifest.name
+    });
+  };
+
+  const receiveFile = (msg: ChatMessage, manifest?: FileManifest) => {
+    if (manifest?.folderId) {
+      attachToFolder(manifest.folderId, msg.id, msg.content);
+      return;
     }
+    // 房间没有回执
+    if (!roomRef.current) queueReceipts('delivered', [msg.id]);
+    upsertMessage(msg);
+  };
+
+  const finishSentFile = (msg: ChatMessage, manifest?: FileManifest) => {
+    if (manifest?.folderId) attachToFolder(manifest.folderId, msg.id, msg.content);
+    else upsertMessage(msg);
   };
 
-  const connectToPeer = () => {
-    const id = targetIdInput.trim().toUpperCase();
-    if (!id || !peerRef.current) return;
-    if (id === myId) {
+  const noteCancelledTransfer = (fileName: string, by: 'local' | 'remote') => {
+    setMessages(prev => [...prev, {
+      id: uuidv4(), senderId: client.id, type: MessageType.SYSTEM,
+      content: `Cancelled${by === 'remote' ? ' by peer' : ''}: ${fileName}`, timestamp: Date.now()
+    }]);
+  };
+
+  // 房间里的传输分布在各成员的直连上，其余都在主链路上
+  const transfersInView = () => roomRef.current ? client.roomFiles : client.transfers;
+
+  const controlTransfer = (tId: string, action: TransferAction) => transfersInView().control(tId, action);
+
+  const connectToPeer = (target?: string) => {
+    const id = (target ?? targetIdInput).trim().toUpperCase();
+    if (!id || !client.peer) return;
+    if (id === client.id) {
       addLog("Cannot connect to self", "warn");
       return;
     }
 
     addLog(`Linking to ${id}...`, "info");
+    const pin = normalizePin(targetPinInput);
     setActiveTargetId(id);
-    setStatus(ConnectionStatus.CONNECTING);
+    client.connect(id, pin ? { pin } : {});
+  };
 
-    if (connectionTimeoutRef.current) clearTimeout(connectionTimeoutRef.current);
-    connectionTimeoutRef.current = setTimeout(() => {
-      if (status !== ConnectionStatus.CONNECTED) {
-        addLog("Handshake timeout. Both peers should refresh and try again.", "error");
-        setStatus(ConnectionStatus.ERROR);
-      }
-    }, HANDSHAKE_TIMEOUT);
-    
-    // 强制使用 JSON 序列化
-    const conn = peerRef.current.connect(id, { 
-      reliable: true,
-      serialization: 'json'
-    });
-    setupDataConnection(conn);
+  const renameContact = (contact: Contact) => {
+    const nickname = window.prompt(`Nickname for ${contact.peerId}`, contact.nickname || '');
+    if (nickname === null) return;
+    setContacts(updateContact(contact.peerId, { nickname: nickname.trim() || undefined }));
+  };
+
+  const forgetContact = (contact: Contact) => {
+    if (!window.confirm(`Remove ${contact.nickname || contact.peerId} from contacts?`)) return;
+    setContacts(removeContact(contact.peerId));
+  };
+
+  const handleScan = (text: string) => {
+    setShowScanner(false);
+    const id = parsePairingCode(text);
+    if (!id) {
+      addLog("Scanned code is not a P2P Link ID", "warn");
+      return;
+    }
+    setTargetIdInput(id);
+    connectToPeer(id);
   };
 
-  const copyMyId = () => {
+  const shareLink = () => {
     if (!myId) return;
+    const link = pairingLink(myId);
+    if (navigator.share) {
+      navigator.share({ title: 'P2P Link', url: link }).catch(() => {});
+    } else {
+      copyMyId(link);
+    }
+  };
+
+  const copyMyId = (text: string = myId) => {
+    if (!text) return;
     const doCopy = (text: string) => {
       const el = document.createElement('textarea');
       el.value = text;
@@ -247,137 +700,950 @@ const App: React.FC = () => {
     };
 
     if (navigator.clipboard && navigator.clipboard.writeText) {
-      navigator.clipboard.writeText(myId).then(() => {
+      navigator.clipboard.writeText(text).then(() => {
         setCopied(true); addLog("ID copied", "success");
         setTimeout(() => setCopied(false), 2000);
       }).catch(() => {
-        if(doCopy(myId)) { setCopied(true); addLog("ID copied (fallback)", "success"); setTimeout(() => setCopied(false), 2000); }
+        if(doCopy(text)) { setCopied(true); addLog("ID copied (fallback)", "success"); setTimeout(() => setCopied(false), 2000); }
       });
-    } else if (doCopy(myId)) {
+    } else if (doCopy(text)) {
       setCopied(true); addLog("ID copied (legacy)", "success");
       setTimeout(() => setCopied(false), 2000);
     }
   };
 
-  const startCall = async () => {
-    if (!activeTargetId || !peerRef.current) return;
-    addLog("Requesting camera/mic...", "info");
-    setIsInCall(true);
-    setIsIncomingCall(false);
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'user', width: { ideal: 640 }, height: { ideal: 480 } }, 
-        audio: true 
-      });
+  // 取流期间通话可能已结束，此时立即释放设备
+  const acquireMedia = (kind: CallKind): Promise<MediaStream | null> => {
+    // 每次通话重新打开麦克风和摄像头，但沿用上次选择的前/后摄像头
+    updateMediaState({ ...mediaStateRef.current, audio: true, video: kind === 'video', source: 'camera' });
+    const pending: Promise<MediaStream | null> = navigator.mediaDevices.getUserMedia({
+      video: kind === 'video' ? videoConstraints(mediaStateRef.current.facing) : false,
+      audio: true
+    }).then(stream => {
+      if (localMediaRef.current !== pending) {
+        stream.getTracks().forEach(t => t.stop());
+        return null;
+      }
+      localStreamRef.current = stream;
       setLocalStream(stream);
-      addLog(`Calling ${activeTargetId}...`, "info");
-      const call = peerRef.current.call(activeTargetId, stream);
-      if (!call) throw new Error("Call failed");
-      callRef.current = call;
-      call.on('stream', (remote: MediaStream) => {
-        addLog("Call synchronized", "success");
-        setRemoteStream(remote);
-      });
-      call.on('close', endCall);
-      call.on('error', (err: any) => {
-        addLog(`Call Error: ${err.type}`, "error");
-        endCall();
-      });
+      return stream;
+    }).catch(() => null);
+    localMediaRef.current = pending;
+    return pending;
+  };
+
+  const addCallLog = (session: CallSession, outcome: CallEndReason) => {
+    const selfId = client.id;
+    setMessages(prev => [...prev, {
+      id: session.callId,
+      senderId: session.direction === 'outgoing' ? selfId : session.remotePeerId,
+      type: MessageType.CALL_LOG,
+      content: callLogFor(session, outcome),
+      timestamp: Date.now()
+    }]);
+  };
+
+  const releaseLocalMedia = () => {
+    localMediaRef.current = null;
+    localStreamRef.current?.getTracks().forEach(t => t.stop());
+    localStreamRef.current = null;
+    cameraTrackRef.current?.stop();
+    cameraTrackRef.current = null;
+    setLocalStream(null);
+  };
+
+  const startCall = (kind: CallKind = 'video') => {
+    if (roomRef.current) return joinGroupCall(kind);
+    client.calls.start(kind);
+  };
+
+  const updateMediaState = (next: LocalMediaState) => {
+    mediaStateRef.current = next;
+    setMediaState(next);
+  };
+
+  const startRecording = () => {
+    const session = client.calls.session;
+    if (!session || session.phase !== 'active' || recorderRef.current) return;
+    if (!canRecordCalls()) {
+      addLog("Call recording is not supported in this browser", "warn");
+      return;
+    }
+    try {
+      // 本地流会因换摄像头、共享屏幕被替换，远端流从媒体连接上取
+      recorderRef.current = startCallRecording(session.kind, () => localStreamRef.current, () => client.calls.media?.remoteStream || null);
     } catch (e) {
-      addLog("Media access denied", "error");
-      endCall();
+      addLog("Recording failed to start", "error");
+      return;
+    }
+    setRecording(true);
+    client.calls.sendRecording(true);
+    addLog("Recording call", "info");
+  };
+
+  // 录制结果只留在本地，作为自己发出的文件消息出现在聊天中，可直接保存
+  const stopRecording = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecording(false);
+    client.calls.sendRecording(false);
+    const blob = await recorder.stop();
+    if (!blob.size) {
+      addLog("Recording was empty", "warn");
+      return;
     }
+    const mimeType = blob.type || recorder.mimeType;
+    setMessages(prev => [...prev, {
+      id: uuidv4(),
+      senderId: client.id,
+      type: messageTypeFor(mimeType),
+      content: blob,
+      timestamp: Date.now(),
+      fileName: recordingFileName(mimeType, recorder.startedAt),
+      mimeType,
+      fileSize: blob.size
+    }]);
+    addLog(`Recording saved (${(blob.size / 1024 / 1024).toFixed(1)} MB)`, "success");
   };
 
-  const acceptCall = async () => {
-    if (!callRef.current) return;
-    addLog("Answering...", "info");
+  const toggleRecording = () => {
+    if (recorderRef.current) stopRecording();
+    else startRecording();
+  };
+
+  const toggleAudio = () => {
+    const audio = !mediaStateRef.current.audio;
+    localStreamRef.current?.getAudioTracks().forEach(t => { t.enabled = audio; });
+    updateMediaState({ ...mediaStateRef.current, audio });
+    client.calls.sendMediaState();
+  };
+
+  const toggleVideo = () => {
+    const video = !mediaStateRef.current.video;
+    localStreamRef.current?.getVideoTracks().forEach(t => { t.enabled = video; });
+    updateMediaState({ ...mediaStateRef.current, video });
+    client.calls.sendMediaState();
+  };
+
+  // 换摄像头、共享屏幕都只替换发送端的视频轨道，不需要重新协商；群通话逐条媒体连接替换
+  const replaceOutgoingVideo = async (stream: MediaStream, track: MediaStreamTrack) => {
+    const medias = [client.calls.media, ...Array.from(roomMediaRef.current.values())].filter(Boolean);
+    await Promise.all(medias.map(media => {
+      const sender = media.peerConnection?.getSenders().find((s: RTCRtpSender) => s.track?.kind === 'video');
+      return sender?.replaceTrack(track);
+    }));
+    const next = new MediaStream([...stream.getAudioTracks(), track]);
+    localStreamRef.current = next;
+    setLocalStream(next);
+  };
+
+  const flipCamera = async () => {
+    const stream = localStreamRef.current;
+    if (!stream || flippingRef.current || mediaStateRef.current.source !== 'camera') return;
+    flippingRef.current = true;
+    const previous = mediaStateRef.current.facing;
+    let facing: CameraFacing = previous === 'user' ? 'environment' : 'user';
+    // iOS 同一时间只允许一路摄像头采集，先停掉旧轨道
+    stream.getVideoTracks().forEach(t => t.stop());
+    let track: MediaStreamTrack | undefined;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        video: { facingMode: 'user', width: { ideal: 640 }, height: { ideal: 480 } }, 
-        audio: true 
-      });
-      setLocalStream(stream);
-      callRef.current.answer(stream);
-      setIsIncomingCall(false);
+      track = (await navigator.mediaDevices.getUserMedia({ video: videoConstraints(facing) })).getVideoTracks()[0];
     } catch (e) {
-      addLog("Answer failed: Media blocked", "error");
-      endCall();
+      addLog("Camera switch failed, restoring previous camera", "warn");
+      facing = previous;
+      track = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(previous) })
+        .then(s => s.getVideoTracks()[0])
+        .catch(() => undefined);
+    }
+    flippingRef.current = false;
+    if (!track) {
+      addLog("Camera unavailable", "error");
+      return;
     }
+    if (localStreamRef.current !== stream) {
+      track.stop();
+      return;
+    }
+    track.enabled = mediaStateRef.current.video;
+    await replaceOutgoingVideo(stream, track);
+    updateMediaState({ ...mediaStateRef.current, facing });
+    addLog(`Switched to ${facing === 'user' ? 'front' : 'back'} camera`, "info");
   };
 
-  const endCall = () => {
-    if (callRef.current) callRef.current.close();
-    if (localStream) localStream.getTracks().forEach(t => t.stop());
-    setLocalStream(null); setRemoteStream(null);
-    setIsInCall(false); setIsIncomingCall(false);
-    addLog("Call cleanup complete", "info");
+  const startScreenShare = async () => {
+    const stream = localStreamRef.current;
+    const session = client.calls.session || groupCallRef.current;
+    if (!stream || session?.kind !== 'video' || mediaStateRef.current.source === 'screen') return;
+    if (!canShareScreen()) {
+      addLog("Screen sharing is not supported in this browser", "warn");
+      return;
+    }
+    let track: MediaStreamTrack;
+    try {
+      track = (await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false })).getVideoTracks()[0];
+    } catch (e) {
+      addLog("Screen sharing cancelled", "warn");
+      return;
+    }
+    if (localStreamRef.current !== stream) {
+      track.stop();
+      return;
+    }
+    cameraTrackRef.current = stream.getVideoTracks()[0] || null;
+    // 用户在浏览器自带的"停止共享"按钮结束时同样切回摄像头
+    track.onended = () => stopScreenShare();
+    await replaceOutgoingVideo(stream, track);
+    updateMediaState({ ...mediaStateRef.current, video: true, source: 'screen' });
+    client.calls.sendMediaState();
+    addLog("Sharing screen", "info");
   };
 
-  const sendMessage = (content: any, type: MessageType = MessageType.TEXT) => {
-    if (!connRef.current?.open) {
-      addLog("Link unavailable", "warn");
+  const stopScreenShare = async () => {
+    const stream = localStreamRef.current;
+    if (!stream || mediaStateRef.current.source !== 'screen') return;
+    const screen = stream.getVideoTracks()[0];
+    let camera = cameraTrackRef.current;
+    cameraTrackRef.current = null;
+    if (!camera || camera.readyState === 'ended') {
+      camera = await navigator.mediaDevices.getUserMedia({ video: videoConstraints(mediaStateRef.current.facing) })
+        .then(s => s.getVideoTracks()[0])
+        .catch(() => null);
+    }
+    if (screen) {
+      screen.onended = null;
+      screen.stop();
+    }
+    if (localStreamRef.current !== stream) {
+      camera?.stop();
       return;
     }
-    if (type === MessageType.TEXT) {
+    if (camera) {
+      camera.enabled = true;
+      await replaceOutgoingVideo(stream, camera);
+    }
+    updateMediaState({ ...mediaStateRef.current, video: !!camera, source: 'camera' });
+    client.calls.sendMediaState();
+    addLog("Screen sharing stopped", "info");
+  };
+
+  // 文本先进发件箱（随聊天记录落盘），链路可用时立即发出；文件由传输续传机制排队
+  const sendMessage = (content: any, type: MessageType = MessageType.TEXT, refId?: string) => {
+    if (roomRef.current) return sendRoomMessage(content, type, refId);
+    if (type === MessageType.TEXT || type === MessageType.REPLY) {
       if (!content.trim()) return;
-      const msg = { id: uuidv4(), senderId: myId, type, content, timestamp: Date.now() };
-      connRef.current.send(msg);
+      const msg: ChatMessage = { id: uuidv4(), senderId: myId, type, content, timestamp: Date.now(), delivery: 'queued', refId };
+      notifyTyping(false);
       setMessages(prev => [...prev, msg]);
+      if (client.link?.open) deliverMessages([msg]);
+      else addLog("Link unavailable, message queued", "warn");
     } else {
       sendFile(content);
     }
   };
 
-  const sendFile = async (file: File) => {
-    const transferId = uuidv4();
-    const arrayBuffer = await file.arrayBuffer();
-    const totalChunks = Math.ceil(arrayBuffer.byteLength / CHUNK_SIZE);
+  // 撤回文件、语音或文件夹时连同 files 仓库里的内容一起删除；排在历史写入之后，避免被先前排队的写入补回
+  const applyMessageOps = (incoming: ChatMessage[]) => {
+    // 不是目标消息发送者发起的编辑与撤回直接丢弃
+    const ops = incoming.filter(op => {
+      const target = messagesRef.current.find(m => m.id === op.refId);
+      return !target || isPermittedOp(target, op);
+    });
+    ops.forEach(op => {
+      if (op.type !== MessageType.RECALL) return;
+      const target = messagesRef.current.find(m => m.id === op.refId);
+      if (!target || target.recalled) return;
+      // 还在发送中的先取消，对端随之丢弃已收到的分片
+      if (op.senderId === client.id) {
+        blobKeysOf(target).filter(transfersInView().isSending).forEach(key => controlTransfer(key, 'cancel'));
+      }
+      queueHistory(() => deleteMessageFiles(target));
+    });
+    setMessages(prev => applyOps(prev, ops));
+  };
+
+  const handleIncomingOp = (op: ChatMessage) => {
+    if (!op.refId) return;
+    if (messagesRef.current.some(m => m.id === op.refId)) {
+      applyMessageOps([op]);
+      return;
+    }
+    const pending = pendingOpsRef.current;
+    pending[op.refId] = [...(pending[op.refId] || []), op];
+  };
+
+  // 本机操作立即在本地生效；断线时先存着，重连后再发
+  const sendOp = (type: MessageType, refId: string, content: any) => {
+    const op: ChatMessage = { id: uuidv4(), senderId: client.id, type, refId, content, timestamp: Date.now() };
+    applyMessageOps([op]);
+    if (roomRef.current) broadcastRoom(op);
+    else if (client.link?.open) sendWire(client.link, op);
+    else {
+      opOutboxRef.current.push(op);
+      saveOpOutbox(conversationPeerRef.current, opOutboxRef.current);
+    }
+  };
+
+  const flushOps = () => {
+    const conn = client.link;
+    const ops = opOutboxRef.current;
+    if (!conn?.open || !ops.length) return;
+    opOutboxRef.current = [];
+    saveOpOutbox(conn.peer, []);
+    ops.forEach(op => sendWire(conn, op));
+  };
+
+  const reactToMessage = (refId: string, emoji: string | null) => sendOp(MessageType.REACTION, refId, { emoji });
+
+  const editMessage = (refId: string, text: string) => {
+    if (!text.trim()) return;
+    sendOp(MessageType.EDIT, refId, { text });
+  };
+
+  const recallMessage = (refId: string) => sendOp(MessageType.RECALL, refId, null);
+
+  const setDelivery = (ids: string[], delivery: DeliveryState) => {
+    const targets = new Set(ids);
+    setMessages(prev => prev.map(m => targets.has(m.id) && advancesDelivery(m.delivery, delivery) ? { ...m, delivery } : m));
+  };
+
+  const applyReceipts = (ids: string[], kind: ReceiptKind) => {
+    if (!Array.isArray(ids) || !ids.length) return;
+    const selfId = client.id;
+    const targets = new Set(ids);
+    setMessages(prev => prev.map(m =>
+      targets.has(m.id) && m.senderId === selfId && advancesDelivery(m.delivery, kind) ? { ...m, delivery: kind } : m
+    ));
+  };
+
+  const queueReceipts = (kind: ReceiptKind, ids: string[]) => {
+    const batch = receiptsRef.current;
+    addReceipts(batch, kind, ids);
+    if (batch.timer) return;
+    const busy = client.transfers.isBusy();
+    batch.timer = setTimeout(flushReceipts, busy ? RECEIPT_BATCH_DELAY_BUSY : RECEIPT_BATCH_DELAY);
+  };
+
+  // 链路断开时回执留在批次里，重连后补发
+  const flushReceipts = () => {
+    const batch = receiptsRef.current;
+    clearTimeout(batch.timer);
+    batch.timer = null;
+    if (!client.link?.open) return;
+    const { delivered, read } = takeReceipts(batch);
+    if (delivered.length) sendControl(MessageType.RECEIPT_DELIVERED, { content: delivered });
+    if (read.length) sendControl(MessageType.RECEIPT_READ, { content: read });
+    if (hasPendingReceipts(batch)) batch.timer = setTimeout(flushReceipts, RECEIPT_BATCH_DELAY);
+  };
+
+  // 消息在可视区域内且页面有焦点时由 ChatInterface 上报
+  const markRead = (ids: string[]) => {
+    const targets = new Set(ids);
+    const readAt = Date.now();
+    setMessages(prev => prev.map(m => targets.has(m.id) && !m.readAt ? { ...m, readAt } : m));
+    queueReceipts('read', ids);
+  };
+
+  const notifyTyping = (active: boolean) => {
+    clearTimeout(typingIdleRef.current);
+    if (active) {
+      if (Date.now() - typingSentAtRef.current > TYPING_REFRESH) {
+        typingSentAtRef.current = Date.now();
+        sendControl(MessageType.TYPING, { content: { typing: true } });
+      }
+      typingIdleRef.current = setTimeout(() => notifyTyping(false), TYPING_IDLE);
+    } else if (typingSentAtRef.current) {
+      typingSentAtRef.current = 0;
+      sendControl(MessageType.TYPING, { content: { typing: false } });
+    }
+  };
+
+  const handleRemoteTyping = (typing: boolean) => {
+    clearTimeout(remoteTypingRef.current);
+    setRemoteTyping(typing);
+    // stop 丢失时兜底清除
+    if (typing) remoteTypingRef.current = setTimeout(() => setRemoteTyping(false), TYPING_EXPIRE);
+  };
+
+  // 发送过程中链路断开时保持 queued，等重连后的补发
+  const deliverMessages = (msgs: ChatMessage[]) => {
+    const conn = client.link;
+    if (!conn?.open || !msgs.length) return;
+    msgs.forEach(m => sendWire(conn, toWire(m)).then(() => {
+      if (conn.open) setDelivery([m.id], 'sent');
+    }));
+  };
+
+  const retryMessage = (id: string) => {
+    setDelivery([id], 'queued');
+    const msg = messagesRef.current.find(m => m.id === id);
+    if (roomRef.current) {
+      if (msg) deliverRoomMessage(msg);
+      return;
+    }
+    if (client.link?.open) {
+      if (msg) deliverMessages([msg]);
+    } else if (!reconnect) {
+      client.retryLink();
+    }
+  };
+
+  // 把本机历史与内存中的消息合并：刚打开会话时历史可能尚未并入 state
+  const knownMessages = async (): Promise<ChatMessage[]> => {
+    const history = await historyLoadRef.current;
+    const live = messagesRef.current;
+    const liveIds = new Set(live.map(m => m.id));
+    return [...history.filter(m => !liveIds.has(m.id)), ...live];
+  };
+
+  const announceSessionResume = async (conn: any) => {
+    const resume = lastSeenFrom(await knownMessages(), client.id);
+    if (client.link !== conn) return;
+    sendWire(conn, {
+      id: uuidv4(), senderId: client.id, type: MessageType.SESSION_RESUME,
+      content: resume, timestamp: Date.now()
+    });
+  };
+
+  const handleSessionResume = async (resume: SessionResume) => {
+    const gap = resumeGap(await knownMessages(), client.id, resume);
+    if (!gap.length) return;
+    addLog(`Resending ${gap.length} message(s) missed by peer`, "info");
+    deliverMessages(gap);
+  };
+
+  // 传输本身由客户端排队与续传，这里只在聊天中留一条提示
+  const sendFile = (file: File, voice?: VoiceNoteMeta) => {
+    const transferId = client.transfers.sendFile(file, { voice });
     addLog(`Sending: ${file.name}`, "info");
     setMessages(prev => [...prev, {
-      id: uuidv4(), senderId: myId, type: MessageType.SYSTEM, 
+      id: uuidv4(), senderId: myId, type: MessageType.SYSTEM,
       content: `Sending: ${file.name}`, timestamp: Date.now(), transferId
     }]);
+  };
+
+  // 语音消息走普通文件传输，清单中附带时长与波形
+  const sendVoiceNote = (blob: Blob, meta: VoiceNoteMeta, startedAt: number) => {
+    const mimeType = blob.type || 'audio/webm';
+    const file = new File([blob], voiceFileName(mimeType, startedAt), { type: mimeType });
+    if (roomRef.current) sendRoomFile(file, meta);
+    else sendFile(file, meta);
+  };
+
+  // 房间里的文件逐个扇出给成员，没有文件夹清单；拖进房间的文件夹只提示，不发送
+  const sendFolder = (folder: PickedFolder) => {
+    if (roomRef.current) {
+      addLog(`Folders cannot be sent in a room. Send the files in ${folder.name} instead.`, "warn");
+      return;
+    }
+    const manifest = client.transfers.sendFolder(folder);
+    if (!manifest) {
+      addLog(`Folder ${folder.name} not sent: no open link, or the folder is empty`, "warn");
+      return;
+    }
+    setMessages(prev => [...prev, {
+      id: manifest.folderId, senderId: myId, type: MessageType.FOLDER,
+      content: { manifest, files: {} } as FolderContent, timestamp: Date.now(), fileName: folder.name
+    }]);
+  };
+
+  const updateRoom = (next: RoomState | null) => {
+    roomRef.current = next;
+    setRoom(next);
+  };
+
+  const updateGroupCall = (session: CallSession | null) => {
+    groupCallRef.current = session;
+    setGroupCall(session);
+  };
+
+  // 任何人都能在信令上登记某位联系人的 ID，密钥核对通过前只显示 ID
+  const memberName = (peerId: string) =>
+    (roomRef.current?.verified.includes(peerId) && findContact(peerId)?.nickname) || peerId;
+
+  const openRoomLinks = (): any[] => Array.from(roomLinksRef.current.values()).filter(conn => conn.open);
+
+  const syncRoomMembers = () => {
+    const current = roomRef.current;
+    if (!current) return;
+    const members = openRoomLinks().map(conn => conn.peer);
+    updateRoom({
+      ...current, members,
+      inCall: current.inCall.filter(id => members.includes(id)),
+      verified: current.verified.filter(id => members.includes(id))
+    });
+  };
+
+  // 与单聊相同的核对：通讯录绑定的指纹优先，其次是首次见到时记下的指纹；曾加密过的成员改为明文同样视为可疑
+  const checkRoomMemberKey = (peerId: string, info: SafetyInfo | null) => {
+    const current = roomRef.current;
+    if (!current) return;
+    const expected = findContact(peerId)?.fingerprint || knownKeyFor(peerId);
+    const others = current.verified.filter(id => id !== peerId);
+    if (info && (!expected || expected === info.fingerprint)) {
+      if (!expected) checkKnownKey(peerId, info.fingerprint);
+      updateRoom({ ...current, verified: [...others, peerId] });
+      return;
+    }
+    updateRoom({ ...current, verified: others });
+    if (!expected) {
+      addLog(`Room link with ${peerId} is NOT end-to-end encrypted`, "warn");
+      return;
+    }
+    const warning = info
+      ? `Safety number changed for ${peerId}. This may not be your contact.`
+      : `Encryption dropped for ${peerId}. This may not be your contact.`;
+    addLog(`WARNING: ${warning}`, "error");
+    addRoomNotice(warning);
+  };
+
+  const addRoomNotice = (content: string) => {
+    setMessages(prev => [...prev, {
+      id: uuidv4(), senderId: client.id, type: MessageType.SYSTEM, content, timestamp: Date.now()
+    }]);
+  };
 
-    for (let i = 0; i < totalChunks; i++) {
-      if (!connRef.current?.open) break;
-      const chunk = arrayBuffer.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE);
-      connRef.current.send({
-        id: uuidv4(), senderId: myId, type: MessageType.CHUNK,
-        content: chunk, timestamp: Date.now(), transferId,
-        chunkIndex: i, totalChunks, fileName: file.name
+  const joinRoom = (input: string = roomCodeInput) => {
+    const code = parseRoomCode(input);
+    if (!code) {
+      addLog("Room codes are 4-12 letters or digits", "warn");
+      return;
+    }
+    const pin = normalizePin(roomPinInput);
+    if (roomPinInput && !pin) {
+      addLog("Room PIN must be 4-8 digits", "warn");
+      return;
+    }
+    if (!online) {
+      addLog("Not online yet, try again in a moment", "warn");
+      return;
+    }
+    if (roomRef.current) leaveRoom();
+    leaveConversation();
+    updateRoom(createRoom(code, pin));
+    openConversation(roomKey(code));
+    addLog(`Joining room ${code}${pin ? ' with PIN' : ' (open: anyone with the code can join)'}...`, "info");
+    claimRoomHost(code);
+  };
+
+  // 抢占门牌 ID：成功即成为门牌；已被占用说明房间里已有人，改为向门牌索取成员列表
+  const claimRoomHost = (code: string) => {
+    if (roomHostRef.current || roomRef.current?.code !== code) return;
+    const host = client.createPeer(roomHostId(code));
+    if (!host) return;
+    roomHostRef.current = host;
+
+    host.on('open', () => {
+      const current = roomRef.current;
+      if (current?.code !== code) {
+        host.destroy();
+        return;
+      }
+      updateRoom({ ...current, hosting: true });
+      addLog(`Hosting room ${code}`, "success");
+    });
+
+    host.on('connection', (lookup: any) => {
+      if (isBlocked(lookup.peer)) {
+        lookup.close();
+        return;
+      }
+      lookup.on('open', () => {
+        // 成员列表同样只给出示了房间 PIN 的人；明确回绝，免得对方当作门牌无人而反复争抢
+        const current = roomRef.current;
+        if (!current || !roomAdmits(current, lookup.metadata?.pin)) {
+          addLog(`Room: refused member list to ${lookup.peer} (wrong or missing room PIN)`, "warn");
+          lookup.send({ type: MessageType.ROOM_ROSTER, content: { code, members: [], refused: true } as RoomRoster });
+          return;
+        }
+        const selfId = client.id;
+        const members = [selfId, ...openRoomLinks().map(conn => conn.peer)].filter(id => id && id !== lookup.peer);
+        lookup.send({ type: MessageType.ROOM_ROSTER, content: { code, members } as RoomRoster });
       });
-      if (i % 5 === 0) {
-        setTransferProgress(prev => ({ ...prev, [transferId]: Math.floor((i / totalChunks) * 100) }));
-        await new Promise(r => setTimeout(r, 40));
+    });
+
+    host.on('error', (err: any) => {
+      if (roomHostRef.current !== host) return;
+      roomHostRef.current = null;
+      host.destroy();
+      if (err.type === 'unavailable-id') lookupRoom(code);
+      else addLog(`Room host: ${err.type}`, "warn");
+    });
+
+    host.on('disconnected', () => {
+      if (roomHostRef.current === host && !host.destroyed) host.reconnect();
+    });
+  };
+
+  const lookupRoom = (code: string) => {
+    const peer = client.peer;
+    if (!peer || roomRef.current?.code !== code) return;
+    const lookup = peer.connect(roomHostId(code), { serialization: 'json', metadata: { pin: roomRef.current.pin } });
+    // 门牌无响应时再争抢一次，房间里只剩自己时由自己接手
+    const timer = setTimeout(() => {
+      lookup.close();
+      addLog(`Room ${code} did not answer`, "warn");
+      if (!openRoomLinks().length) claimRoomHost(code);
+    }, ROOM_LOOKUP_TIMEOUT);
+    lookup.on('data', (data: any) => {
+      clearTimeout(timer);
+      lookup.close();
+      if (data?.type !== MessageType.ROOM_ROSTER || roomRef.current?.code !== code) return;
+      const roster = data.content as RoomRoster;
+      if (roster.refused) {
+        addLog(`Room ${code} requires a different room PIN`, "error");
+        leaveRoom();
+        return;
       }
+      const fresh = roster.members.filter(id => id !== peer.id && !roomLinksRef.current.has(id));
+      if (fresh.length) addLog(`Room ${code}: linking to ${fresh.length} member(s)`, "info");
+      fresh.forEach(id => dialRoomMember(code, id));
+    });
+  };
+
+  const dialRoomMember = (code: string, peerId: string) => {
+    const conn = client.peer?.connect(peerId, {
+      reliable: true,
+      serialization: 'raw',
+      metadata: { wire: WIRE_FORMAT, room: code, pin: roomRef.current?.pin }
+    });
+    if (conn) setupRoomLink(conn, true);
+  };
+
+  // 房间链路不弹确认框，准入凭据是房间 PIN；未设 PIN 的房间对知道房间码的人开放
+  const acceptRoomLink = (conn: any) => {
+    const current = roomRef.current;
+    if (current?.code !== conn.metadata.room || isBlocked(conn.peer)) {
+      conn.close();
+      return;
+    }
+    if (!roomAdmits(current, conn.metadata.pin)) {
+      addLog(`Rejected room link from ${conn.peer} (wrong or missing room PIN)`, "warn");
+      conn.close();
+      return;
+    }
+    // 双方同时拨号：保留 ID 较小一方发起的连接
+    const existing = roomLinksRef.current.get(conn.peer);
+    if (existing && !existing.open && shouldRedial(client.id, conn.peer)) {
+      conn.close();
+      return;
     }
+    setupRoomLink(conn, false);
+  };
+
+  // outgoing：本机加入时拨给已在房间里的成员
+  const setupRoomLink = (conn: any, outgoing: boolean) => {
+    const previous = roomLinksRef.current.get(conn.peer);
+    roomLinksRef.current.set(conn.peer, conn);
+    if (previous && previous !== conn) previous.close();
+    let wasOpen = false;
+    const code = roomRef.current!.code;
+    client.roomFiles.addMember(conn, roomKey(code));
+    // 未打开的连接关闭时没有 close 事件，超时后自行移除
+    setTimeout(() => {
+      if (conn.open) return;
+      if (roomLinksRef.current.get(conn.peer) === conn) {
+        roomLinksRef.current.delete(conn.peer);
+        client.roomFiles.removeMember(conn.peer);
+      }
+      conn.close();
+    }, DIAL_TIMEOUT);
+
+    const channel = createSecureChannel(conn, identityRef.current, {
+      onMessage: data => handleRoomData(conn, data),
+      // 核对密钥之后再报到，昵称只给核对通过的成员
+      onEstablished: info => {
+        checkRoomMemberKey(conn.peer, info);
+        addRoomNotice(`${memberName(conn.peer)} ${outgoing ? 'is in the room' : 'joined the room'}`);
+      },
+      onError: message => addLog(`E2E (${conn.peer}): ${message}`, "error")
+    });
+
+    conn.on('open', () => {
+      wasOpen = true;
+      channel.start();
+      addLog(`Room link with ${conn.peer} established`, "success");
+      syncRoomMembers();
+      // 后来者不知道谁在群通话里
+      if (groupCallRef.current) sendRoomCall(conn, true);
+    });
+
+    conn.on('close', () => {
+      if (roomLinksRef.current.get(conn.peer) !== conn) return;
+      roomLinksRef.current.delete(conn.peer);
+      client.roomFiles.removeMember(conn.peer);
+      if (wasOpen) dropRoomMember(conn.peer, endedLinksRef.current.has(conn));
+    });
+
+    conn.on('error', (err: any) => addLog(`Room link ${conn.peer}: ${err.type || err.message || 'failed'}`, "warn"));
+
+    conn.on('data', (raw: any) => channel.receive(raw));
+  };
+
+  // 一位成员掉线只影响与他的连接；若他持有门牌，由剩下的成员接手
+  const dropRoomMember = (peerId: string, left: boolean) => {
+    const current = roomRef.current;
+    if (!current) return;
+    closeRoomMedia(peerId);
+    addLog(`${peerId} ${left ? 'left the room' : 'dropped out of the room'}`, left ? "info" : "warn");
+    addRoomNotice(`${memberName(peerId)} ${left ? 'left the room' : 'lost connection'}`);
+    syncRoomMembers();
+    if (!roomHostRef.current) {
+      setTimeout(() => claimRoomHost(current.code), Math.random() * ROOM_CLAIM_JITTER);
+    }
+  };
+
+  const leaveRoom = () => {
+    const current = roomRef.current;
+    if (!current) return;
+    leaveGroupCall();
+    updateRoom(null);
+    const links = Array.from(roomLinksRef.current.values());
+    roomLinksRef.current = new Map();
+    links.forEach(client.farewell);
+    roomHostRef.current?.destroy();
+    roomHostRef.current = null;
+    client.roomFiles.clear();
+    addLog(`Left room ${current.code}`, "info");
+    leaveConversation();
+  };
+
+  // 发送者以连接为准，防止冒充他人编辑或撤回
+  const handleRoomData = (conn: any, raw: ChatMessage) => {
+    const data: ChatMessage = { ...raw, senderId: conn.peer };
+    if (client.roomFiles.handle(conn.peer, data)) return;
+    if (data.type === MessageType.ROOM_CALL) {
+      handleRoomCall(conn.peer, data.content as RoomCallState);
+    } else if (data.type === MessageType.SESSION_END) {
+      endedLinksRef.current.add(conn);
+    } else if (isMessageOp(data)) {
+      handleIncomingOp(data);
+    } else if (isReceiptable(data)) {
+      setMessages(prev => prev.some(m => m.id === data.id) ? prev : [...prev, data]);
+    }
+  };
+
+  const broadcastRoom = (msg: ChatMessage): Promise<void>[] => openRoomLinks().map(conn => sendWire(conn, msg));
+
+  const sendRoomMessage = (content: any, type: MessageType = MessageType.TEXT, refId?: string) => {
+    if (type !== MessageType.TEXT && type !== MessageType.REPLY) {
+      sendRoomFile(content);
+      return;
+    }
+    if (!content.trim()) return;
+    const msg: ChatMessage = { id: uuidv4(), senderId: myId, type, content, timestamp: Date.now(), delivery: 'queued', refId };
+    setMessages(prev => [...prev, msg]);
+    deliverRoomMessage(msg);
+  };
+
+  // 房间没有发件箱：没有其他成员在线时直接标记失败，可手动重发
+  const deliverRoomMessage = (msg: ChatMessage) => {
+    if (!isTextual(msg)) return;
+    const sends = broadcastRoom(toWire(msg));
+    if (!sends.length) {
+      setMessages(prev => prev.map(m => m.id === msg.id ? { ...m, delivery: 'failed' } : m));
+      return;
+    }
+    Promise.all(sends).then(() => setDelivery([msg.id], 'sent'));
+  };
+
+  // 每位成员的直连各自一条带 ACK 的传输，全部成员收齐后才标记为已发出
+  const sendRoomFile = (file: File, voice?: VoiceNoteMeta) => {
+    const count = openRoomLinks().length;
+    const transferId = client.roomFiles.sendFile(file, voice);
+    if (!transferId) {
+      addLog("No one else is in the room yet", "warn");
+      return;
+    }
+    const mimeType = resolveMimeType(file.type, file.name);
     setMessages(prev => [...prev, {
-      id: transferId, senderId: myId, 
-      type: file.type.startsWith('image/') ? MessageType.IMAGE : MessageType.VIDEO_FILE,
-      content: file, timestamp: Date.now(), fileName: file.name
+      id: transferId, senderId: myId, type: voice ? MessageType.VOICE : messageTypeFor(mimeType),
+      content: file, timestamp: Date.now(), fileName: file.name, mimeType, fileSize: file.size, voice, delivery: 'queued'
     }]);
-    setTransferProgress(prev => { const n = { ...prev }; delete n[transferId]; return n; });
+    addLog(`Sending ${file.name} to ${count} member(s)`, "info");
+  };
+
+  const settleRoomFile = (tId: string, delivery: 'sent' | 'failed') => {
+    if (delivery === 'sent') setDelivery([tId], 'sent');
+    else setMessages(prev => prev.map(m => m.id === tId && m.delivery === 'queued' ? { ...m, delivery: 'failed' } : m));
+  };
+
+  const sendRoomCall = (conn: any, inCall: boolean) => {
+    const code = roomRef.current?.code;
+    if (!code) return;
+    sendWire(conn, {
+      id: uuidv4(), senderId: client.id, type: MessageType.ROOM_CALL,
+      content: { code, inCall } as RoomCallState, timestamp: Date.now()
+    });
+  };
+
+  // 群通话是网状的：每对成员之间只由 ID 较小的一方发起媒体连接
+  const joinGroupCall = async (kind: CallKind) => {
+    const current = roomRef.current;
+    if (!current || groupCallRef.current || isCallBusy(client.calls.session)) return;
+    const session: CallSession = { ...createCallSession('outgoing', roomKey(current.code), kind), phase: 'connecting' };
+    updateGroupCall(session);
+    addLog(kind === 'video' ? "Requesting camera/mic..." : "Requesting microphone...", "info");
+    const stream = await acquireMedia(kind);
+    if (groupCallRef.current?.callId !== session.callId) return;
+    if (!stream) {
+      addLog("Media access denied", "error");
+      updateGroupCall(null);
+      return;
+    }
+    updateGroupCall({ ...session, phase: 'active', startedAt: Date.now() });
+    openRoomLinks().forEach(conn => sendRoomCall(conn, true));
+    roomRef.current?.inCall.forEach(id => {
+      if (shouldRedial(client.id, id)) callRoomMember(id, stream);
+    });
+    addLog("Joined group call", "success");
+  };
+
+  const leaveGroupCall = () => {
+    const session = groupCallRef.current;
+    if (!session) return;
+    updateGroupCall(null);
+    openRoomLinks().forEach(conn => sendRoomCall(conn, false));
+    Array.from(roomMediaRef.current.keys()).forEach(closeRoomMedia);
+    releaseLocalMedia();
+    if (session.startedAt) addCallLog(session, 'ended');
+    addLog("Left group call", "info");
+  };
+
+  const callRoomMember = (peerId: string, stream: MediaStream) => {
+    const media = client.call(peerId, stream, { room: roomRef.current?.code });
+    if (media) attachRoomMedia(peerId, media);
+  };
+
+  const handleRoomMedia = (media: any) => {
+    if (roomRef.current?.code !== media.metadata?.room || !groupCallRef.current || !roomLinksRef.current.has(media.peer)) {
+      addLog(`Rejected unexpected media call from ${media.peer}`, "warn");
+      media.close();
+      return;
+    }
+    localMediaRef.current?.then(() => {
+      const stream = localStreamRef.current;
+      if (!stream || !groupCallRef.current) {
+        media.close();
+        return;
+      }
+      media.answer(stream);
+      attachRoomMedia(media.peer, media);
+    });
   };
 
-  if (isInCall) {
+  const attachRoomMedia = (peerId: string, media: any) => {
+    const previous = roomMediaRef.current.get(peerId);
+    roomMediaRef.current.set(peerId, media);
+    if (previous && previous !== media) previous.close();
+    media.on('stream', (remote: MediaStream) => setRoomStreams(prev => ({ ...prev, [peerId]: remote })));
+    media.on('close', () => {
+      if (roomMediaRef.current.get(peerId) === media) closeRoomMedia(peerId);
+    });
+    media.on('error', (err: any) => addLog(`Call with ${peerId}: ${err.type}`, "warn"));
+  };
+
+  const closeRoomMedia = (peerId: string) => {
+    const media = roomMediaRef.current.get(peerId);
+    roomMediaRef.current.delete(peerId);
+    media?.close();
+    setRoomStreams(prev => {
+      const { [peerId]: _, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleRoomCall = (peerId: string, state: RoomCallState) => {
+    const current = roomRef.current;
+    if (!current || state?.code !== current.code) return;
+    const others = current.inCall.filter(id => id !== peerId);
+    updateRoom({ ...current, inCall: state.inCall ? [...others, peerId] : others });
+    if (!state.inCall) {
+      closeRoomMedia(peerId);
+      return;
+    }
+    const stream = localStreamRef.current;
+    if (groupCallRef.current && stream && !roomMediaRef.current.has(peerId) && shouldRedial(client.id, peerId)) {
+      callRoomMember(peerId, stream);
+    }
+  };
+
+  if (groupCall && room) {
+    return (
+      <VideoCallOverlay
+        localStream={localStream}
+        remoteStream={null}
+        session={groupCall}
+        mediaState={mediaState}
+        remoteMedia={DEFAULT_REMOTE_MEDIA}
+        stats={null}
+        recording={false}
+        remoteRecording={false}
+        onToggleRecording={() => {}}
+        onToggleAudio={toggleAudio}
+        onToggleVideo={toggleVideo}
+        onFlipCamera={flipCamera}
+        onToggleScreenShare={() => mediaState.source === 'screen' ? stopScreenShare() : startScreenShare()}
+        onEndCall={leaveGroupCall}
+        remotePeerId={room.code}
+        remoteName={`Room ${room.code}`}
+        participants={room.inCall.map(peerId => ({ peerId, name: memberName(peerId), stream: roomStreams[peerId] || null }))}
+      />
+    );
+  }
+
+  if (callSession) {
     return (
       <VideoCallOverlay 
         localStream={localStream}
         remoteStream={remoteStream}
-        onEndCall={endCall}
-        isIncoming={isIncomingCall}
-        onAnswer={acceptCall}
+        session={callSession}
+        mediaState={mediaState}
+        remoteMedia={remoteMedia}
+        stats={callStats}
+        recording={recording}
+        remoteRecording={remoteRecording}
+        onToggleRecording={toggleRecording}
+        onToggleAudio={toggleAudio}
+        onToggleVideo={toggleVideo}
+        onFlipCamera={flipCamera}
+        onToggleScreenShare={() => mediaState.source === 'screen' ? stopScreenShare() : startScreenShare()}
+        onEndCall={() => client.calls.end()}
+        onAnswer={() => client.calls.accept()}
         remotePeerId={activeTargetId}
+        remoteName={contacts.find(c => c.peerId === activeTargetId)?.nickname}
       />
     );
   }
 
-  if (status === ConnectionStatus.DISCONNECTED && messages.length === 0 && !activeTargetId) {
+  const linkPrompt = linkRequests.length > 0 && (
+    <LinkRequestPrompt
+      key={linkRequests[0]}
+      peerId={linkRequests[0]}
+      nickname={contacts.find(c => c.peerId === linkRequests[0])?.nickname}
+      queued={linkRequests.length - 1}
+      onAccept={() => answerLinkRequest(linkRequests[0], 'accept')}
+      onReject={() => answerLinkRequest(linkRequests[0], 'reject')}
+      onBlock={() => answerLinkRequest(linkRequests[0], 'block')}
+    />
+  );
+
+  if (status === ConnectionStatus.DISCONNECTED && messages.length === 0 && !activeTargetId && !room) {
     return (
-      <div className="flex flex-col h-screen bg-white safe-top safe-bottom">
-        <div className="flex-1 flex flex-col items-center justify-center p-8">
-          <div className="w-full max-w-sm space-y-10">
+      <div className="relative flex flex-col h-screen bg-white safe-top safe-bottom">
+        {showScanner && <QrScanner onResult={handleScan} onClose={() => setShowScanner(false)} />}
+        {linkPrompt}
+        {showNetwork && (
+          <NetworkSettingsSheet settings={networkSettings} onSave={applyNetworkSettings} onClose={() => setShowNetwork(false)} />
+        )}
+        <button
+          onClick={() => setShowNetwork(true)}
+          className="absolute top-6 right-6 z-10 w-11 h-11 rounded-2xl bg-gray-50 border border-gray-100 flex items-center justify-center text-gray-400 hover:text-blue-600 active:scale-90 transition"
+        >
+          <i className="ph-bold ph-gear-six text-xl"></i>
+        </button>
+        <div className="flex-1 flex flex-col items-center overflow-y-auto no-scrollbar p-8">
+          <div className="w-full max-w-sm space-y-10 my-auto">
             <div className="text-center">
               <div className="w-20 h-20 bg-blue-600 rounded-[28px] mx-auto flex items-center justify-center text-white text-4xl font-black shadow-2xl mb-6 rotate-3">
                 <i className="ph-fill ph-link"></i>
@@ -391,7 +1657,7 @@ const App: React.FC = () => {
               <div className="flex items-center justify-between bg-white p-4 rounded-2xl border border-gray-200 shadow-inner">
                 <span className="text-3xl font-mono font-black text-blue-600 tracking-tighter select-all">{myId || '---'}</span>
                 <button 
-                  onClick={copyMyId}
+                  onClick={() => copyMyId()}
                   className={`w-12 h-12 rounded-xl flex items-center justify-center transition-all active:scale-90 ${
                     copied ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-400 hover:text-blue-600'
                   }`}
@@ -399,6 +1665,28 @@ const App: React.FC = () => {
                   <i className={`ph-bold ${copied ? 'ph-check' : 'ph-copy'} text-xl`}></i>
                 </button>
               </div>
+              {myQr && (
+                <div className="mt-4 flex flex-col items-center gap-3">
+                  <div className="bg-white p-3 rounded-2xl border border-gray-200">
+                    <svg viewBox={`-2 -2 ${myQr.size + 4} ${myQr.size + 4}`} className="w-44 h-44" shapeRendering="crispEdges">
+                      <rect x={-2} y={-2} width={myQr.size + 4} height={myQr.size + 4} fill="#fff" />
+                      <path d={qrSvgPath(myQr)} fill="#111827" />
+                    </svg>
+                  </div>
+                  <button onClick={shareLink} className="flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest text-blue-600 active:opacity-60">
+                    <i className="ph-bold ph-share-network"></i> Share pairing link
+                  </button>
+                </div>
+              )}
+              <button
+                onClick={changeJoinPin}
+                className={`mt-4 w-full h-10 rounded-2xl flex items-center justify-center gap-2 text-[10px] font-black uppercase tracking-widest active:scale-95 transition ${
+                  joinPin ? 'bg-blue-600 text-white' : 'bg-white border border-gray-200 text-gray-400'
+                }`}
+              >
+                <i className={`ph-bold ${joinPin ? 'ph-lock-key' : 'ph-lock-key-open'}`}></i>
+                {joinPin ? `One-time PIN ${joinPin} required` : 'Require a join PIN'}
+              </button>
               {copied && <p className="absolute -bottom-6 left-0 right-0 text-center text-[9px] font-black text-green-500 uppercase tracking-widest animate-in fade-in slide-in-from-top-1">Copied!</p>}
             </div>
 
@@ -409,22 +1697,124 @@ const App: React.FC = () => {
                  placeholder="FRIEND ID"
                  className="w-full p-5 rounded-[24px] bg-white border-2 border-gray-100 shadow-sm focus:border-blue-500 outline-none text-center font-black text-2xl tracking-[0.1em]"
                />
+               <input
+                 value={targetPinInput}
+                 onChange={e => setTargetPinInput(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                 inputMode="numeric"
+                 placeholder="PIN (if your friend set one)"
+                 className="w-full p-3 rounded-2xl bg-white border-2 border-gray-100 focus:border-blue-500 outline-none text-center font-bold text-sm tracking-widest"
+               />
+               <button
+                 onClick={() => setShowScanner(true)}
+                 className="w-full p-4 rounded-[24px] bg-blue-50 text-blue-600 font-black text-sm uppercase tracking-widest flex items-center justify-center gap-2 active:scale-95 transition"
+               >
+                 <i className="ph-bold ph-qr-code text-xl"></i> Scan Friend's Code
+               </button>
                <button 
-                 onClick={connectToPeer} 
+                 onClick={() => connectToPeer()} 
                  disabled={!targetIdInput}
                  className="w-full p-5 rounded-[24px] bg-gray-900 text-white font-black text-xl hover:bg-black transition-all active:scale-95 disabled:opacity-20 shadow-xl"
                >
                  Establish Link
                </button>
             </div>
+
+            <div className="space-y-3">
+              <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-2">Group Room</p>
+              <div className="flex gap-2">
+                <input
+                  value={roomCodeInput}
+                  onChange={e => setRoomCodeInput(e.target.value.toUpperCase())}
+                  onKeyDown={e => { if (e.key === 'Enter') joinRoom(); }}
+                  placeholder="ROOM CODE"
+                  className="flex-1 min-w-0 p-4 rounded-2xl bg-white border-2 border-gray-100 shadow-sm focus:border-blue-500 outline-none text-center font-black text-lg tracking-[0.1em]"
+                />
+                <button
+                  onClick={() => joinRoom()}
+                  disabled={!roomCodeInput}
+                  className="px-6 rounded-2xl bg-gray-900 text-white font-black active:scale-95 transition disabled:opacity-20"
+                >
+                  Join
+                </button>
+              </div>
+              <input
+                value={roomPinInput}
+                onChange={e => setRoomPinInput(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                inputMode="numeric"
+                placeholder="ROOM PIN (optional)"
+                className="w-full p-3 rounded-2xl bg-white border-2 border-gray-100 focus:border-blue-500 outline-none text-center font-bold text-sm tracking-widest"
+              />
+              <p className="text-[11px] font-bold text-gray-400 px-2">
+                Room members join without an approval prompt. Without a room PIN, anyone who knows the code can join. Everyone must use the same PIN.
+              </p>
+              <button
+                onClick={() => joinRoom(generateRoomCode())}
+                className="w-full p-4 rounded-[24px] bg-blue-50 text-blue-600 font-black text-sm uppercase tracking-widest flex items-center justify-center gap-2 active:scale-95 transition"
+              >
+                <i className="ph-bold ph-users-three text-xl"></i> New Room
+              </button>
+            </div>
+
+            {contacts.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-2">Contacts</p>
+                {contacts.map(contact => (
+                  <div key={contact.peerId} className="flex items-center gap-3 bg-gray-50 p-3 rounded-2xl border border-gray-100">
+                    <button onClick={() => connectToPeer(contact.peerId)} className="flex-1 flex items-center gap-3 min-w-0 text-left active:opacity-60">
+                      <div className="w-10 h-10 rounded-xl bg-blue-600 text-white flex items-center justify-center font-black shrink-0">
+                        {(contact.nickname || contact.peerId).charAt(0).toUpperCase()}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="font-black text-sm text-gray-900 truncate flex items-center gap-1.5">
+                          {contact.nickname || contact.peerId}
+                          {contact.fingerprint && <i className="ph-fill ph-seal-check text-green-500"></i>}
+                        </p>
+                        <p className="text-[10px] font-bold text-gray-400 uppercase tracking-wider truncate">
+                          {contact.nickname ? `${contact.peerId} · ` : ''}{formatLastSeen(contact.lastSeen)}
+                        </p>
+                      </div>
+                    </button>
+                    <button onClick={() => renameContact(contact)} className="w-9 h-9 rounded-xl flex items-center justify-center text-gray-400 hover:bg-white transition">
+                      <i className="ph-bold ph-pencil-simple"></i>
+                    </button>
+                    <button onClick={() => forgetContact(contact)} className="w-9 h-9 rounded-xl flex items-center justify-center text-gray-300 hover:text-red-500 hover:bg-white transition">
+                      <i className="ph-bold ph-x"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {blocked.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-[10px] font-black text-gray-400 uppercase tracking-widest px-2">Blocked</p>
+                {blocked.map(peerId => (
+                  <div key={peerId} className="flex items-center gap-3 bg-gray-50 p-3 rounded-2xl border border-gray-100">
+                    <i className="ph-bold ph-prohibit text-red-400 text-xl"></i>
+                    <span className="flex-1 font-mono font-black text-sm text-gray-500 truncate">
+                      {contacts.find(c => c.peerId === peerId)?.nickname || peerId}
+                    </span>
+                    <button onClick={() => unblock(peerId)} className="px-3 h-8 rounded-xl bg-white text-[10px] font-black uppercase tracking-widest text-gray-500 active:scale-95 transition">
+                      Unblock
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
         <div className="h-44 bg-gray-900 p-5 overflow-y-auto no-scrollbar rounded-t-[40px] border-t border-gray-800">
           <p className="text-[10px] font-black text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-2">
-            <span className={`w-1.5 h-1.5 rounded-full ${peerRef.current?.open ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></span>
+            <span className={`w-1.5 h-1.5 rounded-full ${online ? 'bg-green-500' : 'bg-red-500 animate-pulse'}`}></span>
             System Diagnostics
+            <span className="ml-auto normal-case tracking-normal font-mono text-gray-600 truncate">{describeSignaling(networkSettings.signaling)}</span>
           </p>
+          {failure && !online && (
+            <p className="text-[11px] font-bold text-red-400 leading-relaxed mb-3">
+              {FAILURE_TITLES[failure.reason]}. {remedyFor(failure, null)}
+            </p>
+          )}
           <div className="space-y-2 font-mono text-[11px]">
             {logs.map(log => (
               <div key={log.id} className="flex gap-3 leading-relaxed">
@@ -446,56 +1836,102 @@ const App: React.FC = () => {
   }
 
   return (
-    <div className="h-screen bg-white relative">
-      {(status === ConnectionStatus.CONNECTING || status === ConnectionStatus.ERROR) && (
-        <div className="absolute inset-0 z-50 bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-8 animate-in fade-in">
-          <div className="w-full max-w-sm flex flex-col items-center gap-8">
-            <div className={`w-24 h-24 ${status === ConnectionStatus.ERROR ? 'bg-red-50' : 'bg-blue-50'} rounded-full flex items-center justify-center`}>
-              <i className={`ph-fill ${status === ConnectionStatus.ERROR ? 'ph-warning-octagon text-red-500' : 'ph-lightning text-blue-600'} text-4xl ${status !== ConnectionStatus.ERROR && 'animate-pulse'}`}></i>
-            </div>
-            
-            <div className="text-center">
-              <h2 className="text-2xl font-black text-gray-900 mb-1">
-                {status === ConnectionStatus.ERROR ? 'Handshake Failed' : 'Syncing Link'}
-              </h2>
-              <p className="text-gray-400 font-bold">Target Peer: <span className="text-blue-600">{activeTargetId}</span></p>
-            </div>
+    <PeerLinkContext.Provider value={client}>
+      <div className="h-screen bg-white relative">
+        {linkPrompt}
+        {(status === ConnectionStatus.CONNECTING || status === ConnectionStatus.ERROR) && (
+          <div className="absolute inset-0 z-50 bg-white/95 backdrop-blur-md flex flex-col items-center justify-center p-8 animate-in fade-in">
+            <div className="w-full max-w-sm flex flex-col items-center gap-8">
+              <div className={`w-24 h-24 ${status === ConnectionStatus.ERROR ? 'bg-red-50' : 'bg-blue-50'} rounded-full flex items-center justify-center`}>
+                <i className={`ph-fill ${status === ConnectionStatus.ERROR ? 'ph-warning-octagon text-red-500' : 'ph-lightning text-blue-600'} text-4xl ${status !== ConnectionStatus.ERROR && 'animate-pulse'}`}></i>
+              </div>
+              
+              <div className="text-center">
+                <h2 className="text-2xl font-black text-gray-900 mb-1">
+                  {failure && status === ConnectionStatus.ERROR ? FAILURE_TITLES[failure.reason] : 'Syncing Link'}
+                </h2>
+                <p className="text-gray-400 font-bold">Target Peer: <span className="text-blue-600">{activeTargetId}</span></p>
+              </div>
 
-            <div className="w-full bg-gray-900 p-4 rounded-[24px] h-48 overflow-y-auto no-scrollbar font-mono text-[10px] space-y-1 shadow-2xl">
-              {logs.map(log => (
-                <div key={log.id} className={`flex gap-2 ${log.level === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
-                  <span>[{log.time}]</span>
-                  <span>{log.message}</span>
+              <div className="w-full space-y-2">
+                <div className="flex gap-1.5">
+                  {[...HANDSHAKE_STAGES, 'connected' as const].map((step, i, steps) => {
+                    const current = failure && status === ConnectionStatus.ERROR ? failure.stage : stage;
+                    const reached = steps.indexOf(current) >= i;
+                    const failed = status === ConnectionStatus.ERROR && current === step;
+                    return (
+                      <div key={step} className="flex-1 flex flex-col items-center gap-1.5">
+                        <div className={`h-1.5 w-full rounded-full ${
+                          failed ? 'bg-red-500' : current === step ? 'bg-blue-600 animate-pulse' : reached ? 'bg-blue-600' : 'bg-gray-100'
+                        }`}></div>
+                        <span className={`text-[9px] font-black uppercase tracking-widest text-center ${
+                          failed ? 'text-red-500' : reached ? 'text-gray-700' : 'text-gray-300'
+                        }`}>{STAGE_LABELS[step]}</span>
+                      </div>
+                    );
+                  })}
                 </div>
-              ))}
-            </div>
+                {candidates && (
+                  <p className="text-[10px] font-mono text-gray-400 text-center">ICE candidates: {describeCandidates(candidates)}</p>
+                )}
+              </div>
 
-            <div className="flex flex-col w-full gap-3">
-              {status === ConnectionStatus.ERROR && (
-                <>
-                  <p className="text-[11px] text-gray-400 text-center font-bold px-4 mb-2">PRO TIP: Both users should refresh the page if this persists. Avoid switching apps during link-up.</p>
-                  <button onClick={connectToPeer} className="w-full py-4 bg-blue-600 text-white font-black rounded-2xl active:scale-95 transition shadow-lg shadow-blue-100">Retry Linking</button>
-                </>
-              )}
-              <button onClick={() => window.location.reload()} className="w-full py-4 bg-gray-100 text-gray-500 font-black rounded-2xl active:scale-95 transition">Abort & Restart</button>
+              <div className="w-full bg-gray-900 p-4 rounded-[24px] h-48 overflow-y-auto no-scrollbar font-mono text-[10px] space-y-1 shadow-2xl">
+                {logs.map(log => (
+                  <div key={log.id} className={`flex gap-2 ${log.level === 'error' ? 'text-red-400' : 'text-gray-500'}`}>
+                    <span>[{log.time}]</span>
+                    <span>{log.message}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex flex-col w-full gap-3">
+                {status === ConnectionStatus.ERROR && (
+                  <>
+                    {failure && (
+                      <p className="text-[11px] text-gray-500 text-center font-bold px-4 mb-2">{remedyFor(failure, candidates)}</p>
+                    )}
+                    <button onClick={() => connectToPeer(activeTargetId)} className="w-full py-4 bg-blue-600 text-white font-black rounded-2xl active:scale-95 transition shadow-lg shadow-blue-100">Retry Linking</button>
+                  </>
+                )}
+                <button onClick={leaveConversation} className="w-full py-4 bg-gray-100 text-gray-500 font-black rounded-2xl active:scale-95 transition">Abort & Restart</button>
+              </div>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      <ChatInterface
-        messages={messages}
-        myId={myId}
-        onSendMessage={sendMessage}
-        onStartCall={startCall}
-        remotePeerId={activeTargetId}
-        onDisconnect={() => window.location.reload()}
-        status={status}
-        onReconnect={connectToPeer}
-        transferProgress={transferProgress}
-        logs={logs}
-      />
-    </div>
+        <ChatInterface
+          messages={messages}
+          myId={myId}
+          onSendMessage={sendMessage}
+          onSendFolder={sendFolder}
+          onSendVoice={sendVoiceNote}
+          onStartCall={startCall}
+          remotePeerId={room ? room.code : activeTargetId}
+          remoteName={room ? `Room ${room.code}` : contacts.find(c => c.peerId === activeTargetId)?.nickname}
+          room={room}
+          memberName={memberName}
+          onDisconnect={room ? leaveRoom : leaveConversation}
+          onDeleteConversation={clearConversation}
+          onExportConversation={exportCurrentConversation}
+          onImportConversation={importArchive}
+          onRetryMessage={retryMessage}
+          onMessagesRead={room ? () => {} : markRead}
+          onReact={reactToMessage}
+          onEdit={editMessage}
+          onRecall={recallMessage}
+          onTyping={notifyTyping}
+          remoteTyping={remoteTyping}
+          security={security}
+          onTrustKey={trustRemoteKey}
+          transfers={transfers}
+          onTransferAction={controlTransfer}
+          onCycleTransferPriority={tId => transfersInView().cyclePriority(tId)}
+          onRetryTransfer={tId => transfersInView().retry(tId)}
+          logs={logs}
+        />
+      </div>
+    </PeerLinkContext.Provider>
   );
 };
 
@@ -1,35 +1,511 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { ChatMessage, MessageType, ConnectionStatus, LogEntry } from '../types';
+import {
+  ChatMessage, MessageType, ConnectionStatus, LogEntry, TransferAction, TransferStatus, FolderContent, LinkSecurity, CallLog, CallKind,
+  VoiceNoteMeta
+} from '../types';
+import { fileIcon, formatBytes, messageTypeFor, resolveMimeType } from '../services/fileTypes';
+import { FolderTreeNode, PickedFolder, buildFolderTree, collectDropped, foldersFromFileList } from '../services/folderEntries';
+import { createZip } from '../services/zip';
+import { StorageUsage, getStorageUsage } from '../services/chatHistory';
+import { describeCallEnd, formatCallDuration } from '../services/callSession';
+import {
+  MAX_VOICE_DURATION, MIN_VOICE_DURATION, VoiceRecording, canRecordVoice, formatVoiceDuration, startVoiceRecording
+} from '../services/voiceNote';
+import VoiceNotePlayer from './VoiceNotePlayer';
+import { usePeerLink, usePeerLinkState } from '../hooks/usePeerLink';
+import { RoomState } from '../services/room';
+import { isReceiptable } from '../services/receipts';
+import { FAILURE_TITLES, STAGE_LABELS, describeRoute, isHandshakeStage, remedyFor } from '../services/linkDiagnostics';
+import {
+  LONG_PRESS_DELAY, QUICK_REACTIONS, canEdit, canRecall, isTextual, snippetOf, summarizeReactions
+} from '../services/messageOps';
+
+// 按住录音时向左滑动超过该距离即取消
+const VOICE_CANCEL_DISTANCE = 80;
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   myId: string;
-  onSendMessage: (text: any, type?: MessageType) => void;
-  onStartCall: () => void;
+  onSendMessage: (text: any, type?: MessageType, refId?: string) => void;
+  onSendFolder: (folder: PickedFolder) => void;
+  onSendVoice: (blob: Blob, meta: VoiceNoteMeta, startedAt: number) => void;
+  onStartCall: (kind: CallKind) => void;
   remotePeerId: string;
+  remoteName?: string;
+  // 群聊房间：此时 remotePeerId 为房间码
+  room?: RoomState | null;
+  memberName?: (peerId: string) => string;
   onDisconnect: () => void;
-  status: ConnectionStatus;
-  onReconnect: () => void;
-  transferProgress: Record<string, number>;
+  onDeleteConversation: () => void;
+  onExportConversation: () => Promise<Blob | null>;
+  onImportConversation: (file: File) => void;
+  security: LinkSecurity;
+  onTrustKey: () => void;
+  onRetryMessage: (id: string) => void;
+  onMessagesRead: (ids: string[]) => void;
+  onTyping: (active: boolean) => void;
+  remoteTyping: boolean;
+  onReact: (id: string, emoji: string | null) => void;
+  onEdit: (id: string, text: string) => void;
+  onRecall: (id: string) => void;
+  transfers: Record<string, TransferStatus>;
+  onTransferAction: (transferId: string, action: TransferAction) => void;
+  onCycleTransferPriority: (transferId: string) => void;
+  onRetryTransfer: (transferId: string) => void;
   logs: LogEntry[];
 }
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({ 
-  messages, myId, onSendMessage, onStartCall, remotePeerId, onDisconnect, status, transferProgress, logs 
+  messages, myId, onSendMessage, onSendFolder, onSendVoice, onStartCall, remotePeerId, remoteName, room, memberName, onDisconnect, onDeleteConversation, onExportConversation, onImportConversation, onRetryMessage, onMessagesRead, onTyping, remoteTyping, onReact, onEdit, onRecall, security, onTrustKey, transfers, onTransferAction, onCycleTransferPriority, onRetryTransfer, logs 
 }) => {
+  // 链路状态与重连直接取自 PeerLinkContext 中的客户端
+  const link = usePeerLink();
+  const { stage, status, failure, candidates, route, reconnect } = usePeerLinkState();
   const [inputText, setInputText] = useState('');
   const [showLogs, setShowLogs] = useState(false);
+  const [showSafety, setShowSafety] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [storage, setStorage] = useState<StorageUsage | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const [zipping, setZipping] = useState<Record<string, boolean>>({});
+  const [voiceStartedAt, setVoiceStartedAt] = useState<number | null>(null);
+  const [voiceElapsed, setVoiceElapsed] = useState(0);
+  const [voiceCancelArmed, setVoiceCancelArmed] = useState(false);
+  const [voiceError, setVoiceError] = useState('');
+  const voiceRef = useRef<VoiceRecording | null>(null);
+  const holdRef = useRef<{ x: number; released: boolean; cancel: boolean } | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [codeCopied, setCodeCopied] = useState(false);
+  const visibleRef = useRef<Set<string>>(new Set());
+  const reportReadRef = useRef<() => void>(() => {});
+  const [menuFor, setMenuFor] = useState<ChatMessage | null>(null);
+  const [replyTo, setReplyTo] = useState<ChatMessage | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [historyFor, setHistoryFor] = useState<ChatMessage | null>(null);
+  const pressRef = useRef<{ timer: any; x: number; y: number } | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileRef = useRef<HTMLInputElement>(null);
+  const folderRef = useRef<HTMLInputElement>(null);
+  const archiveRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
-  }, [messages, transferProgress]);
+  }, [messages, transfers]);
+
+  useEffect(() => {
+    if (showHistory) getStorageUsage().then(setStorage).catch(() => setStorage(null));
+  }, [showHistory, messages.length]);
+
+  // 录音计时，超过上限自动发送
+  useEffect(() => {
+    if (voiceStartedAt === null) return;
+    const timer = setInterval(() => {
+      const elapsed = Date.now() - voiceStartedAt;
+      setVoiceElapsed(elapsed);
+      if (elapsed >= MAX_VOICE_DURATION) finishVoice(true);
+    }, 200);
+    return () => clearInterval(timer);
+  }, [voiceStartedAt]);
+
+  useEffect(() => () => voiceRef.current?.cancel(), []);
+
+  // 对方消息进入可视区域且页面处于前台、有焦点时才算已读
+  reportReadRef.current = () => {
+    if (document.visibilityState !== 'visible' || !document.hasFocus() || status !== ConnectionStatus.CONNECTED) return;
+    const ids = messages
+      .filter(m => visibleRef.current.has(m.id) && m.senderId !== myId && isReceiptable(m) && !m.readAt)
+      .map(m => m.id);
+    if (ids.length) onMessagesRead(ids);
+  };
+
+  useEffect(() => {
+    const root = scrollRef.current;
+    if (!root || typeof IntersectionObserver === 'undefined') return;
+    const observer = new IntersectionObserver(entries => {
+      entries.forEach(entry => {
+        const id = (entry.target as HTMLElement).dataset.msgId!;
+        if (entry.isIntersecting) visibleRef.current.add(id);
+        else visibleRef.current.delete(id);
+      });
+      reportReadRef.current();
+    }, { root, threshold: 0.6 });
+    const observeAll = () => root.querySelectorAll('[data-msg-id]').forEach(el => observer.observe(el));
+    observeAll();
+    const mutations = new MutationObserver(observeAll);
+    mutations.observe(root, { childList: true });
+    const recheck = () => reportReadRef.current();
+    window.addEventListener('focus', recheck);
+    document.addEventListener('visibilitychange', recheck);
+    return () => {
+      observer.disconnect();
+      mutations.disconnect();
+      window.removeEventListener('focus', recheck);
+      document.removeEventListener('visibilitychange', recheck);
+    };
+  }, []);
+
+  // 新消息落在已可见的位置时不会触发 IntersectionObserver，这里补一次
+  useEffect(() => reportReadRef.current(), [messages, status]);
+
+  // 重连倒计时
+  useEffect(() => {
+    if (!reconnect) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [reconnect]);
+
+  const beginVoice = async (x: number) => {
+    if (voiceRef.current) return;
+    const hold = { x, released: false, cancel: false };
+    holdRef.current = hold;
+    let recording: VoiceRecording;
+    try {
+      recording = await startVoiceRecording();
+    } catch (e) {
+      setVoiceError('Microphone blocked');
+      setTimeout(() => setVoiceError(''), 2000);
+      return;
+    }
+    // 首次授权弹窗期间已经松手：不再录音
+    if (hold.released || holdRef.current !== hold) {
+      recording.cancel();
+      return;
+    }
+    voiceRef.current = recording;
+    setVoiceCancelArmed(false);
+    setVoiceElapsed(0);
+    setVoiceStartedAt(recording.startedAt);
+  };
+
+  const finishVoice = (send: boolean) => {
+    if (holdRef.current) holdRef.current.released = true;
+    const recording = voiceRef.current;
+    voiceRef.current = null;
+    setVoiceStartedAt(null);
+    if (!recording) return;
+    if (!send || Date.now() - recording.startedAt < MIN_VOICE_DURATION) {
+      recording.cancel();
+      return;
+    }
+    recording.stop()
+      .then(({ blob, meta }) => onSendVoice(blob, meta, recording.startedAt))
+      .catch(() => setVoiceError('Recording failed'));
+  };
+
+  const submitText = () => {
+    const text = inputText.trim();
+    if (!text) return;
+    if (editing) {
+      if (text !== editing.content) onEdit(editing.id, text);
+      setEditing(null);
+    } else if (replyTo) {
+      onSendMessage(inputText, MessageType.REPLY, replyTo.id);
+      setReplyTo(null);
+    } else {
+      onSendMessage(inputText);
+    }
+    setInputText('');
+  };
+
+  // 长按（触屏）或右键（桌面）打开消息菜单；手指移动视为滚动，取消长按
+  const cancelPress = () => {
+    if (pressRef.current) clearTimeout(pressRef.current.timer);
+    pressRef.current = null;
+  };
+
+  const pressHandlers = (msg: ChatMessage) => ({
+    onPointerDown: (e: React.PointerEvent) => {
+      if (e.pointerType === 'mouse') return;
+      cancelPress();
+      pressRef.current = {
+        x: e.clientX, y: e.clientY,
+        timer: setTimeout(() => {
+          pressRef.current = null;
+          navigator.vibrate?.(10);
+          setMenuFor(msg);
+        }, LONG_PRESS_DELAY)
+      };
+    },
+    onPointerMove: (e: React.PointerEvent) => {
+      const press = pressRef.current;
+      if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > 10) cancelPress();
+    },
+    onPointerUp: cancelPress,
+    onPointerCancel: cancelPress,
+    onContextMenu: (e: React.MouseEvent) => {
+      e.preventDefault();
+      cancelPress();
+      setMenuFor(msg);
+    }
+  });
+
+  const hasMenu = (msg: ChatMessage) =>
+    !msg.recalled && msg.type !== MessageType.SYSTEM && msg.type !== MessageType.CALL_LOG && !msg.delivery?.match(/queued|failed/);
+
+  const startReply = (msg: ChatMessage) => {
+    setEditing(null);
+    setReplyTo(msg);
+    inputRef.current?.focus();
+  };
+
+  const startEdit = (msg: ChatMessage) => {
+    setReplyTo(null);
+    setEditing(msg);
+    setInputText(msg.content);
+    inputRef.current?.focus();
+  };
+
+  const scrollToMessage = (id: string) => {
+    const el = scrollRef.current?.querySelector(`[data-msg-id="${id}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const senderLabel = (msg: ChatMessage) => msg.senderId === myId ? 'You'
+    : room ? (memberName?.(msg.senderId) || msg.senderId) : (remoteName || `Peer ${msg.senderId}`);
+
+  // 房间里有其他成员在线即可通话
+  const online = room ? room.members.length > 0 : status === ConnectionStatus.CONNECTED;
+  // 单聊时状态点反映主链路的实际阶段
+  const stageDot = room
+    ? (online ? 'bg-green-500' : 'bg-orange-500')
+    : stage === 'connected' ? 'bg-green-500'
+    : stage === 'degraded' ? 'bg-yellow-400'
+    : stage === 'failed' ? 'bg-red-500'
+    : 'bg-orange-500';
+
+  const copyRoomCode = () => {
+    navigator.clipboard?.writeText(remotePeerId).then(() => {
+      setCodeCopied(true);
+      setTimeout(() => setCodeCopied(false), 2000);
+    }).catch(() => {});
+  };
+
+  const renderQuote = (refId: string) => {
+    const target = messages.find(m => m.id === refId);
+    return (
+      <button
+        onClick={() => scrollToMessage(refId)}
+        className="block w-full text-left mb-2 pl-3 pr-2 py-1.5 rounded-xl bg-black/10 border-l-4 border-black/20 active:opacity-70"
+      >
+        <p className="text-[10px] font-black uppercase tracking-wider opacity-70">{target ? senderLabel(target) : 'Reply'}</p>
+        <p className="text-[12px] truncate opacity-80">{target ? snippetOf(target) : 'Original message unavailable'}</p>
+      </button>
+    );
+  };
+
+  const sendFiles = (files: FileList | File[] | null | undefined) => {
+    Array.from(files || []).forEach(file => {
+      onSendMessage(file, messageTypeFor(resolveMimeType(file.type, file.name)));
+    });
+  };
+
+  const saveBlob = (blob: Blob, name: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 10000);
+  };
+
+  const exportHistory = async () => {
+    setExporting(true);
+    const archive = await onExportConversation();
+    setExporting(false);
+    if (archive) saveBlob(archive, `chat-${remotePeerId}-${new Date().toISOString().slice(0, 10)}.zip`);
+  };
+
+  const deleteHistory = () => {
+    if (!window.confirm(`Delete all messages and files exchanged with ${remotePeerId} on this device?`)) return;
+    onDeleteConversation();
+    setShowHistory(false);
+  };
+
+  const saveFolderZip = async (msg: ChatMessage) => {
+    const { manifest, files } = msg.content as FolderContent;
+    setZipping(prev => ({ ...prev, [msg.id]: true }));
+    try {
+      const zip = await createZip(manifest.entries
+        .filter(e => files[e.transferId])
+        .map(e => ({ path: e.path, blob: files[e.transferId] })));
+      saveBlob(zip, `${manifest.name}.zip`);
+    } catch (e: any) {
+      alert(e?.message || 'Could not build ZIP archive');
+    } finally {
+      setZipping(prev => ({ ...prev, [msg.id]: false }));
+    }
+  };
+
+  const renderTreeNode = (node: FolderTreeNode, files: Record<string, Blob>, depth: number): React.ReactNode => {
+    if (!node.entry) return (
+      <div key={node.path || '/'}>
+        {depth > 0 && (
+          <div className="flex items-center gap-2 py-1 font-bold text-[13px]" style={{ paddingLeft: (depth - 1) * 14 }}>
+            <i className="ph-fill ph-folder opacity-70"></i>
+            <span className="truncate">{node.name}</span>
+          </div>
+        )}
+        {node.children.map(child => renderTreeNode(child, files, depth + 1))}
+      </div>
+    );
+    const entry = node.entry;
+    const blob = files[entry.transferId];
+    const transfer = transfers[entry.transferId];
+    return (
+      <div key={entry.transferId} className="flex items-center gap-2 py-1 text-[12px]" style={{ paddingLeft: (depth - 1) * 14 }}>
+        <i className={`ph ${fileIcon(entry.mimeType)} opacity-70`}></i>
+        <span className="truncate flex-1">{node.name}</span>
+        <span className="text-[10px] font-black opacity-50 shrink-0">
+          {transfer && !blob ? `${Math.floor((transfer.bytes / (transfer.totalBytes || 1)) * 100)}%` : formatBytes(entry.size)}
+        </span>
+        {blob ? (
+          <button onClick={() => saveBlob(blob, node.name)} className="w-6 h-6 shrink-0 rounded-full bg-black/10 flex items-center justify-center active:scale-90 transition">
+            <i className="ph-bold ph-download-simple"></i>
+          </button>
+        ) : (
+          <i className="ph ph-hourglass-medium w-6 text-center opacity-40 shrink-0"></i>
+        )}
+      </div>
+    );
+  };
+
+  const renderFolder = (msg: ChatMessage) => {
+    const { manifest, files } = msg.content as FolderContent;
+    const done = manifest.entries.filter(e => files[e.transferId]).length;
+    const complete = done === manifest.entries.length;
+    return (
+      <div className="w-72 max-w-full space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="w-12 h-12 shrink-0 rounded-2xl bg-black/10 flex items-center justify-center">
+            <i className="ph-fill ph-folder-simple text-2xl"></i>
+          </div>
+          <div className="min-w-0 flex-1">
+            <p className="text-[14px] font-bold truncate">{manifest.name}</p>
+            <p className="text-[10px] font-black uppercase tracking-wider opacity-60">
+              {done}/{manifest.entries.length} files · {formatBytes(manifest.totalBytes)}
+            </p>
+          </div>
+        </div>
+        <div className="max-h-56 overflow-y-auto no-scrollbar rounded-2xl bg-black/5 px-3 py-2">
+          {renderTreeNode(buildFolderTree(manifest.name, manifest.entries), files, 0)}
+        </div>
+        <button 
+          onClick={() => saveFolderZip(msg)} 
+          disabled={!complete || zipping[msg.id]}
+          className="w-full h-9 rounded-xl bg-black/10 flex items-center justify-center gap-1.5 text-[11px] font-black uppercase tracking-wider active:scale-95 transition disabled:opacity-40"
+        >
+          <i className="ph-bold ph-file-zip"></i> {zipping[msg.id] ? 'Building ZIP...' : 'Save as ZIP'}
+        </button>
+      </div>
+    );
+  };
+
+  const formatEta = (seconds: number | null) => {
+    if (seconds === null || !isFinite(seconds)) return '--';
+    if (seconds < 60) return `${Math.ceil(seconds)}s`;
+    return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+  };
+
+  const renderTransfer = (t: TransferStatus) => {
+    const percent = t.totalBytes ? Math.floor((t.bytes / t.totalBytes) * 100) : 0;
+    const paused = t.state === 'paused';
+    return (
+      <div className="mt-3 w-full min-w-[200px]">
+        <div className="w-full bg-black/10 rounded-full h-1.5 overflow-hidden">
+          <div className={`h-full transition-all duration-300 ease-out ${paused ? 'bg-current opacity-40' : 'bg-current'}`} style={{ width: `${percent}%` }}></div>
+        </div>
+        <div className="mt-2 flex items-center justify-between gap-3 text-[10px] font-black uppercase tracking-wider opacity-70">
+          <span>
+            {paused
+              ? (t.pausedBy === 'remote' ? 'Paused by peer' : 'Paused')
+              : `${percent}% · ${formatBytes(t.speed)}/s · ${formatEta(t.eta)}`}
+          </span>
+          <div className="flex items-center gap-1">
+            {t.direction === 'send' && t.priority && (
+              <button onClick={() => onCycleTransferPriority(t.transferId)} className="px-2 h-6 rounded-full bg-black/10 active:scale-90 transition">
+                {t.priority}
+              </button>
+            )}
+            <button 
+              onClick={() => onTransferAction(t.transferId, paused ? 'resume' : 'pause')} 
+              className="w-6 h-6 rounded-full bg-black/10 flex items-center justify-center active:scale-90 transition"
+            >
+              <i className={`ph-fill ${paused ? 'ph-play' : 'ph-pause'}`}></i>
+            </button>
+            <button 
+              onClick={() => onTransferAction(t.transferId, 'cancel')} 
+              className="w-6 h-6 rounded-full bg-black/10 flex items-center justify-center active:scale-90 transition"
+            >
+              <i className="ph-bold ph-x"></i>
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  };
+
+  const renderIntegrity = (msg: ChatMessage) => {
+    if (msg.integrity === 'verified') return (
+      <div className="mt-2 flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-green-500">
+        <i className="ph-fill ph-seal-check"></i> Verified
+      </div>
+    );
+    if (msg.integrity === 'corrupted') return (
+      <div className="mt-2 flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-red-500">
+        <i className="ph-fill ph-warning"></i> Corrupted
+        {!transfers[msg.transferId || ''] && (
+          <button onClick={() => onRetryTransfer(msg.transferId!)} className="ml-1 px-2 py-1 rounded-full bg-red-50 active:scale-90 transition">
+            Re-request
+          </button>
+        )}
+      </div>
+    );
+    return null;
+  };
+
+  const renderCallLog = (log: CallLog) => {
+    const connected = log.duration > 0;
+    const icon = !connected && log.outcome !== 'cancelled'
+      ? 'ph-phone-x'
+      : log.direction === 'outgoing' ? 'ph-phone-outgoing' : 'ph-phone-incoming';
+    return (
+      <div className="flex items-center gap-3 min-w-[180px]">
+        <div className={`w-10 h-10 rounded-xl flex items-center justify-center shrink-0 ${connected ? 'bg-black/10' : 'bg-red-500/15 text-red-500'}`}>
+          <i className={`ph-fill ${icon} text-xl`}></i>
+        </div>
+        <div>
+          <p className="font-black text-sm">{describeCallEnd(log.direction, log.outcome, log.kind)}</p>
+          <p className="text-[10px] font-bold opacity-60 uppercase tracking-wider">
+            {connected ? formatCallDuration(log.duration) : log.outcome.replace(/-/g, ' ')}
+          </p>
+        </div>
+      </div>
+    );
+  };
 
   const renderContent = (msg: ChatMessage) => {
+    if (msg.recalled) return (
+      <p className="text-[13px] italic opacity-60 flex items-center gap-1.5">
+        <i className="ph-bold ph-prohibit"></i> {msg.senderId === myId ? 'You unsent a message' : 'Message unsent'}
+      </p>
+    );
     if (msg.type === MessageType.TEXT) return <p className="text-[15px] leading-relaxed">{msg.content}</p>;
+    if (msg.type === MessageType.REPLY) return (
+      <div>
+        {msg.refId && renderQuote(msg.refId)}
+        <p className="text-[15px] leading-relaxed">{msg.content}</p>
+      </div>
+    );
     if (msg.type === MessageType.SYSTEM) return <p className="text-[11px] font-bold italic opacity-60">System: {msg.content}</p>;
+    if (msg.type === MessageType.FOLDER) return renderFolder(msg);
+    if (msg.type === MessageType.CALL_LOG) return renderCallLog(msg.content as CallLog);
+    if (msg.type === MessageType.VOICE && msg.content instanceof Blob) return <VoiceNotePlayer blob={msg.content} meta={msg.voice} />;
     
     const url = msg.content instanceof Blob || msg.content instanceof File 
       ? URL.createObjectURL(msg.content) 
@@ -45,14 +521,69 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     );
     
     if (msg.type === MessageType.VIDEO_FILE && url) return (
-      <video src={url} controls className="rounded-xl max-h-72 bg-black shadow-inner" />
+      <div className="relative group">
+        <video src={url} controls playsInline className="rounded-xl max-h-72 bg-black shadow-inner" />
+        <a href={url} download={msg.fileName || 'video.webm'} className="absolute top-2 right-2 w-8 h-8 bg-black/50 backdrop-blur-md rounded-full flex items-center justify-center text-white opacity-0 group-hover:opacity-100 transition">
+          <i className="ph-bold ph-download-simple"></i>
+        </a>
+      </div>
     );
+
+    if (msg.type === MessageType.FILE && url) {
+      const mimeType = resolveMimeType(msg.mimeType, msg.fileName);
+      const size = msg.fileSize ?? (msg.content instanceof Blob ? msg.content.size : 0);
+      return (
+        <div className="w-64 max-w-full space-y-3">
+          {mimeType.startsWith('audio/') && <audio src={url} controls className="w-full" />}
+          <div className="flex items-center gap-3">
+            <div className="w-12 h-12 shrink-0 rounded-2xl bg-black/10 flex items-center justify-center">
+              <i className={`ph-fill ${fileIcon(mimeType)} text-2xl`}></i>
+            </div>
+            <div className="min-w-0 flex-1">
+              <p className="text-[14px] font-bold truncate">{msg.fileName || 'file'}</p>
+              <p className="text-[10px] font-black uppercase tracking-wider opacity-60">{formatBytes(size)}</p>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <a href={url} target="_blank" rel="noopener" className="flex-1 h-9 rounded-xl bg-black/10 flex items-center justify-center gap-1.5 text-[11px] font-black uppercase tracking-wider active:scale-95 transition">
+              <i className="ph-bold ph-arrow-square-out"></i> Open
+            </a>
+            <a href={url} download={msg.fileName || 'file'} className="flex-1 h-9 rounded-xl bg-black/10 flex items-center justify-center gap-1.5 text-[11px] font-black uppercase tracking-wider active:scale-95 transition">
+              <i className="ph-bold ph-download-simple"></i> Save
+            </a>
+          </div>
+        </div>
+      );
+    }
     
     return <span className="text-xs opacity-50 italic">Media transfer error</span>;
   };
 
   return (
-    <div className="flex flex-col h-full bg-white safe-top safe-bottom">
+    <div 
+      className="flex flex-col h-full bg-white safe-top safe-bottom relative"
+      onDragOver={e => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        setIsDragging(true);
+      }}
+      onDragLeave={e => {
+        if (e.currentTarget === e.target) setIsDragging(false);
+      }}
+      onDrop={async e => {
+        e.preventDefault();
+        setIsDragging(false);
+        const { folders, files } = await collectDropped(e.dataTransfer);
+        folders.forEach(onSendFolder);
+        sendFiles(files);
+      }}
+    >
+      {isDragging && (
+        <div className="absolute inset-4 z-20 rounded-[32px] border-4 border-dashed border-blue-400 bg-blue-50/90 flex flex-col items-center justify-center pointer-events-none">
+          <i className="ph-fill ph-files text-6xl text-blue-500 mb-3"></i>
+          <p className="font-black text-sm uppercase tracking-[0.3em] text-blue-600">Drop to send</p>
+        </div>
+      )}
       {/* Dynamic Header */}
       <header className="flex items-center justify-between px-6 py-4 border-b border-gray-50 bg-white/80 backdrop-blur-lg sticky top-0 z-10">
         <div className="flex items-center gap-4">
@@ -60,21 +591,53 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
             <i className="ph-bold ph-arrow-left text-xl"></i>
           </button>
           <div>
-            <h2 className="font-black text-lg tracking-tight">Peer {remotePeerId}</h2>
+            <h2 className="font-black text-lg tracking-tight">{remoteName || `Peer ${remotePeerId}`}</h2>
             <button 
               onClick={() => setShowLogs(!showLogs)} 
               className="flex items-center gap-1.5 active:opacity-60"
             >
-              <span className={`w-2 h-2 rounded-full ${status === ConnectionStatus.CONNECTED ? 'bg-green-500' : 'bg-orange-500'} ${status === ConnectionStatus.CONNECTING ? 'animate-pulse' : ''}`}></span>
-              <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">{status}</span>
+              <span className={`w-2 h-2 rounded-full ${stageDot} ${!room && (isHandshakeStage(stage) || stage === 'reconnecting') ? 'animate-pulse' : ''}`}></span>
+              {room
+                ? <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">{room.members.length + 1} in room · {room.pin ? 'PIN' : 'open'}</span>
+                : remoteTyping && status === ConnectionStatus.CONNECTED
+                ? <span className="text-[10px] font-black uppercase tracking-widest text-blue-500 animate-pulse">typing…</span>
+                : <span className="text-[10px] font-black uppercase tracking-widest text-gray-400" title={route ? describeRoute(route) : undefined}>
+                    {STAGE_LABELS[stage]}{route === 'relay' && status === ConnectionStatus.CONNECTED ? ' · relay' : ''}
+                  </span>}
               <i className={`ph-bold ${showLogs ? 'ph-caret-up' : 'ph-caret-down'} text-[8px] text-gray-300`}></i>
             </button>
           </div>
+          {!room && status === ConnectionStatus.CONNECTED && (
+            <button 
+              onClick={() => setShowSafety(!showSafety)}
+              className={`h-7 px-2.5 rounded-full flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest active:scale-90 transition ${
+                security.keyChanged ? 'bg-red-500 text-white animate-pulse' :
+                security.state === 'encrypted' ? 'bg-green-50 text-green-600' :
+                security.state === 'unencrypted' ? 'bg-orange-50 text-orange-500' : 'bg-gray-50 text-gray-400'
+              }`}
+            >
+              <i className={`ph-fill ${security.state === 'encrypted' && !security.keyChanged ? 'ph-lock-simple' : security.state === 'negotiating' ? 'ph-key' : 'ph-lock-simple-open'}`}></i>
+              {security.state === 'encrypted' ? security.emoji?.split(' ').slice(0, 3).join('') : security.state === 'negotiating' ? '...' : 'Plain'}
+            </button>
+          )}
         </div>
         <div className="flex items-center gap-2">
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            className={`w-11 h-11 rounded-[16px] flex items-center justify-center transition-all active:scale-90 ${showHistory ? 'bg-gray-900 text-white' : 'bg-gray-50 text-gray-400'}`}
+          >
+            <i className="ph-bold ph-clock-counter-clockwise text-xl"></i>
+          </button>
+          <button
+            onClick={() => onStartCall('audio')}
+            disabled={!online}
+            className="w-11 h-11 bg-blue-50 text-blue-600 rounded-[16px] disabled:bg-gray-100 disabled:text-gray-300 transition-all active:scale-90 flex items-center justify-center"
+          >
+            <i className="ph-fill ph-phone text-xl"></i>
+          </button>
           <button 
-            onClick={onStartCall} 
-            disabled={status !== ConnectionStatus.CONNECTED}
+            onClick={() => onStartCall('video')} 
+            disabled={!online}
             className="w-11 h-11 bg-blue-600 text-white rounded-[16px] disabled:bg-gray-100 disabled:text-gray-300 transition-all active:scale-90 shadow-lg shadow-blue-100 flex items-center justify-center"
           >
             <i className="ph-fill ph-video-camera text-xl"></i>
@@ -82,6 +645,88 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         </div>
       </header>
 
+      {security.keyChanged && (
+        <div className="bg-red-600 text-white px-6 py-4 flex items-center gap-4 animate-in slide-in-from-top duration-300">
+          <i className="ph-fill ph-warning-octagon text-3xl shrink-0"></i>
+          <div className="flex-1">
+            {security.state === 'encrypted' ? (
+              <>
+                <p className="font-black text-sm uppercase tracking-wider">Safety number changed</p>
+                <p className="text-[11px] font-bold opacity-80">Peer {remotePeerId} is using a different key than before. Compare the safety number in person. Nothing is sent until you trust it.</p>
+              </>
+            ) : (
+              <>
+                <p className="font-black text-sm uppercase tracking-wider">Encryption dropped</p>
+                <p className="text-[11px] font-bold opacity-80">Peer {remotePeerId} used end-to-end encryption before, but this link is unencrypted. Nothing is sent until you accept it.</p>
+              </>
+            )}
+          </div>
+          <button onClick={onTrustKey} className="px-3 h-9 rounded-xl bg-white/20 text-[10px] font-black uppercase tracking-widest shrink-0 active:scale-90 transition">
+            {security.state === 'encrypted' ? 'Trust' : 'Accept'}
+          </button>
+        </div>
+      )}
+
+      {showSafety && (
+        <div className="bg-gray-50 px-6 py-5 border-b border-gray-100 text-center animate-in slide-in-from-top duration-300">
+          {security.state === 'encrypted' ? (
+            <>
+              <p className="text-[10px] font-black uppercase tracking-widest text-gray-400 mb-3">Safety Number · compare on both phones</p>
+              <p className="text-3xl mb-3 tracking-widest">{security.emoji}</p>
+              <p className="font-mono font-black text-lg text-gray-700 tracking-wider">{security.safetyNumber}</p>
+            </>
+          ) : (
+            <p className="text-[11px] font-bold text-orange-500">
+              {security.state === 'negotiating' ? 'Exchanging keys...' : 'This link is not end-to-end encrypted. It relies on the transport (DTLS) only.'}
+            </p>
+          )}
+        </div>
+      )}
+
+      {showHistory && (
+        <div className="bg-gray-50 px-6 py-5 border-b border-gray-100 space-y-4 animate-in slide-in-from-top duration-300">
+          <div>
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="text-[10px] font-black uppercase tracking-widest text-gray-400">Storage on this device</span>
+              {storage && (
+                <span className="text-[10px] font-black text-gray-500">
+                  {formatBytes(storage.usage)} / {formatBytes(storage.quota)}{storage.persisted ? ' · persistent' : ''}
+                </span>
+              )}
+            </div>
+            <div className="h-1.5 rounded-full bg-gray-200 overflow-hidden">
+              <div
+                className={`h-full ${storage && storage.usage / storage.quota > 0.8 ? 'bg-red-500' : 'bg-blue-600'}`}
+                style={{ width: `${storage && storage.quota ? Math.min(100, (storage.usage / storage.quota) * 100) : 0}%` }}
+              ></div>
+            </div>
+            {!storage && <p className="text-[10px] font-bold text-gray-400 mt-2">Storage estimate not available in this browser</p>}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <button onClick={exportHistory} disabled={exporting} className="h-11 rounded-2xl bg-white border border-gray-100 text-[10px] font-black uppercase tracking-widest text-gray-600 flex items-center justify-center gap-1.5 active:scale-95 transition disabled:opacity-40">
+              <i className={`ph-bold ${exporting ? 'ph-spinner animate-spin' : 'ph-export'}`}></i> Export
+            </button>
+            <button onClick={() => archiveRef.current?.click()} className="h-11 rounded-2xl bg-white border border-gray-100 text-[10px] font-black uppercase tracking-widest text-gray-600 flex items-center justify-center gap-1.5 active:scale-95 transition">
+              <i className="ph-bold ph-download-simple"></i> Import
+            </button>
+            <button onClick={deleteHistory} className="h-11 rounded-2xl bg-red-50 text-[10px] font-black uppercase tracking-widest text-red-500 flex items-center justify-center gap-1.5 active:scale-95 transition">
+              <i className="ph-bold ph-trash"></i> Delete
+            </button>
+          </div>
+          <input
+            type="file"
+            ref={archiveRef}
+            className="hidden"
+            accept=".zip,application/zip"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportConversation(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
       {/* Connection Logs Panel */}
       {showLogs && (
         <div className="bg-gray-900 p-4 text-[10px] font-mono max-h-40 overflow-y-auto border-b border-gray-800 animate-in slide-in-from-top duration-300">
@@ -106,25 +751,97 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         </div>
       )}
 
+      {room && !room.members.length && (
+        <div className="px-6 py-2.5 bg-blue-50 border-b border-blue-100 flex items-center gap-3">
+          <i className="ph-bold ph-users-three text-blue-500"></i>
+          <p className="flex-1 text-[11px] font-bold text-blue-700">
+            Waiting for others. Share room code <span className="font-mono font-black">{remotePeerId}</span>
+          </p>
+          <button onClick={copyRoomCode} className="h-7 px-3 rounded-full bg-blue-600 text-white text-[10px] font-black uppercase tracking-widest active:scale-95 transition">
+            {codeCopied ? 'Copied' : 'Copy'}
+          </button>
+        </div>
+      )}
+
+      {room && room.inCall.length > 0 && (
+        <div className="px-6 py-2.5 bg-green-50 border-b border-green-100 flex items-center gap-3">
+          <i className="ph-fill ph-phone-call text-green-600 animate-pulse"></i>
+          <p className="flex-1 text-[11px] font-bold text-green-700">
+            Group call in progress · {room.inCall.length} joined
+          </p>
+          <button onClick={() => onStartCall('video')} className="h-7 px-3 rounded-full bg-green-600 text-white text-[10px] font-black uppercase tracking-widest active:scale-95 transition">
+            Join
+          </button>
+        </div>
+      )}
+
+      {!room && status !== ConnectionStatus.CONNECTED && (
+        <div className="px-6 py-2.5 bg-orange-50 border-b border-orange-100 flex items-center gap-3">
+          <i className={`ph-bold ${reconnect ? 'ph-arrows-clockwise animate-spin' : 'ph-wifi-slash'} text-orange-500`}></i>
+          <p className="flex-1 text-[11px] font-bold text-orange-700">
+            {reconnect
+              ? (reconnect.nextAt > now
+                  ? `Reconnecting in ${Math.ceil((reconnect.nextAt - now) / 1000)}s (attempt ${reconnect.attempt})`
+                  : 'Reconnecting...')
+              : failure
+              ? `${FAILURE_TITLES[failure.reason]}. ${remedyFor(failure, candidates)}`
+              : 'Offline. Messages will be sent when the link is back.'}
+          </p>
+          <button onClick={link.retryLink} className="h-7 px-3 rounded-full bg-orange-500 text-white text-[10px] font-black uppercase tracking-widest active:scale-95 transition">
+            {reconnect ? 'Retry now' : 'Reconnect'}
+          </button>
+        </div>
+      )}
+
       {/* Messages List */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto p-6 space-y-6 no-scrollbar bg-gray-50/30">
         {messages.map(msg => (
-          <div key={msg.id} className={`flex flex-col ${msg.senderId === myId ? 'items-end' : 'items-start'}`}>
-            <div className={`max-w-[85%] p-4 rounded-3xl shadow-sm ${
+          <div key={msg.id} data-msg-id={msg.id} className={`flex flex-col ${msg.senderId === myId ? 'items-end' : 'items-start'}`}>
+            {room && msg.senderId !== myId && msg.type !== MessageType.SYSTEM && (
+              <span className="text-[10px] font-black text-gray-400 uppercase tracking-wider px-2 mb-1">{senderLabel(msg)}</span>
+            )}
+            <div
+              {...(hasMenu(msg) ? pressHandlers(msg) : {})}
+              style={{ WebkitTouchCallout: 'none' }}
+              className={`max-w-[85%] p-4 rounded-3xl shadow-sm ${hasMenu(msg) ? 'select-none' : ''} ${
               msg.senderId === myId 
                 ? 'bg-blue-600 text-white rounded-tr-none' 
                 : 'bg-white text-gray-800 rounded-tl-none border border-gray-100'
             }`}>
               {renderContent(msg)}
+              {renderIntegrity(msg)}
               
-              {transferProgress[msg.transferId || ''] !== undefined && (
-                <div className="mt-3 w-full bg-black/10 rounded-full h-1.5 overflow-hidden">
-                   <div className="bg-white h-full transition-all duration-300 ease-out" style={{ width: `${transferProgress[msg.transferId!]}%` }}></div>
-                </div>
-              )}
+              {msg.type === MessageType.SYSTEM && !msg.integrity && transfers[msg.transferId || ''] && renderTransfer(transfers[msg.transferId!])}
             </div>
-            <span className="text-[9px] text-gray-400 mt-1.5 px-2 font-bold uppercase tracking-wider">
+            {!msg.recalled && summarizeReactions(msg, myId).length > 0 && (
+              <div className="flex gap-1 -mt-2 px-2 z-[1]">
+                {summarizeReactions(msg, myId).map(r => (
+                  <button
+                    key={r.emoji}
+                    onClick={() => onReact(msg.id, r.mine ? null : r.emoji)}
+                    className={`h-6 px-2 rounded-full text-[12px] flex items-center gap-1 shadow-sm border active:scale-90 transition ${
+                      r.mine ? 'bg-blue-50 border-blue-200' : 'bg-white border-gray-100'
+                    }`}
+                  >
+                    {r.emoji}{r.count > 1 && <span className="text-[10px] font-black text-gray-500">{r.count}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+            <span className="text-[9px] text-gray-400 mt-1.5 px-2 font-bold uppercase tracking-wider flex items-center gap-1">
               {new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+              {msg.editedAt && !msg.recalled && (
+                <button onClick={() => setHistoryFor(msg)} className="underline decoration-dotted active:opacity-60">Edited</button>
+              )}
+              {msg.delivery === 'queued' && <><i className="ph-bold ph-clock"></i> Queued</>}
+              {msg.delivery === 'sent' && <i className="ph-bold ph-check"></i>}
+              {msg.delivery === 'delivered' && <i className="ph-bold ph-checks"></i>}
+              {msg.delivery === 'read' && <i className="ph-bold ph-checks text-blue-500"></i>}
+              {msg.delivery === 'failed' && (
+                <button onClick={() => onRetryMessage(msg.id)} className="text-red-500 flex items-center gap-1 active:opacity-60">
+                  <i className="ph-bold ph-warning-circle"></i> Failed · Retry
+                </button>
+              )}
             </span>
           </div>
         ))}
@@ -136,15 +853,49 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         )}
       </div>
 
+      {(replyTo || editing) && (
+        <div className="px-5 py-2.5 bg-gray-50 border-t border-gray-100 flex items-center gap-3">
+          <i className={`ph-bold ${editing ? 'ph-pencil-simple' : 'ph-arrow-bend-up-left'} text-blue-600`}></i>
+          <div className="flex-1 min-w-0">
+            <p className="text-[10px] font-black uppercase tracking-wider text-blue-600">
+              {editing ? 'Editing message' : `Replying to ${senderLabel(replyTo!)}`}
+            </p>
+            <p className="text-[12px] text-gray-500 truncate">{snippetOf((editing || replyTo)!)}</p>
+          </div>
+          <button
+            onClick={() => {
+              if (editing) setInputText('');
+              setEditing(null);
+              setReplyTo(null);
+            }}
+            className="w-8 h-8 rounded-full bg-gray-200/60 text-gray-500 flex items-center justify-center active:scale-90 transition"
+          >
+            <i className="ph-bold ph-x"></i>
+          </button>
+        </div>
+      )}
+
       {/* Input Area */}
       <div className="p-4 bg-white border-t border-gray-100 flex items-center gap-3 safe-bottom">
         <input 
           type="file" 
           ref={fileRef} 
+          multiple
+          className="hidden" 
+          onChange={e => {
+            sendFiles(e.target.files);
+            e.target.value = '';
+          }} 
+        />
+        <input 
+          type="file" 
+          ref={folderRef} 
+          multiple
           className="hidden" 
+          {...({ webkitdirectory: '' } as any)}
           onChange={e => {
-            const file = e.target.files?.[0];
-            if (file) onSendMessage(file, file.type.startsWith('image/') ? MessageType.IMAGE : MessageType.VIDEO_FILE);
+            foldersFromFileList(e.target.files || []).forEach(onSendFolder);
+            e.target.value = '';
           }} 
         />
         <button 
@@ -153,33 +904,135 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         >
           <i className="ph-bold ph-plus text-xl"></i>
         </button>
-        <div className="flex-1 bg-gray-50 rounded-[20px] px-5 flex items-center border border-transparent focus-within:border-blue-100 focus-within:bg-white transition-all">
-          <input 
-            value={inputText} 
-            onChange={e => setInputText(e.target.value)} 
-            placeholder="Type a message..."
-            onKeyDown={e => {
-              if (e.key === 'Enter' && inputText.trim()) {
-                onSendMessage(inputText);
-                setInputText('');
-              }
+        {!room && (
+          <button 
+            onClick={() => folderRef.current?.click()} 
+            className="w-12 h-12 bg-gray-50 rounded-2xl text-gray-400 hover:bg-gray-100 transition-colors active:scale-90 flex items-center justify-center"
+          >
+            <i className="ph-bold ph-folder-simple-plus text-xl"></i>
+          </button>
+        )}
+        {voiceStartedAt !== null ? (
+          <div className={`flex-1 h-14 rounded-[20px] px-5 flex items-center gap-3 transition-colors ${voiceCancelArmed ? 'bg-gray-100' : 'bg-red-50'}`}>
+            <span className="w-2.5 h-2.5 rounded-full bg-red-500 animate-pulse"></span>
+            <span className="font-mono font-black text-[15px] text-red-600">{formatVoiceDuration(voiceElapsed)}</span>
+            <span className="flex-1 text-right text-[10px] font-black uppercase tracking-widest text-gray-400">
+              {voiceCancelArmed ? 'Release to cancel' : '‹ Slide to cancel'}
+            </span>
+          </div>
+        ) : (
+          <div className="flex-1 bg-gray-50 rounded-[20px] px-5 flex items-center border border-transparent focus-within:border-blue-100 focus-within:bg-white transition-all">
+            <input 
+              ref={inputRef}
+              value={inputText} 
+              onChange={e => {
+                setInputText(e.target.value);
+                onTyping(!!e.target.value.trim());
+              }} 
+              placeholder={voiceError || "Type a message..."}
+              onKeyDown={e => {
+                if (e.key === 'Enter') submitText();
+              }}
+              className="w-full bg-transparent h-14 outline-none font-medium text-[15px] placeholder:text-gray-300"
+            />
+          </div>
+        )}
+        {!inputText.trim() && !editing && canRecordVoice() ? (
+          <button
+            onPointerDown={e => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              beginVoice(e.clientX);
             }}
-            className="w-full bg-transparent h-14 outline-none font-medium text-[15px] placeholder:text-gray-300"
-          />
-        </div>
-        <button 
-          onClick={() => {
-            if (inputText.trim()) {
-              onSendMessage(inputText);
-              setInputText('');
-            }
-          }} 
-          disabled={!inputText.trim()}
-          className="w-12 h-12 bg-blue-600 text-white rounded-2xl shadow-lg shadow-blue-100 disabled:opacity-30 transition-all active:scale-90 flex items-center justify-center"
-        >
-          <i className="ph-fill ph-paper-plane-right text-xl"></i>
-        </button>
+            onPointerMove={e => {
+              const hold = holdRef.current;
+              if (!hold || hold.released) return;
+              hold.cancel = hold.x - e.clientX > VOICE_CANCEL_DISTANCE;
+              setVoiceCancelArmed(hold.cancel);
+            }}
+            onPointerUp={() => finishVoice(!holdRef.current?.cancel)}
+            onPointerCancel={() => finishVoice(false)}
+            onContextMenu={e => e.preventDefault()}
+            className={`w-12 h-12 rounded-2xl text-white shadow-lg transition-all flex items-center justify-center touch-none select-none ${
+              voiceStartedAt !== null ? 'bg-red-500 shadow-red-100 scale-125' : 'bg-blue-600 shadow-blue-100 active:scale-90'
+            }`}
+          >
+            <i className="ph-fill ph-microphone text-xl"></i>
+          </button>
+        ) : (
+          <button 
+            onClick={submitText} 
+            disabled={!inputText.trim()}
+            className="w-12 h-12 bg-blue-600 text-white rounded-2xl shadow-lg shadow-blue-100 disabled:opacity-30 transition-all active:scale-90 flex items-center justify-center"
+          >
+            <i className="ph-fill ph-paper-plane-right text-xl"></i>
+          </button>
+        )}
       </div>
+
+      {/* 长按菜单：iOS 风格底部操作表 */}
+      {menuFor && (
+        <div className="fixed inset-0 z-40 bg-black/30 backdrop-blur-sm flex items-end animate-in fade-in" onClick={() => setMenuFor(null)}>
+          <div className="w-full p-3 space-y-2 safe-bottom animate-in slide-in-from-bottom" onClick={e => e.stopPropagation()}>
+            <div className="bg-white rounded-[28px] p-3 flex justify-between">
+              {QUICK_REACTIONS.map(emoji => {
+                const mine = menuFor.reactions?.[myId]?.emoji === emoji;
+                return (
+                  <button
+                    key={emoji}
+                    onClick={() => { onReact(menuFor.id, mine ? null : emoji); setMenuFor(null); }}
+                    className={`w-12 h-12 rounded-full text-2xl flex items-center justify-center active:scale-90 transition ${mine ? 'bg-blue-100' : 'hover:bg-gray-50'}`}
+                  >
+                    {emoji}
+                  </button>
+                );
+              })}
+            </div>
+            <div className="bg-white rounded-[28px] overflow-hidden divide-y divide-gray-100">
+              <div className="px-5 py-3 text-[12px] text-gray-400 truncate">{snippetOf(menuFor)}</div>
+              {([
+                ['ph-arrow-bend-up-left', 'Reply', () => startReply(menuFor), true],
+                ['ph-copy', 'Copy', () => navigator.clipboard?.writeText(String(menuFor.content)), isTextual(menuFor)],
+                ['ph-pencil-simple', 'Edit', () => startEdit(menuFor), canEdit(menuFor, myId)],
+                ['ph-clock-counter-clockwise', 'Edit history', () => setHistoryFor(menuFor), !!menuFor.edits?.length],
+                ['ph-arrow-u-up-left', 'Unsend', () => {
+                  if (window.confirm('Unsend this message for everyone?')) onRecall(menuFor.id);
+                }, canRecall(menuFor, myId)]
+              ] as [string, string, () => void, boolean][]).filter(([, , , shown]) => shown).map(([icon, label, action]) => (
+                <button
+                  key={label}
+                  onClick={() => { setMenuFor(null); action(); }}
+                  className={`w-full px-5 py-4 flex items-center justify-between text-[15px] font-bold active:bg-gray-50 ${label === 'Unsend' ? 'text-red-500' : 'text-gray-900'}`}
+                >
+                  {label}
+                  <i className={`ph-bold ${icon} text-xl`}></i>
+                </button>
+              ))}
+            </div>
+            <button onClick={() => setMenuFor(null)} className="w-full py-4 bg-white rounded-[28px] text-[15px] font-black text-blue-600 active:bg-gray-50">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {historyFor && (
+        <div className="fixed inset-0 z-40 bg-black/30 backdrop-blur-sm flex items-center justify-center p-6 animate-in fade-in" onClick={() => setHistoryFor(null)}>
+          <div className="w-full max-w-sm bg-white rounded-[32px] p-6 space-y-4" onClick={e => e.stopPropagation()}>
+            <h3 className="font-black text-lg">Edit history</h3>
+            <div className="space-y-3 max-h-80 overflow-y-auto no-scrollbar">
+              {[...(historyFor.edits || []), { content: historyFor.content, editedAt: historyFor.editedAt || historyFor.timestamp }].map((version, i, all) => (
+                <div key={version.editedAt} className={`p-3 rounded-2xl ${i === all.length - 1 ? 'bg-blue-50' : 'bg-gray-50'}`}>
+                  <p className="text-[14px]">{version.content}</p>
+                  <p className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mt-1">
+                    {i === 0 ? 'Original' : i === all.length - 1 ? 'Current' : 'Edited'} · {new Date(version.editedAt).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </p>
+                </div>
+              ))}
+            </div>
+            <button onClick={() => setHistoryFor(null)} className="w-full py-3 bg-gray-100 rounded-2xl font-black text-gray-600 active:scale-95 transition">Close</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
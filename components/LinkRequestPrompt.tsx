@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { APPROVAL_TIMEOUT } from '../services/accessControl';
+
+interface LinkRequestPromptProps {
+  peerId: string;
+  nickname?: string;
+  // 排在后面的其他请求数
+  queued: number;
+  onAccept: () => void;
+  onReject: () => void;
+  onBlock: () => void;
+}
+
+const LinkRequestPrompt: React.FC<LinkRequestPromptProps> = ({ peerId, nickname, queued, onAccept, onReject, onBlock }) => {
+  const [shownAt] = useState(Date.now());
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const remaining = Math.max(0, Math.ceil((shownAt + APPROVAL_TIMEOUT - now) / 1000));
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4 animate-in fade-in">
+      <div className="w-full max-w-sm bg-white rounded-[32px] p-6 space-y-5 shadow-2xl animate-in slide-in-from-bottom">
+        <div className="flex items-center gap-4">
+          <div className="w-14 h-14 rounded-2xl bg-blue-600 text-white flex items-center justify-center font-black text-2xl shrink-0">
+            {(nickname || peerId).charAt(0).toUpperCase()}
+          </div>
+          <div className="min-w-0">
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Link request</p>
+            <p className="font-black text-lg text-gray-900 truncate">{nickname || peerId}</p>
+            {nickname && <p className="font-mono font-bold text-[12px] text-gray-400">{peerId}</p>}
+          </div>
+        </div>
+        <p className="text-[13px] font-medium text-gray-500">
+          {nickname ? 'A saved contact' : 'Someone you have not saved'} wants to connect. Nothing they send is shown until you accept.
+        </p>
+        <div className="grid grid-cols-2 gap-3">
+          <button onClick={onReject} className="py-4 rounded-2xl bg-gray-100 text-gray-600 font-black active:scale-95 transition">
+            Reject
+          </button>
+          <button onClick={onAccept} className="py-4 rounded-2xl bg-blue-600 text-white font-black active:scale-95 transition shadow-lg shadow-blue-100">
+            Accept
+          </button>
+        </div>
+        <div className="flex items-center justify-between">
+          <button onClick={onBlock} className="text-[11px] font-black uppercase tracking-widest text-red-500 flex items-center gap-1.5 active:opacity-60">
+            <i className="ph-bold ph-prohibit"></i> Block this ID
+          </button>
+          <span className="text-[10px] font-black uppercase tracking-widest text-gray-300">
+            {queued > 0 ? `+${queued} waiting · ` : ''}{remaining}s
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkRequestPrompt;
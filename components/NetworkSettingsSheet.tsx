@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  DEFAULT_NETWORK_SETTINGS, IceServerEntry, LOCAL_SIGNALING, NetworkSettings, SignalingServer,
+  configLink, parseConfigText, sanitizeNetworkSettings
+} from '../services/networkSettings';
+
+interface NetworkSettingsSheetProps {
+  settings: NetworkSettings;
+  onSave: (settings: NetworkSettings) => void;
+  onClose: () => void;
+}
+
+// 表单里一律按字符串编辑，保存时再统一校验
+interface SignalingForm {
+  host: string;
+  port: string;
+  path: string;
+  key: string;
+  secure: boolean;
+}
+
+const toForm = (signaling: SignalingServer): SignalingForm => ({ ...signaling, port: String(signaling.port) });
+
+const fieldClass = 'w-full p-3 rounded-2xl bg-white border-2 border-gray-100 focus:border-blue-500 outline-none font-bold text-sm';
+const labelClass = 'text-[10px] font-black text-gray-400 uppercase tracking-widest px-1';
+
+const NetworkSettingsSheet: React.FC<NetworkSettingsSheetProps> = ({ settings, onSave, onClose }) => {
+  const [custom, setCustom] = useState(!!settings.signaling);
+  const [signaling, setSignaling] = useState<SignalingForm>(toForm(settings.signaling || LOCAL_SIGNALING));
+  const [iceServers, setIceServers] = useState<IceServerEntry[]>(settings.iceServers);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = (next: NetworkSettings) => {
+    setCustom(!!next.signaling);
+    setSignaling(toForm(next.signaling || LOCAL_SIGNALING));
+    setIceServers(next.iceServers);
+    setError(null);
+  };
+
+  const collect = (): NetworkSettings | null => {
+    const next = sanitizeNetworkSettings({
+      signaling: custom ? { ...signaling, port: Number(signaling.port) } : null,
+      iceServers: iceServers.filter(entry => entry.urls.trim())
+    });
+    setError(next ? null : custom
+      ? 'Check the server host and port, and that every ICE URL starts with stun:, stuns:, turn: or turns:'
+      : 'Every ICE URL must start with stun:, stuns:, turn: or turns:');
+    return next;
+  };
+
+  const updateIce = (index: number, patch: Partial<IceServerEntry>) =>
+    setIceServers(prev => prev.map((entry, i) => i === index ? { ...entry, ...patch } : entry));
+
+  const copyLink = async () => {
+    const next = collect();
+    if (!next) return;
+    try {
+      await navigator.clipboard.writeText(configLink(next));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (e) {
+      window.prompt('Copy this config link', configLink(next));
+    }
+  };
+
+  const importConfig = () => {
+    const text = window.prompt('Paste a config link or JSON');
+    if (!text) return;
+    const next = parseConfigText(text);
+    if (next) load(next);
+    else setError('That config link is not valid');
+  };
+
+  const save = () => {
+    const next = collect();
+    if (next) onSave(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/40 backdrop-blur-sm flex items-end sm:items-center justify-center p-4 animate-in fade-in">
+      <div className="w-full max-w-md max-h-full overflow-y-auto no-scrollbar bg-white rounded-[32px] p-6 space-y-5 shadow-2xl animate-in slide-in-from-bottom">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-[10px] font-black uppercase tracking-widest text-gray-400">Network</p>
+            <p className="font-black text-lg text-gray-900">Signaling & ICE servers</p>
+          </div>
+          <button onClick={onClose} className="w-10 h-10 rounded-xl flex items-center justify-center text-gray-400 hover:bg-gray-100 transition">
+            <i className="ph-bold ph-x text-xl"></i>
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <p className={labelClass}>Signaling server</p>
+          <div className="grid grid-cols-2 gap-2 bg-gray-100 p-1 rounded-2xl">
+            {[false, true].map(value => (
+              <button
+                key={String(value)}
+                onClick={() => setCustom(value)}
+                className={`py-2.5 rounded-xl text-[11px] font-black uppercase tracking-widest transition ${
+                  custom === value ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-400'
+                }`}
+              >
+                {value ? 'Custom' : 'PeerJS cloud'}
+              </button>
+            ))}
+          </div>
+          {custom && (
+            <div className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={signaling.host}
+                  onChange={e => setSignaling({ ...signaling, host: e.target.value.trim() })}
+                  placeholder="host"
+                  className={`${fieldClass} flex-1 min-w-0`}
+                />
+                <input
+                  value={signaling.port}
+                  onChange={e => setSignaling({ ...signaling, port: e.target.value.replace(/\D/g, '').slice(0, 5) })}
+                  inputMode="numeric"
+                  placeholder="port"
+                  className={`${fieldClass} w-24`}
+                />
+              </div>
+              <div className="flex gap-2">
+                <input
+                  value={signaling.path}
+                  onChange={e => setSignaling({ ...signaling, path: e.target.value })}
+                  placeholder="path"
+                  className={`${fieldClass} flex-1 min-w-0`}
+                />
+                <input
+                  value={signaling.key}
+                  onChange={e => setSignaling({ ...signaling, key: e.target.value })}
+                  placeholder="key"
+                  className={`${fieldClass} flex-1 min-w-0`}
+                />
+              </div>
+              <div className="flex items-center justify-between px-1">
+                <label className="flex items-center gap-2 text-[12px] font-bold text-gray-500">
+                  <input
+                    type="checkbox"
+                    checked={signaling.secure}
+                    onChange={e => setSignaling({ ...signaling, secure: e.target.checked })}
+                  />
+                  Use TLS (wss://)
+                </label>
+                <button
+                  onClick={() => setSignaling(toForm(LOCAL_SIGNALING))}
+                  className="text-[10px] font-black uppercase tracking-widest text-blue-600 active:opacity-60"
+                >
+                  Bundled server
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <p className={labelClass}>STUN / TURN servers</p>
+          {iceServers.map((entry, index) => (
+            <div key={index} className="bg-gray-50 p-3 rounded-2xl border border-gray-100 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  value={entry.urls}
+                  onChange={e => updateIce(index, { urls: e.target.value })}
+                  placeholder="turn:turn.example.com:3478"
+                  className={`${fieldClass} flex-1 min-w-0 font-mono`}
+                />
+                <button
+                  onClick={() => setIceServers(prev => prev.filter((_, i) => i !== index))}
+                  className="w-11 rounded-xl flex items-center justify-center text-gray-300 hover:text-red-500 hover:bg-white transition"
+                >
+                  <i className="ph-bold ph-trash"></i>
+                </button>
+              </div>
+              {/^turns?:/i.test(entry.urls.trim()) && (
+                <div className="flex gap-2">
+                  <input
+                    value={entry.username || ''}
+                    onChange={e => updateIce(index, { username: e.target.value })}
+                    placeholder="username"
+                    className={`${fieldClass} flex-1 min-w-0`}
+                  />
+                  <input
+                    type="password"
+                    value={entry.credential || ''}
+                    onChange={e => updateIce(index, { credential: e.target.value })}
+                    placeholder="credential"
+                    className={`${fieldClass} flex-1 min-w-0`}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+          {iceServers.length === 0 && (
+            <p className="text-[12px] font-medium text-gray-400 px-1">No ICE servers: only devices on the same network can connect.</p>
+          )}
+          <button
+            onClick={() => setIceServers(prev => [...prev, { urls: '' }])}
+            className="w-full p-3 rounded-2xl bg-blue-50 text-blue-600 font-black text-[11px] uppercase tracking-widest flex items-center justify-center gap-2 active:scale-95 transition"
+          >
+            <i className="ph-bold ph-plus"></i> Add server
+          </button>
+        </div>
+
+        {error && <p className="text-[12px] font-bold text-red-500 px-1">{error}</p>}
+
+        <div className="flex items-center justify-between px-1">
+          <button onClick={() => load(DEFAULT_NETWORK_SETTINGS)} className="text-[10px] font-black uppercase tracking-widest text-gray-400 active:opacity-60">
+            Defaults
+          </button>
+          <button onClick={importConfig} className="text-[10px] font-black uppercase tracking-widest text-gray-400 active:opacity-60">
+            Import
+          </button>
+          <button onClick={copyLink} className="text-[10px] font-black uppercase tracking-widest text-blue-600 flex items-center gap-1.5 active:opacity-60">
+            <i className={`ph-bold ${copied ? 'ph-check' : 'ph-link'}`}></i> {copied ? 'Copied' : 'Config link'}
+          </button>
+        </div>
+
+        <button
+          onClick={save}
+          className="w-full py-4 rounded-2xl bg-gray-900 text-white font-black active:scale-95 transition"
+        >
+          Save & reconnect
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkSettingsSheet;
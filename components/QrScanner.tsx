@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+interface QrScannerProps {
+  onResult: (text: string) => void;
+  onClose: () => void;
+}
+
+const QrScanner: React.FC<QrScannerProps> = ({ onResult, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+    // iOS Safari 没有 BarcodeDetector，退回到 jsQR 逐帧识别
+    const Detector = (window as any).BarcodeDetector;
+    const detector = Detector ? new Detector({ formats: ['qr_code'] }) : null;
+
+    const detect = async (video: HTMLVideoElement): Promise<string | null> => {
+      if (detector) {
+        const codes = await detector.detect(video);
+        return codes[0]?.rawValue || null;
+      }
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+      if (!canvas || !ctx || !video.videoWidth) return null;
+      // 缩小到 640 宽再识别，手机上足够清晰且不卡
+      const scale = Math.min(1, 640 / video.videoWidth);
+      canvas.width = Math.round(video.videoWidth * scale);
+      canvas.height = Math.round(video.videoHeight * scale);
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      return jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })?.data || null;
+    };
+
+    const scan = async () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      if (video && video.readyState >= 2) {
+        try {
+          const text = await detect(video);
+          if (text && !stopped) {
+            stopped = true;
+            onResult(text);
+            return;
+          }
+        } catch (e) {
+          // 个别帧识别失败时忽略，继续下一帧
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(s => {
+        stream = s;
+        if (stopped) return s.getTracks().forEach(t => t.stop());
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = s;
+        video.play().catch(console.error);
+        frame = requestAnimationFrame(scan);
+      })
+      .catch(err => setError(err?.name === 'NotAllowedError' ? 'Camera access denied' : 'Camera unavailable'));
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, []);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center safe-top safe-bottom animate-in fade-in">
+      <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+      <canvas ref={canvasRef} className="hidden" />
+      <div className="relative w-64 h-64 rounded-[40px] border-4 border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.55)]"></div>
+      <p className="relative mt-8 text-white font-black text-sm uppercase tracking-[0.3em]">
+        {error || 'Point at a P2P Link code'}
+      </p>
+      <button
+        onClick={onClose}
+        className="absolute top-12 right-6 w-12 h-12 rounded-full bg-white/20 backdrop-blur-md text-white flex items-center justify-center active:scale-90 transition"
+      >
+        <i className="ph-bold ph-x text-xl"></i>
+      </button>
+    </div>
+  );
+};
+
+export default QrScanner;
@@ -1,25 +1,120 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  CallSession, LocalMediaState, RemoteMediaState, canShareScreen, describeCallEnd, formatCallDuration
+} from '../services/callSession';
+import { CallStats, ENCODING_LEVELS, formatBitrate } from '../services/callStats';
+import { canRecordCalls } from '../services/callRecorder';
+
+// 群通话中的一位远端成员
+export interface CallParticipant {
+  peerId: string;
+  name: string;
+  stream: MediaStream | null;
+}
 
 interface VideoCallOverlayProps {
   localStream: MediaStream | null;
   remoteStream: MediaStream | null;
+  session: CallSession;
+  mediaState: LocalMediaState;
+  remoteMedia: RemoteMediaState;
+  stats: CallStats | null;
+  recording: boolean;
+  remoteRecording: boolean;
+  onToggleRecording: () => void;
+  onToggleAudio: () => void;
+  onToggleVideo: () => void;
+  onFlipCamera: () => void;
+  onToggleScreenShare: () => void;
   onEndCall: () => void;
-  isIncoming?: boolean;
   onAnswer?: () => void;
   remotePeerId?: string;
+  remoteName?: string;
+  // 传入时为群通话，远端画面按宫格排列
+  participants?: CallParticipant[];
 }
 
+const ParticipantTile: React.FC<{ participant: CallParticipant; audioOnly: boolean; muted: boolean }> = ({ participant, audioOnly, muted }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !participant.stream) return;
+    video.srcObject = participant.stream;
+    video.play().catch(() => {
+      video.muted = true;
+      video.play().catch(console.error);
+    });
+  }, [participant.stream]);
+
+  return (
+    <div className="relative bg-gray-900 rounded-3xl overflow-hidden min-h-0">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted={muted}
+        className={`w-full h-full object-cover ${participant.stream && !audioOnly ? '' : 'opacity-0'}`}
+      />
+      {(!participant.stream || audioOnly) && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center text-white/50">
+          <div className="w-16 h-16 bg-white/5 rounded-full flex items-center justify-center border border-white/10 relative mb-3">
+            <i className="ph-fill ph-user text-3xl"></i>
+            {!participant.stream && <div className="absolute -inset-1 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>}
+          </div>
+        </div>
+      )}
+      <span className="absolute bottom-3 left-3 px-2.5 py-1 rounded-full bg-black/50 backdrop-blur-md text-white text-[10px] font-black uppercase tracking-widest">
+        {participant.name}
+      </span>
+    </div>
+  );
+};
+
 const VideoCallOverlay: React.FC<VideoCallOverlayProps> = ({ 
   localStream, 
   remoteStream, 
+  session,
+  mediaState,
+  remoteMedia,
+  stats,
+  recording,
+  remoteRecording,
+  onToggleRecording,
+  onToggleAudio,
+  onToggleVideo,
+  onFlipCamera,
+  onToggleScreenShare,
   onEndCall, 
-  isIncoming, 
   onAnswer,
-  remotePeerId
+  remotePeerId,
+  remoteName,
+  participants
 }) => {
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
+  const [now, setNow] = useState(Date.now());
+  const [speakerOn, setSpeakerOn] = useState(true);
+  const [showStats, setShowStats] = useState(false);
+  const isIncoming = session.direction === 'incoming' && session.phase === 'ringing';
+  const ended = session.phase === 'ended';
+  const audioOnly = session.kind === 'audio';
+  const sharing = mediaState.source === 'screen';
+  const group = !!participants;
+
+  // 通话计时
+  useEffect(() => {
+    if (session.phase !== 'active') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session.phase]);
+
+  const statusText = ended
+    ? describeCallEnd(session.direction, session.endReason || 'failed', session.kind)
+    : session.phase === 'active' ? (session.startedAt ? formatCallDuration(now - session.startedAt) : '')
+    : session.phase === 'connecting' ? 'Connecting...'
+    : isIncoming ? (audioOnly ? 'Incoming Voice Call' : 'Incoming Call') : 'Ringing...';
 
   // 本地流绑定
   useEffect(() => {
@@ -53,34 +148,148 @@ const VideoCallOverlay: React.FC<VideoCallOverlayProps> = ({
     }
   }, [remoteStream]);
 
+  // 支持 setSinkId 且有多个输出设备时轮换输出；否则扬声器键控制远端声音开关
+  const toggleSpeaker = async () => {
+    if (group) {
+      setSpeakerOn(!speakerOn);
+      return;
+    }
+    const video = remoteVideoRef.current as any;
+    if (!video) return;
+    if (video.setSinkId && navigator.mediaDevices.enumerateDevices) {
+      const outputs = (await navigator.mediaDevices.enumerateDevices()).filter(d => d.kind === 'audiooutput');
+      if (outputs.length > 1) {
+        const current = outputs.findIndex(d => d.deviceId === (video.sinkId || 'default'));
+        await video.setSinkId(outputs[(current + 1) % outputs.length].deviceId).catch(console.error);
+        return;
+      }
+    }
+    video.muted = speakerOn;
+    setSpeakerOn(!speakerOn);
+  };
+
+  const controlClass = (active: boolean) =>
+    `w-14 h-14 rounded-full flex items-center justify-center backdrop-blur-xl border transition active:scale-90 ${
+      active ? 'bg-white/10 text-white/80 border-white/20 hover:bg-white/20' : 'bg-white text-gray-900 border-white'
+    }`;
+
   return (
     <div className="fixed inset-0 z-50 bg-black flex flex-col items-center justify-center overflow-hidden animate-in fade-in duration-300">
+      {group && (
+        <div className={`absolute inset-0 p-3 pt-24 pb-64 grid gap-3 bg-gray-950 ${
+          participants!.length <= 1 ? 'grid-cols-1' : participants!.length <= 4 ? 'grid-cols-2' : 'grid-cols-3'
+        }`}>
+          {participants!.map(p => <ParticipantTile key={p.peerId} participant={p} audioOnly={audioOnly} muted={!speakerOn} />)}
+          {participants!.length === 0 && (
+            <div className="flex flex-col items-center justify-center text-white/50">
+              <i className="ph-fill ph-users-three text-6xl mb-4"></i>
+              <p className="text-xs font-black uppercase tracking-[0.3em]">Waiting for others to join</p>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Remote Video (Full Screen) */}
-      <div className="absolute inset-0 w-full h-full bg-gray-900">
+      <div className={`absolute inset-0 w-full h-full bg-gray-900 ${group ? 'hidden' : ''}`}>
         <video 
           ref={remoteVideoRef} 
           autoPlay 
           playsInline 
-          className={`w-full h-full object-cover transition-opacity duration-1000 ${remoteStream ? 'opacity-100' : 'opacity-0'}`}
+          className={`w-full h-full transition-opacity duration-1000 ${remoteMedia.source === 'screen' ? 'object-contain' : 'object-cover'} ${remoteStream && !ended && !audioOnly && remoteMedia.video ? 'opacity-100' : 'opacity-0'}`}
         />
+
+        {remoteStream && !ended && !audioOnly && !remoteMedia.video && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white/50 bg-gray-950">
+            <div className="w-32 h-32 bg-white/5 rounded-full flex items-center justify-center border border-white/10 mb-8">
+              <i className="ph-fill ph-video-camera-slash text-5xl"></i>
+            </div>
+            <h3 className="text-xl font-bold text-white mb-2">{remoteName || `Peer ${remotePeerId}`}</h3>
+            <p className="text-xs font-black uppercase tracking-[0.3em] text-white/60">Camera off</p>
+          </div>
+        )}
         
-        {!remoteStream && (
+        {(!remoteStream || ended || audioOnly) && (
           <div className="absolute inset-0 flex flex-col items-center justify-center text-white/50 bg-gray-950">
             <div className="w-32 h-32 bg-white/5 rounded-full flex items-center justify-center border border-white/10 relative mb-8">
-              <i className="ph-fill ph-user text-6xl"></i>
-              <div className="absolute -inset-2 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+              <i className={`ph-fill ${audioOnly ? 'ph-phone' : 'ph-user'} text-6xl`}></i>
+              {!ended && session.phase !== 'active' && <div className="absolute -inset-2 border-2 border-blue-500 border-t-transparent rounded-full animate-spin"></div>}
             </div>
-            <h3 className="text-xl font-bold text-white mb-2">Peer {remotePeerId}</h3>
-            <p className="text-xs font-black text-blue-400 uppercase tracking-[0.3em] animate-pulse">
-              {isIncoming ? "Incoming Call" : "Calling Peer..."}
+            <h3 className="text-xl font-bold text-white mb-2">{remoteName || `Peer ${remotePeerId}`}</h3>
+            <p className={`text-xs font-black uppercase tracking-[0.3em] ${
+              ended ? (session.endReason === 'failed' ? 'text-red-400' : 'text-white/60')
+              : session.phase === 'active' ? 'text-white/60 font-mono' : 'text-blue-400 animate-pulse'
+            }`}>
+              {statusText}
             </p>
           </div>
         )}
       </div>
 
+      {session.phase === 'active' && session.startedAt && (
+        <div className="absolute top-10 left-8 z-10 flex items-center gap-2">
+          {!audioOnly && (
+            <span className="px-3 py-1.5 rounded-full bg-black/40 backdrop-blur-md text-white font-mono font-black text-sm">
+              {formatCallDuration(now - session.startedAt)}
+            </span>
+          )}
+          {stats && (
+            <button
+              onClick={() => setShowStats(!showStats)}
+              className={`h-8 px-3 rounded-full bg-black/40 backdrop-blur-md flex items-center gap-1.5 text-[10px] font-black uppercase tracking-widest active:scale-90 transition ${
+                stats.quality === 'good' ? 'text-green-400' : stats.quality === 'fair' ? 'text-yellow-400' : 'text-red-400'
+              }`}
+            >
+              <i className={`ph-bold ${stats.quality === 'good' ? 'ph-cell-signal-full' : stats.quality === 'fair' ? 'ph-cell-signal-medium' : 'ph-cell-signal-low'} text-base`}></i>
+              {stats.quality}
+            </button>
+          )}
+          {recording && (
+            <span className="px-3 py-1.5 rounded-full bg-red-600 text-white text-[10px] font-black uppercase tracking-widest flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full bg-white animate-pulse"></span> Rec
+            </span>
+          )}
+          {!remoteMedia.audio && (
+            <span className="px-3 py-1.5 rounded-full bg-red-500/80 backdrop-blur-md text-white text-[10px] font-black uppercase tracking-widest flex items-center gap-1">
+              <i className="ph-fill ph-microphone-slash"></i> Muted
+            </span>
+          )}
+        </div>
+      )}
+
+      {/* 对方录制时必须明确提示 */}
+      {remoteRecording && !ended && (
+        <div className="absolute top-24 inset-x-0 z-20 flex justify-center pointer-events-none">
+          <span className="px-4 py-2 rounded-full bg-red-600/90 backdrop-blur-md text-white text-[10px] font-black uppercase tracking-widest flex items-center gap-2 shadow-xl">
+            <i className="ph-fill ph-record animate-pulse"></i> {remoteName || 'Peer'} is recording this call
+          </span>
+        </div>
+      )}
+
+      {showStats && stats && session.phase === 'active' && (
+        <div className="absolute top-24 left-8 z-20 w-56 p-4 rounded-3xl bg-black/70 backdrop-blur-xl text-white font-mono text-[11px] space-y-1.5 animate-in fade-in">
+          {([
+            ['RTT', stats.rtt !== null ? `${stats.rtt} ms` : '—'],
+            ['Jitter', stats.jitter !== null ? `${stats.jitter} ms` : '—'],
+            ['Loss in', stats.packetLoss !== null ? `${(stats.packetLoss * 100).toFixed(1)}%` : '—'],
+            ['Loss out', stats.outgoingLoss !== null ? `${(stats.outgoingLoss * 100).toFixed(1)}%` : '—'],
+            ['Bitrate in', formatBitrate(stats.inboundBitrate)],
+            ['Bitrate out', formatBitrate(stats.outboundBitrate)],
+            ['Frame rate', stats.frameRate !== null ? `${stats.frameRate} fps` : '—'],
+            ['Resolution', stats.resolution || '—'],
+            ['Path', stats.candidateType || '—'],
+            ['Send cap', audioOnly ? '—' : formatBitrate(ENCODING_LEVELS[stats.encodingLevel].maxBitrate)]
+          ] as [string, string][]).map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-3">
+              <span className="text-white/50">{label}</span>
+              <span className="font-black">{value}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Local Video (PIP) */}
-      <div className={`absolute transition-all duration-1000 cubic-bezier(0.16, 1, 0.3, 1) ${
-        isIncoming && !remoteStream 
+      <div className={`absolute ${audioOnly ? 'hidden' : ''} transition-all duration-1000 cubic-bezier(0.16, 1, 0.3, 1) ${
+        isIncoming 
           ? "top-1/2 left-1/2 -translate-x-1/2 -translate-y-[60%] w-64 h-96 scale-110 shadow-2xl" 
           : "top-8 right-8 w-32 h-48 border-2 border-white/20"
         } bg-gray-800 rounded-[32px] overflow-hidden z-10`}>
@@ -89,9 +298,14 @@ const VideoCallOverlay: React.FC<VideoCallOverlayProps> = ({
           autoPlay 
           playsInline 
           muted 
-          className="w-full h-full object-cover"
-          style={{ transform: 'scaleX(-1)' }}
+          className={`w-full h-full object-cover ${mediaState.video ? '' : 'opacity-0'}`}
+          style={{ transform: mediaState.facing === 'user' && !sharing ? 'scaleX(-1)' : 'none' }}
         />
+        {!mediaState.video && (
+          <div className="absolute inset-0 flex items-center justify-center text-white/40">
+            <i className="ph-fill ph-video-camera-slash text-3xl"></i>
+          </div>
+        )}
         {isIncoming && !remoteStream && (
            <div className="absolute inset-x-0 bottom-4 text-center">
               <span className="text-[10px] text-white/60 font-black uppercase tracking-widest">Your Camera</span>
@@ -100,8 +314,8 @@ const VideoCallOverlay: React.FC<VideoCallOverlayProps> = ({
       </div>
 
       {/* Controls */}
-      <div className="absolute bottom-16 w-full flex flex-col items-center gap-12 px-8">
-        {isIncoming && !remoteStream ? (
+      <div className={`absolute bottom-16 w-full flex flex-col items-center gap-12 px-8 ${ended ? 'hidden' : ''}`}>
+        {isIncoming ? (
           <div className="flex gap-16 items-center animate-in slide-in-from-bottom duration-700">
             <button 
               onClick={onEndCall}
@@ -117,19 +331,45 @@ const VideoCallOverlay: React.FC<VideoCallOverlayProps> = ({
             </button>
           </div>
         ) : (
-          <div className="flex items-center gap-12">
-            <button className="w-16 h-16 rounded-full bg-white/10 text-white/80 flex items-center justify-center backdrop-blur-xl border border-white/20 hover:bg-white/20 transition active:scale-90">
-                <i className="ph-bold ph-microphone-slash text-2xl"></i>
-            </button>
+          <div className="flex flex-col items-center gap-8">
+            <div className="flex items-center gap-5">
+              <button onClick={onToggleAudio} className={controlClass(mediaState.audio)}>
+                <i className={`ph-bold ${mediaState.audio ? 'ph-microphone' : 'ph-microphone-slash'} text-2xl`}></i>
+              </button>
+              {!audioOnly && (
+                <>
+                  <button onClick={onToggleVideo} className={controlClass(mediaState.video)}>
+                    <i className={`ph-bold ${mediaState.video ? 'ph-video-camera' : 'ph-video-camera-slash'} text-2xl`}></i>
+                  </button>
+                  <button onClick={onFlipCamera} disabled={!localStream || sharing} className={`${controlClass(true)} disabled:opacity-30`}>
+                    <i className="ph-bold ph-camera-rotate text-2xl"></i>
+                  </button>
+                  {canShareScreen() && (
+                    <button onClick={onToggleScreenShare} disabled={session.phase !== 'active'} className={`${controlClass(!sharing)} disabled:opacity-30`}>
+                      <i className={`ph-bold ${sharing ? 'ph-monitor-arrow-up' : 'ph-monitor'} text-2xl`}></i>
+                    </button>
+                  )}
+                </>
+              )}
+              {canRecordCalls() && !group && (
+                <button
+                  onClick={onToggleRecording}
+                  disabled={session.phase !== 'active'}
+                  className={`${recording ? 'w-14 h-14 rounded-full flex items-center justify-center bg-red-600 text-white border border-red-600 transition active:scale-90' : controlClass(true)} disabled:opacity-30`}
+                >
+                  <i className={`ph-${recording ? 'fill ph-stop' : 'bold ph-record'} text-2xl`}></i>
+                </button>
+              )}
+              <button onClick={toggleSpeaker} className={controlClass(speakerOn)}>
+                <i className={`ph-bold ${speakerOn ? 'ph-speaker-high' : 'ph-speaker-slash'} text-2xl`}></i>
+              </button>
+            </div>
             <button 
               onClick={onEndCall}
               className="w-22 h-22 rounded-full bg-red-500 text-white flex items-center justify-center shadow-2xl active:scale-90 transition transform hover:scale-105"
             >
               <i className="ph-fill ph-phone-slash text-4xl"></i>
             </button>
-            <button className="w-16 h-16 rounded-full bg-white/10 text-white/80 flex items-center justify-center backdrop-blur-xl border border-white/20 hover:bg-white/20 transition active:scale-90">
-                <i className="ph-bold ph-video-camera-slash text-2xl"></i>
-            </button>
           </div>
         )}
       </div>
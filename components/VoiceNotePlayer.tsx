@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { VoiceNoteMeta } from '../types';
+import { PLAYBACK_RATES, WAVEFORM_BARS, formatVoiceDuration } from '../services/voiceNote';
+
+interface VoiceNotePlayerProps {
+  blob: Blob;
+  meta?: VoiceNoteMeta;
+}
+
+const VoiceNotePlayer: React.FC<VoiceNotePlayerProps> = ({ blob, meta }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const waveRef = useRef<HTMLDivElement>(null);
+  const [url, setUrl] = useState('');
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState(0); // ms
+  const [rate, setRate] = useState(PLAYBACK_RATES[0]);
+  const waveform = meta?.waveform?.length ? meta.waveform : new Array(WAVEFORM_BARS).fill(0.3);
+  // MediaRecorder 生成的 webm 常常没有时长信息，以发送端记录的为准
+  const duration = meta?.duration || 0;
+
+  useEffect(() => {
+    const next = URL.createObjectURL(blob);
+    setUrl(next);
+    return () => URL.revokeObjectURL(next);
+  }, [blob]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate, url]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) audio.play().catch(console.error);
+    else audio.pause();
+  };
+
+  const seekTo = (clientX: number) => {
+    const audio = audioRef.current;
+    const rect = waveRef.current?.getBoundingClientRect();
+    if (!audio || !rect || !duration) return;
+    const ratio = Math.min(1, Math.max(0, (clientX - rect.left) / rect.width));
+    audio.currentTime = (ratio * duration) / 1000;
+    setPosition(ratio * duration);
+  };
+
+  const progress = duration ? Math.min(1, position / duration) : 0;
+
+  return (
+    <div className="flex items-center gap-3 w-64 max-w-full">
+      <audio
+        ref={audioRef}
+        src={url}
+        preload="metadata"
+        onPlay={() => setPlaying(true)}
+        onPause={() => setPlaying(false)}
+        onEnded={() => { setPlaying(false); setPosition(0); }}
+        onTimeUpdate={e => setPosition(e.currentTarget.currentTime * 1000)}
+      />
+      <button
+        onClick={togglePlay}
+        className="w-10 h-10 shrink-0 rounded-full bg-black/10 flex items-center justify-center active:scale-90 transition"
+      >
+        <i className={`ph-fill ${playing ? 'ph-pause' : 'ph-play'} text-lg`}></i>
+      </button>
+      <div className="flex-1 min-w-0">
+        {/* 波形可点按或拖动定位 */}
+        <div
+          ref={waveRef}
+          className="h-8 flex items-center gap-[2px] cursor-pointer touch-none"
+          onPointerDown={e => {
+            e.currentTarget.setPointerCapture(e.pointerId);
+            seekTo(e.clientX);
+          }}
+          onPointerMove={e => {
+            if (e.currentTarget.hasPointerCapture(e.pointerId)) seekTo(e.clientX);
+          }}
+        >
+          {waveform.map((peak, i) => (
+            <div
+              key={i}
+              className={`flex-1 rounded-full bg-current transition-opacity ${(i + 0.5) / waveform.length <= progress ? 'opacity-100' : 'opacity-30'}`}
+              style={{ height: `${Math.max(12, peak * 100)}%` }}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-1">
+          <span className="text-[10px] font-black font-mono opacity-60">
+            {formatVoiceDuration(playing || position ? position : duration)}
+          </span>
+          <button
+            onClick={() => setRate(PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(rate) + 1) % PLAYBACK_RATES.length])}
+            className="px-2 h-5 rounded-full bg-black/10 text-[10px] font-black active:scale-90 transition"
+          >
+            {rate}x
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VoiceNotePlayer;
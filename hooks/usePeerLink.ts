@@ -0,0 +1,43 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useSyncExternalStore } from 'react';
+import { PeerLinkClient, PeerLinkEvents, PeerLinkState } from '../services/peerLinkClient';
+
+export const PeerLinkContext = createContext<PeerLinkClient | null>(null);
+
+// 客户端在组件的整个生命周期内只创建一次，卸载时销毁
+export const usePeerLinkClient = (create: () => PeerLinkClient): PeerLinkClient => {
+  const ref = useRef<PeerLinkClient | null>(null);
+  if (!ref.current) ref.current = create();
+  const client = ref.current;
+  useEffect(() => () => client.destroy(), [client]);
+  return client;
+};
+
+export const usePeerLink = (): PeerLinkClient => {
+  const client = useContext(PeerLinkContext);
+  if (!client) throw new Error('usePeerLink must be used inside PeerLinkContext');
+  return client;
+};
+
+// 不传 client 时取自 PeerLinkContext
+export const usePeerLinkState = (client?: PeerLinkClient): PeerLinkState => {
+  const fromContext = useContext(PeerLinkContext);
+  const target = client || fromContext;
+  if (!target) throw new Error('usePeerLinkState needs a client or PeerLinkContext');
+  const subscribe = useCallback((listener: () => void) => target.on('state', listener), [target]);
+  return useSyncExternalStore(subscribe, target.getState);
+};
+
+/*
+ * 订阅只建立一次，回调总是调用最新一次渲染传入的 handler，
+ * 因此处理函数里可以直接读取 state，不会拿到过期的闭包。
+ */
+export const usePeerLinkEvent = <K extends keyof PeerLinkEvents>(
+  client: PeerLinkClient, event: K, handler: PeerLinkEvents[K]
+) => {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  useEffect(
+    () => client.on(event, ((...args: any[]) => (handlerRef.current as any)(...args)) as PeerLinkEvents[K]),
+    [client, event]
+  );
+};
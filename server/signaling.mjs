@@ -0,0 +1,296 @@
+// 自带的 PeerJS 兼容信令服务器：只用 Node 内置模块，局域网或离线 CI 中 `npm run signaling` 即可
+//   PORT（默认 9000）、HOST（默认 0.0.0.0）、PEER_PATH（默认 /）、PEER_KEY（默认 peerjs）
+// 只转发握手消息（OFFER/ANSWER/CANDIDATE/LEAVE），聊天与文件始终走点对点直连
+import { createServer } from 'node:http';
+import { createHash, randomBytes } from 'node:crypto';
+
+const PORT = Number(process.env.PORT || 9000);
+const HOST = process.env.HOST || '0.0.0.0';
+const KEY = process.env.PEER_KEY || 'peerjs';
+const PATH = (() => {
+  const raw = process.env.PEER_PATH || '/';
+  const withLead = raw.startsWith('/') ? raw : `/${raw}`;
+  return withLead.endsWith('/') ? withLead : `${withLead}/`;
+})();
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// 单条信令（SDP）通常只有几 KB
+const MAX_MESSAGE = 256 * 1024;
+// 对端不在线时消息暂存的时长，过期后告知发送方 peer-unavailable
+const EXPIRE_TIMEOUT = 5000;
+// 客户端每 5 秒发一次 HEARTBEAT，超过这个时长没有任何消息视为掉线
+const ALIVE_TIMEOUT = 60000;
+const RELAYED = new Set(['OFFER', 'ANSWER', 'CANDIDATE', 'LEAVE', 'EXPIRE']);
+// 暂存上限：一次握手的 OFFER 与全部 CANDIDATE 通常不到几十条，超出时丢弃最早的
+const MAX_PENDING_PER_DST = 100;
+const MAX_PENDING = 5000;
+// 每个客户端每秒最多转发的消息数，超出的直接丢弃
+const RATE_LIMIT = 50;
+
+// id → { id, token, socket, lastSeen, window, relayed }
+const clients = new Map();
+// 尚未投递的消息 { message, at }
+let pending = [];
+
+const log = (...args) => console.log(new Date().toISOString(), ...args);
+
+// ---- 最小化的 WebSocket（RFC 6455）实现：只处理文本帧、ping 与 close ----
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.alloc(2);
+    header[1] = length;
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  header[0] = 0x80 | opcode;
+  return Buffer.concat([header, payload]);
+};
+
+const openSocket = (socket, onText, onClose) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = null;
+  let closed = false;
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    closed = true;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    socket.end(encodeFrame(0x8, payload));
+    onClose();
+  };
+
+  const send = (message) => {
+    if (!closed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  };
+
+  const readFrames = () => {
+    while (buffer.length >= 2) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // 浏览器发来的帧必须带掩码
+      if (!masked) return close(1002);
+      if (length > MAX_MESSAGE) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (opcode === 0x8) return close();
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+        continue;
+      }
+      if (opcode === 0xa || opcode === 0x2) continue;
+      if (opcode === 0x1) fragments = [payload];
+      else if (opcode === 0x0 && fragments) fragments.push(payload);
+      else return close(1002);
+      const total = fragments.reduce((sum, part) => sum + part.length, 0);
+      if (total > MAX_MESSAGE) return close(1009);
+      if (fin) {
+        const text = Buffer.concat(fragments).toString('utf8');
+        fragments = null;
+        onText(text);
+      }
+    }
+  };
+
+  socket.on('data', chunk => {
+    buffer = Buffer.concat([buffer, chunk]);
+    readFrames();
+  });
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return { send, close };
+};
+
+// ---- PeerJS 信令协议 ----
+
+const deliver = (message) => {
+  const target = clients.get(message.dst);
+  if (target) {
+    target.socket.send(message);
+    return true;
+  }
+  return false;
+};
+
+const enqueue = (message) => {
+  const queued = pending.filter(entry => entry.message.dst === message.dst);
+  if (queued.length >= MAX_PENDING_PER_DST) {
+    const oldest = queued[0];
+    pending = pending.filter(entry => entry !== oldest);
+  }
+  if (pending.length >= MAX_PENDING) pending.shift();
+  pending.push({ message, at: Date.now() });
+};
+
+const withinRate = (client) => {
+  const now = Date.now();
+  if (now - client.window >= 1000) {
+    client.window = now;
+    client.relayed = 0;
+  }
+  return ++client.relayed <= RATE_LIMIT;
+};
+
+const handleMessage = (client, text) => {
+  client.lastSeen = Date.now();
+  let message;
+  try {
+    message = JSON.parse(text);
+  } catch (e) {
+    return;
+  }
+  if (!message || !RELAYED.has(message.type) || typeof message.dst !== 'string') return;
+  if (!withinRate(client)) return;
+  const relayed = { type: message.type, src: client.id, dst: message.dst, payload: message.payload };
+  // 离开的消息无需暂存；其余等对端上线后补投
+  if (!deliver(relayed) && message.type !== 'LEAVE' && message.type !== 'EXPIRE') {
+    enqueue(relayed);
+  }
+};
+
+const connectClient = (socket, url) => {
+  const id = url.searchParams.get('id');
+  const token = url.searchParams.get('token');
+  let client = null;
+  const ws = openSocket(
+    socket,
+    text => client && handleMessage(client, text),
+    () => {
+      if (client && clients.get(client.id) === client) {
+        clients.delete(client.id);
+        log(`- ${client.id} (${clients.size} online)`);
+      }
+    }
+  );
+
+  if (url.searchParams.get('key') !== KEY) {
+    ws.send({ type: 'INVALID-KEY', payload: { msg: `Invalid key provided` } });
+    return ws.close();
+  }
+  if (!id || !token) {
+    ws.send({ type: 'ERROR', payload: { msg: 'No id or token supplied' } });
+    return ws.close();
+  }
+  const existing = clients.get(id);
+  // 同一令牌视为断线重连，接管旧连接；否则 ID 已被他人占用
+  if (existing && existing.token !== token) {
+    ws.send({ type: 'ID-TAKEN', payload: { msg: 'ID is taken' } });
+    return ws.close();
+  }
+  client = { id, token, socket: ws, lastSeen: Date.now(), window: 0, relayed: 0 };
+  clients.set(id, client);
+  if (existing) existing.socket.close();
+  ws.send({ type: 'OPEN' });
+  log(`+ ${id} (${clients.size} online)`);
+
+  pending = pending.filter(entry => !(entry.message.dst === id && deliver(entry.message)));
+};
+
+// 过期未投递的消息按发送方/目标去重后回报 EXPIRE；长时间无心跳的客户端断开
+const sweep = () => {
+  const now = Date.now();
+  const reported = new Set();
+  pending = pending.filter(({ message, at }) => {
+    if (now - at < EXPIRE_TIMEOUT) return true;
+    const pair = `${message.src}>${message.dst}`;
+    if (!reported.has(pair)) {
+      reported.add(pair);
+      deliver({ type: 'EXPIRE', src: message.dst, dst: message.src });
+    }
+    return false;
+  });
+  clients.forEach(client => {
+    if (now - client.lastSeen > ALIVE_TIMEOUT) client.socket.close(1001);
+  });
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': typeof body === 'string' ? 'text/plain' : 'application/json',
+    'Access-Control-Allow-Origin': '*'
+  });
+  res.end(typeof body === 'string' ? body : JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Methods': 'GET' });
+    return res.end();
+  }
+  if (pathname === PATH) {
+    return sendJson(res, 200, { name: 'P2P Link signaling', description: 'PeerJS-compatible signaling server' });
+  }
+  // 未指定 ID 时 PeerJS 客户端会先来这里领取一个
+  if (pathname === `${PATH}${KEY}/id`) {
+    return sendJson(res, 200, randomBytes(8).toString('hex'));
+  }
+  if (pathname === `${PATH}${KEY}/peers`) {
+    return sendJson(res, 401, { error: 'Peer listing is disabled' });
+  }
+  sendJson(res, 404, { error: 'Not found' });
+});
+
+server.on('upgrade', (req, socket) => {
+  const url = new URL(req.url, 'http://localhost');
+  const key = req.headers['sec-websocket-key'];
+  if (url.pathname !== `${PATH}peerjs` || !key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  socket.setNoDelay(true);
+  connectClient(socket, url);
+});
+
+const sweeper = setInterval(sweep, 1000);
+
+server.listen(PORT, HOST, () => {
+  log(`Signaling on ws://${HOST}:${PORT}${PATH}peerjs (key "${KEY}")`);
+});
+
+const shutdown = () => {
+  clearInterval(sweeper);
+  clients.forEach(client => client.socket.close(1001));
+  server.close(() => process.exit(0));
+  setTimeout(() => process.exit(0), 1000).unref();
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
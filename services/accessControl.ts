@@ -0,0 +1,62 @@
+// 来访连接的准入规则：黑名单与一次性 PIN 都只保存在本机
+const BLOCKED_STORAGE = 'p2p-link:blocked';
+const JOIN_PIN_STORAGE = 'p2p-link:join-pin';
+const PIN_PATTERN = /^\d{4,8}$/;
+
+// 等待用户确认的时长，超时按拒绝处理
+export const APPROVAL_TIMEOUT = 30000;
+// 被拒绝的一方会自动重连，冷却期内直接拒绝，不再反复弹窗
+export const REJECT_COOLDOWN = 5 * 60 * 1000;
+
+export type LinkVerdict = 'accept' | 'ask' | 'reject';
+
+const readBlocked = (): string[] => {
+  try {
+    return JSON.parse(localStorage.getItem(BLOCKED_STORAGE) || '[]');
+  } catch (e) {
+    return [];
+  }
+};
+
+export const loadBlocked = (): string[] => readBlocked();
+
+export const isBlocked = (peerId: string): boolean => readBlocked().includes(peerId);
+
+export const blockPeer = (peerId: string): string[] => {
+  const blocked = Array.from(new Set([...readBlocked(), peerId]));
+  localStorage.setItem(BLOCKED_STORAGE, JSON.stringify(blocked));
+  return blocked;
+};
+
+export const unblockPeer = (peerId: string): string[] => {
+  const blocked = readBlocked().filter(id => id !== peerId);
+  localStorage.setItem(BLOCKED_STORAGE, JSON.stringify(blocked));
+  return blocked;
+};
+
+export const normalizePin = (text: string): string | null => {
+  const pin = text.trim();
+  return PIN_PATTERN.test(pin) ? pin : null;
+};
+
+export const loadJoinPin = (): string | null => localStorage.getItem(JOIN_PIN_STORAGE);
+
+export const saveJoinPin = (pin: string | null) => {
+  if (pin) localStorage.setItem(JOIN_PIN_STORAGE, pin);
+  else localStorage.removeItem(JOIN_PIN_STORAGE);
+};
+
+/*
+ * 判定顺序：黑名单 → 本次已放行的对端（断线重连）→ PIN。
+ * 设置了 PIN 时它就是邀请凭据：对上即放行并作废，对不上直接拒绝；未设置 PIN 则交给用户确认。
+ */
+export const judgeIncoming = (
+  peerId: string, suppliedPin: unknown, approved: boolean, joinPin: string | null
+): { verdict: LinkVerdict; reason?: string } => {
+  if (isBlocked(peerId)) return { verdict: 'reject', reason: 'blocked' };
+  if (approved) return { verdict: 'accept' };
+  if (joinPin) {
+    return suppliedPin === joinPin ? { verdict: 'accept', reason: 'pin' } : { verdict: 'reject', reason: 'wrong or missing PIN' };
+  }
+  return { verdict: 'ask' };
+};
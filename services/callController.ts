@@ -0,0 +1,353 @@
+import {
+  CallAction, CallEndReason, CallKind, CallMediaState, CallRecordingState, CallSignal, ChatMessage, LogEntry, MessageType,
+  VideoSource
+} from '../types';
+import {
+  CONNECT_TIMEOUT, CallSession, DEFAULT_REMOTE_MEDIA, END_LINGER, RING_GRACE, RING_TIMEOUT, RemoteMediaState,
+  createCallSession, describeCallEnd, isCallBusy
+} from './callSession';
+import { CallStats, STATS_INTERVAL, adaptEncoding, createEncodingAdapter, createStatsSampler, sampleStats } from './callStats';
+import { createEmitter } from './emitter';
+import { MediaHandle } from './transport';
+
+/*
+ * 一对一通话的状态机：请求 → 响铃 → 接受后建立媒体连接 → 结束。信令走主链路的数据通道；
+ * 取流、换摄像头与共享屏幕属于设备，由上层通过 CallMedia 提供，这里只管流程、超时、统计与结束时的清理。
+ */
+export interface CallMedia {
+  // 打开麦克风/摄像头，被拒绝时为 null
+  acquire: (kind: CallKind) => Promise<any | null>;
+  // 当前发送的本地流，换摄像头或共享屏幕后会被替换
+  current: () => any | null;
+  // 本端麦克风、摄像头开关与视频来源，接通后同步给对方
+  state: () => { audio: boolean; video: boolean; source: VideoSource };
+  release: () => void;
+}
+
+// 不提供媒体时（例如 Node 中）拨出与接听都以取流失败结束
+export const NO_CALL_MEDIA: CallMedia = {
+  acquire: () => Promise.resolve(null),
+  current: () => null,
+  state: () => ({ audio: false, video: false, source: 'camera' }),
+  release: () => {}
+};
+
+export interface CallControllerOptions {
+  // 在主链路上发出通话信令，链路不可用时丢弃
+  signal: (type: MessageType, content: any) => void;
+  dial: (peerId: string, stream: any, metadata: any) => MediaHandle | null;
+  // 主链路已打开时为对端 ID
+  remotePeer: () => string | null;
+  media: CallMedia;
+  // 本机在别处通话（例如群通话）时来电回复忙
+  busy: () => boolean;
+}
+
+export type CallEvents = {
+  // 包括结束后短暂停留的 ended 阶段，之后为 null
+  'call-session': (session: CallSession | null) => void;
+  // 开始清理之前发出：上层可在释放轨道前停止录制
+  'call-ending': (session: CallSession) => void;
+  'call-stream': (stream: any | null) => void;
+  'call-remote-media': (state: RemoteMediaState) => void;
+  'call-remote-recording': (recording: boolean) => void;
+  'call-stats': (stats: CallStats | null) => void;
+  // 写入聊天记录的通话条目，包括忙线时直接回绝的来电
+  'call-log': (session: CallSession, outcome: CallEndReason) => void;
+  log: (message: string, level: LogEntry['level']) => void;
+};
+
+export const CALL_EVENTS: Record<keyof CallEvents, true> = {
+  'call-session': true, 'call-ending': true, 'call-stream': true, 'call-remote-media': true,
+  'call-remote-recording': true, 'call-stats': true, 'call-log': true, log: true
+};
+
+export interface CallController {
+  readonly session: CallSession | null;
+  // 当前通话的媒体连接，换轨道、录制远端画面时使用
+  readonly media: MediaHandle | null;
+  on: <K extends keyof CallEvents>(event: K, listener: CallEvents[K]) => () => void;
+  // 处理通话信令，其他类型返回 false
+  handle: (msg: ChatMessage) => boolean;
+  // 来访的媒体连接，只接受与当前已接听通话匹配的
+  answerMedia: (media: MediaHandle) => void;
+  start: (kind?: CallKind) => Promise<void>;
+  accept: () => Promise<void>;
+  // 挂断、拒接或取消，按当前阶段决定
+  end: () => void;
+  // 信令随数据通道断开，尚未接通的通话无法继续；已接通的媒体连接独立存在
+  linkClosed: (peerId: string) => void;
+  sendMediaState: () => void;
+  sendRecording: (recording: boolean) => void;
+}
+
+export const createCallController = (options: CallControllerOptions): CallController => {
+  const events = createEmitter<CallEvents>();
+  let session: CallSession | null = null;
+  let media: MediaHandle | null = null;
+  // 本次通话的取流过程；接通时等它完成再取当前的流
+  let pendingMedia: Promise<any | null> | null = null;
+  let timer: any = null;
+  let statsTimer: any = null;
+
+  const log = (message: string, level: LogEntry['level'] = 'info') => events.emit('log', message, level);
+
+  const update = (next: CallSession | null) => {
+    session = next;
+    events.emit('call-session', next);
+  };
+
+  const armTimer = (timeout: number, onTimeout: () => void) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(onTimeout, timeout);
+  };
+
+  const sendSignal = (type: MessageType, callId: string, action: CallAction) => {
+    options.signal(type, { callId, action } as CallSignal);
+  };
+
+  const acquire = (kind: CallKind) => (pendingMedia = options.media.acquire(kind));
+
+  const stopStats = () => {
+    if (statsTimer) clearInterval(statsTimer);
+    statsTimer = null;
+    events.emit('call-stats', null);
+  };
+
+  // 轮询媒体连接的统计数据，并据此调整发送端编码参数
+  const startStats = (handle: MediaHandle) => {
+    stopStats();
+    const sampler = createStatsSampler();
+    const adapter = createEncodingAdapter();
+    let routeLogged = false;
+    let sampling = false;
+    statsTimer = setInterval(async () => {
+      const pc: RTCPeerConnection | undefined = handle.peerConnection;
+      if (!pc || media !== handle) return stopStats();
+      if (sampling) return;
+      sampling = true;
+      try {
+        const stats = await sampleStats(pc, sampler);
+        if (!routeLogged && stats.candidateType) {
+          routeLogged = true;
+          log(`Media path: ${stats.candidateType === 'relay' ? 'relayed via TURN' : stats.candidateType}`, "info");
+        }
+        const previous = adapter.level;
+        const level = await adaptEncoding(pc, adapter, stats);
+        if (level !== null) {
+          log(`Video quality ${level > previous ? 'lowered' : 'raised'} (level ${level})`, level > previous ? "warn" : "info");
+        }
+        if (media === handle) events.emit('call-stats', { ...stats, encodingLevel: adapter.level });
+      } catch (e) {
+        // 连接关闭过程中 getStats 可能失败，下一轮再试
+      } finally {
+        sampling = false;
+      }
+    }, STATS_INTERVAL);
+  };
+
+  const sendMediaState = () => {
+    if (!session || !isCallBusy(session)) return;
+    const { audio, video, source } = options.media.state();
+    options.signal(MessageType.CALL_MEDIA, { callId: session.callId, audio, video, source } as CallMediaState);
+  };
+
+  const attach = (handle: MediaHandle) => {
+    media = handle;
+    handle.on('stream', (remote: any) => {
+      events.emit('call-stream', remote);
+      if (session && session.phase === 'connecting') {
+        if (timer) clearTimeout(timer);
+        log("Call synchronized", "success");
+        update({ ...session, phase: 'active', startedAt: Date.now() });
+        // 响铃期间可能已关麦或关摄像头，接通后同步给对方
+        sendMediaState();
+        startStats(handle);
+      }
+    });
+    // 本方挂断时会先清空 media，这里只处理对方或网络导致的关闭
+    handle.on('close', () => {
+      if (media === handle) finish('ended-by-remote');
+    });
+    handle.on('error', (err: any) => {
+      log(`Call Error: ${err.type}`, "error");
+      finish('failed', 'failed');
+    });
+  };
+
+  // 所有结束路径都汇聚到这里：通知对方（如需要）、释放媒体、写通话记录
+  const finish = (reason: CallEndReason, notify?: CallAction) => {
+    const current = session;
+    if (!current || !isCallBusy(current)) return;
+    if (timer) clearTimeout(timer);
+    stopStats();
+    events.emit('call-ending', current);
+    if (notify) sendSignal(MessageType.CALL_RESPONSE, current.callId, notify);
+    const handle = media;
+    media = null;
+    if (handle) handle.close();
+    pendingMedia = null;
+    options.media.release();
+    events.emit('call-stream', null);
+    events.emit('call-remote-media', DEFAULT_REMOTE_MEDIA);
+    events.emit('call-log', current, reason);
+    log(`${describeCallEnd(current.direction, reason, current.kind)} (${reason})`, reason === 'failed' ? "error" : "info");
+    update({ ...current, phase: 'ended', endReason: reason });
+    setTimeout(() => {
+      if (session?.callId === current.callId) update(null);
+    }, END_LINGER);
+  };
+
+  const start = async (kind: CallKind = 'video') => {
+    const peerId = options.remotePeer();
+    if (!peerId || isCallBusy(session)) return;
+    const next = createCallSession('outgoing', peerId, kind);
+    update(next);
+    log(kind === 'video' ? "Requesting camera/mic..." : "Requesting microphone...", "info");
+    const stream = await acquire(kind);
+    if (session?.callId !== next.callId) return;
+    if (!stream) {
+      log("Media access denied", "error");
+      finish('failed');
+      return;
+    }
+    log(`Calling ${peerId}...`, "info");
+    options.signal(MessageType.CALL_REQUEST, { callId: next.callId, action: 'request', kind } as CallSignal);
+    armTimer(RING_TIMEOUT, () => finish('missed', 'cancel'));
+  };
+
+  const handleRequest = (signal: CallSignal, senderId: string) => {
+    if (isCallBusy(session) || options.busy()) {
+      log(`Incoming call from ${senderId} while busy`, "warn");
+      sendSignal(MessageType.CALL_RESPONSE, signal.callId, 'busy');
+      events.emit('call-log', createCallSession('incoming', senderId, signal.kind || 'video', signal.callId), 'busy');
+      return;
+    }
+    log(`Incoming call: ${senderId}`, "success");
+    update(createCallSession('incoming', senderId, signal.kind || 'video', signal.callId));
+    armTimer(RING_TIMEOUT + RING_GRACE, () => finish('missed'));
+  };
+
+  const handleResponse = async (signal: CallSignal) => {
+    const current = session;
+    if (!current || current.callId !== signal.callId || !isCallBusy(current)) return;
+    switch (signal.action) {
+      case 'accept': {
+        if (current.direction !== 'outgoing' || current.phase !== 'ringing') return;
+        update({ ...current, phase: 'connecting' });
+        armTimer(CONNECT_TIMEOUT, () => finish('failed', 'failed'));
+        await pendingMedia;
+        // 响铃时可能切换过摄像头，取当前的流而不是最初获取的那个
+        const stream = options.media.current();
+        if (!stream || session?.callId !== current.callId) return;
+        const handle = options.dial(current.remotePeerId, stream, { callId: current.callId });
+        if (!handle) {
+          finish('failed', 'failed');
+          return;
+        }
+        attach(handle);
+        return;
+      }
+      case 'decline':
+        return finish('declined');
+      case 'busy':
+        return finish('busy');
+      case 'cancel':
+        return finish(current.phase === 'ringing' ? 'missed' : 'ended-by-remote');
+      case 'hangup':
+        return finish('ended-by-remote');
+      case 'failed':
+        return finish('failed');
+    }
+  };
+
+  const answerMedia = (handle: MediaHandle) => {
+    const current = session;
+    if (!current || current.direction !== 'incoming' || handle.peer !== current.remotePeerId || handle.metadata?.callId !== current.callId) {
+      log(`Rejected unexpected media call from ${handle.peer}`, "warn");
+      handle.close();
+      return;
+    }
+    pendingMedia?.then(() => {
+      const stream = options.media.current();
+      if (!stream || session?.callId !== current.callId) {
+        handle.close();
+        return;
+      }
+      handle.answer(stream);
+      attach(handle);
+    });
+  };
+
+  const accept = async () => {
+    const current = session;
+    if (!current || current.direction !== 'incoming' || current.phase !== 'ringing') return;
+    log("Answering...", "info");
+    update({ ...current, phase: 'connecting' });
+    armTimer(CONNECT_TIMEOUT, () => finish('failed', 'failed'));
+    const stream = await acquire(current.kind);
+    if (session?.callId !== current.callId) return;
+    if (!stream) {
+      log("Answer failed: Media blocked", "error");
+      finish('failed', 'failed');
+      return;
+    }
+    sendSignal(MessageType.CALL_RESPONSE, current.callId, 'accept');
+  };
+
+  const end = () => {
+    const current = session;
+    if (!current || !isCallBusy(current)) {
+      update(null);
+      return;
+    }
+    if (current.phase === 'ringing') {
+      if (current.direction === 'outgoing') finish('cancelled', 'cancel');
+      else finish('declined', 'decline');
+    } else {
+      finish('ended', 'hangup');
+    }
+  };
+
+  const handle = (msg: ChatMessage): boolean => {
+    if (msg.type === MessageType.CALL_REQUEST) {
+      handleRequest(msg.content as CallSignal, msg.senderId);
+    } else if (msg.type === MessageType.CALL_RESPONSE) {
+      handleResponse(msg.content as CallSignal);
+    } else if (msg.type === MessageType.CALL_MEDIA) {
+      const state = msg.content as CallMediaState;
+      if (state.callId === session?.callId) {
+        events.emit('call-remote-media', { audio: state.audio, video: state.video, source: state.source || 'camera' });
+      }
+    } else if (msg.type === MessageType.CALL_RECORDING) {
+      const state = msg.content as CallRecordingState;
+      if (state.callId === session?.callId) {
+        events.emit('call-remote-recording', state.recording);
+        log(state.recording ? "Peer started recording this call" : "Peer stopped recording", "warn");
+      }
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    get session() { return session; },
+    get media() { return media; },
+    on: events.on,
+    handle,
+    answerMedia,
+    start,
+    accept,
+    end,
+    linkClosed: peerId => {
+      if (session?.remotePeerId === peerId && (session.phase === 'ringing' || session.phase === 'connecting')) {
+        finish('failed');
+      }
+    },
+    sendMediaState,
+    sendRecording: recording => {
+      if (session) options.signal(MessageType.CALL_RECORDING, { callId: session.callId, recording } as CallRecordingState);
+    }
+  };
+};
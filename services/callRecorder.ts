@@ -0,0 +1,113 @@
+import { CallKind } from '../types';
+
+// 本地录制通话：WebAudio 混合双方声音，canvas 合成画面（远端全屏 + 本地小窗），MediaRecorder 编码
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_INTERVAL = 1000 / 30;
+const PIP_WIDTH = 320;
+const PIP_MARGIN = 24;
+
+const VIDEO_TYPES = ['video/mp4;codecs=avc1,mp4a', 'video/mp4', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const AUDIO_TYPES = ['audio/mp4', 'audio/webm;codecs=opus', 'audio/webm'];
+
+export interface CallRecorder {
+  mimeType: string;
+  startedAt: number;
+  stop: () => Promise<Blob>;
+}
+
+export const canRecordCalls = (): boolean =>
+  typeof MediaRecorder !== 'undefined' &&
+  typeof AudioContext !== 'undefined' &&
+  typeof HTMLCanvasElement.prototype.captureStream === 'function';
+
+const pickMimeType = (kind: CallKind): string =>
+  (kind === 'video' ? VIDEO_TYPES : AUDIO_TYPES).find(type => MediaRecorder.isTypeSupported(type)) || '';
+
+export const recordingFileName = (mimeType: string, startedAt: number): string => {
+  const stamp = new Date(startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  const audio = mimeType.startsWith('audio/');
+  const ext = mimeType.includes('mp4') ? (audio ? 'm4a' : 'mp4') : (audio ? 'weba' : 'webm');
+  return `call-${stamp}.${ext}`;
+};
+
+// 画面按比例铺满目标区域（居中裁切）
+const drawCover = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, x: number, y: number, w: number, h: number) => {
+  const scale = Math.max(w / video.videoWidth, h / video.videoHeight);
+  const sw = w / scale, sh = h / scale;
+  ctx.drawImage(video, (video.videoWidth - sw) / 2, (video.videoHeight - sh) / 2, sw, sh, x, y, w, h);
+};
+
+const hiddenVideo = (): HTMLVideoElement => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  return video;
+};
+
+/*
+ * 流通过 getter 读取：换摄像头、共享屏幕会替换本地 MediaStream，
+ * 每帧检查一次并重新绑定，录制不中断。
+ */
+export const startCallRecording = (
+  kind: CallKind, getLocal: () => MediaStream | null, getRemote: () => MediaStream | null
+): CallRecorder => {
+  const audioCtx = new AudioContext();
+  const mix = audioCtx.createMediaStreamDestination();
+  [getLocal(), getRemote()].forEach(stream => {
+    const tracks = stream?.getAudioTracks() || [];
+    if (tracks.length) audioCtx.createMediaStreamSource(new MediaStream(tracks)).connect(mix);
+  });
+
+  const tracks: MediaStreamTrack[] = [...mix.stream.getAudioTracks()];
+  let timer: any = null;
+  const videos = { local: hiddenVideo(), remote: hiddenVideo() };
+
+  if (kind === 'video') {
+    const canvas = document.createElement('canvas');
+    canvas.width = CANVAS_WIDTH;
+    canvas.height = CANVAS_HEIGHT;
+    const ctx = canvas.getContext('2d')!;
+    const bind = (video: HTMLVideoElement, stream: MediaStream | null) => {
+      if (video.srcObject === stream) return;
+      video.srcObject = stream;
+      if (stream) video.play().catch(() => {});
+    };
+    timer = setInterval(() => {
+      bind(videos.remote, getRemote());
+      bind(videos.local, getLocal());
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      if (videos.remote.readyState >= 2 && videos.remote.videoWidth) {
+        drawCover(ctx, videos.remote, 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      }
+      if (videos.local.readyState >= 2 && videos.local.videoWidth) {
+        const h = (PIP_WIDTH * videos.local.videoHeight) / videos.local.videoWidth;
+        drawCover(ctx, videos.local, CANVAS_WIDTH - PIP_WIDTH - PIP_MARGIN, CANVAS_HEIGHT - h - PIP_MARGIN, PIP_WIDTH, h);
+      }
+    }, FRAME_INTERVAL);
+    tracks.push(...canvas.captureStream(30).getVideoTracks());
+  }
+
+  const mimeType = pickMimeType(kind);
+  const recorder = new MediaRecorder(new MediaStream(tracks), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  recorder.start(1000);
+
+  const stop = () => new Promise<Blob>(resolve => {
+    const finish = () => {
+      clearInterval(timer);
+      tracks.forEach(t => t.stop());
+      videos.local.srcObject = null;
+      videos.remote.srcObject = null;
+      audioCtx.close().catch(() => {});
+      resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+    };
+    if (recorder.state === 'inactive') return finish();
+    recorder.onstop = finish;
+    recorder.stop();
+  });
+
+  return { mimeType: recorder.mimeType || mimeType, startedAt: Date.now(), stop };
+};
@@ -0,0 +1,87 @@
+import { CallDirection, CallEndReason, CallKind, CallLog, CallPhase, VideoSource } from '../types';
+import { v4 as uuidv4 } from 'uuid';
+
+// 通话信令走数据通道：请求 → 响铃 → 接受后才建立媒体连接
+export const RING_TIMEOUT = 30000;
+// 被叫方多等几秒，优先以主叫方发来的 cancel 为准
+export const RING_GRACE = 5000;
+export const CONNECT_TIMEOUT = 30000;
+export const END_LINGER = 2000;
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface LocalMediaState {
+  audio: boolean;
+  video: boolean;
+  facing: CameraFacing;
+  source: VideoSource;
+}
+
+export interface RemoteMediaState {
+  audio: boolean;
+  video: boolean;
+  source: VideoSource;
+}
+
+export const DEFAULT_MEDIA_STATE: LocalMediaState = { audio: true, video: true, facing: 'user', source: 'camera' };
+export const DEFAULT_REMOTE_MEDIA: RemoteMediaState = { audio: true, video: true, source: 'camera' };
+
+// iOS Safari 等不支持 getDisplayMedia 的浏览器上不显示共享屏幕按钮
+export const canShareScreen = (): boolean => !!navigator.mediaDevices?.getDisplayMedia;
+
+// facingMode 用 ideal，桌面端只有一个摄像头时也能打开
+export const videoConstraints = (facing: CameraFacing): MediaTrackConstraints => ({
+  facingMode: { ideal: facing },
+  width: { ideal: 1280 },
+  height: { ideal: 720 }
+});
+
+export interface CallSession {
+  callId: string;
+  direction: CallDirection;
+  kind: CallKind;
+  remotePeerId: string;
+  phase: CallPhase;
+  startedAt?: number;
+  endReason?: CallEndReason;
+}
+
+export const createCallSession = (
+  direction: CallDirection, remotePeerId: string, kind: CallKind, callId: string = uuidv4()
+): CallSession => ({ callId, direction, kind, remotePeerId, phase: 'ringing' });
+
+// 'ended' 阶段只是结束提示，可以接新电话
+export const isCallBusy = (session: CallSession | null): boolean => !!session && session.phase !== 'ended';
+
+export const callLogFor = (session: CallSession, outcome: CallEndReason): CallLog => ({
+  callId: session.callId,
+  direction: session.direction,
+  kind: session.kind,
+  outcome,
+  duration: session.startedAt ? Date.now() - session.startedAt : 0
+});
+
+export const formatCallDuration = (ms: number): string => {
+  const total = Math.floor(ms / 1000);
+  const seconds = String(total % 60).padStart(2, '0');
+  return `${Math.floor(total / 60)}:${seconds}`;
+};
+
+export const describeCallEnd = (direction: CallDirection, outcome: CallEndReason, kind: CallKind = 'video'): string => {
+  const outgoing = direction === 'outgoing';
+  switch (outcome) {
+    case 'ended':
+    case 'ended-by-remote':
+      return `${outgoing ? 'Outgoing' : 'Incoming'} ${kind === 'audio' ? 'voice' : 'video'} call`;
+    case 'declined':
+      return outgoing ? 'Call declined' : 'Declined call';
+    case 'busy':
+      return outgoing ? 'Peer is busy' : 'Missed call (busy)';
+    case 'missed':
+      return outgoing ? 'No answer' : 'Missed call';
+    case 'cancelled':
+      return 'Cancelled call';
+    default:
+      return 'Call failed';
+  }
+};
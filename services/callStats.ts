@@ -0,0 +1,156 @@
+// 通话质量统计：定期读取 getStats()，按两次采样的差值计算码率与丢包
+export const STATS_INTERVAL = 2000;
+
+export type CallQuality = 'good' | 'fair' | 'poor';
+
+export interface CallStats {
+  rtt: number | null; // ms
+  jitter: number | null; // ms
+  packetLoss: number | null; // 接收方向，0..1
+  outgoingLoss: number | null; // 对端回报的发送方向丢包，0..1
+  inboundBitrate: number; // bps
+  outboundBitrate: number;
+  frameRate: number | null;
+  resolution: string | null;
+  candidateType: string | null; // host / srflx / prflx / relay
+  quality: CallQuality;
+  encodingLevel: number;
+}
+
+interface Counters {
+  time: number;
+  bytesIn: number;
+  bytesOut: number;
+  lost: number;
+  received: number;
+}
+
+export interface StatsSampler {
+  prev: Counters | null;
+}
+
+// 发送端编码档位：丢包或延迟高时逐级降低码率和分辨率
+export const ENCODING_LEVELS = [
+  { maxBitrate: 1500000, scaleResolutionDownBy: 1 },
+  { maxBitrate: 800000, scaleResolutionDownBy: 1.5 },
+  { maxBitrate: 400000, scaleResolutionDownBy: 2 },
+  { maxBitrate: 200000, scaleResolutionDownBy: 4 }
+];
+const DEGRADE_LOSS = 0.05;
+const DEGRADE_RTT = 400;
+const RECOVER_LOSS = 0.02;
+const RECOVER_RTT = 200;
+// 连续多次良好才升档，避免来回抖动
+const RECOVER_SAMPLES = 5;
+
+export interface EncodingAdapter {
+  level: number;
+  calmSamples: number;
+}
+
+export const createStatsSampler = (): StatsSampler => ({ prev: null });
+
+export const createEncodingAdapter = (): EncodingAdapter => ({ level: 0, calmSamples: 0 });
+
+export const rateQuality = (stats: Pick<CallStats, 'rtt' | 'packetLoss' | 'outgoingLoss'>): CallQuality => {
+  const loss = Math.max(stats.packetLoss ?? 0, stats.outgoingLoss ?? 0);
+  const rtt = stats.rtt ?? 0;
+  if (loss > 0.08 || rtt > 500) return 'poor';
+  if (loss > 0.02 || rtt > 250) return 'fair';
+  return 'good';
+};
+
+export const sampleStats = async (pc: RTCPeerConnection, sampler: StatsSampler): Promise<CallStats> => {
+  const report = await pc.getStats();
+  const byId: Record<string, any> = {};
+  report.forEach((entry: any) => { byId[entry.id] = entry; });
+
+  let pair: any = null;
+  let videoIn: any = null;
+  let audioIn: any = null;
+  let remoteVideoIn: any = null;
+  const counters: Counters = { time: Date.now(), bytesIn: 0, bytesOut: 0, lost: 0, received: 0 };
+
+  report.forEach((entry: any) => {
+    switch (entry.type) {
+      case 'transport':
+        if (entry.selectedCandidatePairId) pair = byId[entry.selectedCandidatePairId];
+        break;
+      case 'candidate-pair':
+        // Firefox 没有 transport 报告，退而找已选中的候选对
+        if (!pair && entry.state === 'succeeded' && (entry.nominated || entry.selected)) pair = entry;
+        break;
+      case 'inbound-rtp':
+        counters.bytesIn += entry.bytesReceived || 0;
+        counters.lost += Math.max(0, entry.packetsLost || 0);
+        counters.received += entry.packetsReceived || 0;
+        if (entry.kind === 'video') videoIn = entry;
+        if (entry.kind === 'audio') audioIn = entry;
+        break;
+      case 'outbound-rtp':
+        counters.bytesOut += entry.bytesSent || 0;
+        break;
+      case 'remote-inbound-rtp':
+        if (entry.kind === 'video') remoteVideoIn = entry;
+        break;
+    }
+  });
+
+  const prev = sampler.prev;
+  sampler.prev = counters;
+  const seconds = prev ? (counters.time - prev.time) / 1000 : 0;
+  const rate = (now: number, before: number) => seconds > 0 ? Math.max(0, ((now - before) * 8) / seconds) : 0;
+  const lostDelta = prev ? counters.lost - prev.lost : 0;
+  const receivedDelta = prev ? counters.received - prev.received : 0;
+
+  const rttSeconds = pair?.currentRoundTripTime ?? remoteVideoIn?.roundTripTime;
+  const jitterSeconds = (videoIn || audioIn)?.jitter;
+  const stats = {
+    rtt: typeof rttSeconds === 'number' ? Math.round(rttSeconds * 1000) : null,
+    jitter: typeof jitterSeconds === 'number' ? Math.round(jitterSeconds * 1000) : null,
+    packetLoss: lostDelta + receivedDelta > 0 ? lostDelta / (lostDelta + receivedDelta) : null,
+    outgoingLoss: typeof remoteVideoIn?.fractionLost === 'number' ? remoteVideoIn.fractionLost : null,
+    inboundBitrate: prev ? rate(counters.bytesIn, prev.bytesIn) : 0,
+    outboundBitrate: prev ? rate(counters.bytesOut, prev.bytesOut) : 0,
+    frameRate: typeof videoIn?.framesPerSecond === 'number' ? Math.round(videoIn.framesPerSecond) : null,
+    resolution: videoIn?.frameWidth ? `${videoIn.frameWidth}x${videoIn.frameHeight}` : null,
+    candidateType: (pair && byId[pair.localCandidateId]?.candidateType) || null
+  };
+  return { ...stats, quality: rateQuality(stats), encodingLevel: 0 };
+};
+
+// 返回新的档位；未变化时返回 null
+export const adaptEncoding = async (
+  pc: RTCPeerConnection, adapter: EncodingAdapter, stats: CallStats
+): Promise<number | null> => {
+  const sender = pc.getSenders().find(s => s.track?.kind === 'video');
+  if (!sender) return null;
+  const loss = stats.outgoingLoss ?? stats.packetLoss ?? 0;
+  const rtt = stats.rtt ?? 0;
+  let level = adapter.level;
+
+  if (loss > DEGRADE_LOSS || rtt > DEGRADE_RTT) {
+    adapter.calmSamples = 0;
+    level = Math.min(ENCODING_LEVELS.length - 1, level + 1);
+  } else if (loss < RECOVER_LOSS && rtt < RECOVER_RTT) {
+    adapter.calmSamples++;
+    if (adapter.calmSamples >= RECOVER_SAMPLES) {
+      adapter.calmSamples = 0;
+      level = Math.max(0, level - 1);
+    }
+  } else {
+    adapter.calmSamples = 0;
+  }
+  if (level === adapter.level) return null;
+
+  const params = sender.getParameters();
+  // 部分 Safari 版本在协商完成前 encodings 为空，此时无法调整
+  if (!params.encodings?.length) return null;
+  params.encodings.forEach(encoding => Object.assign(encoding, ENCODING_LEVELS[level]));
+  await sender.setParameters(params);
+  adapter.level = level;
+  return level;
+};
+
+export const formatBitrate = (bps: number): string =>
+  bps >= 1000000 ? `${(bps / 1000000).toFixed(1)} Mbps` : `${Math.round(bps / 1000)} kbps`;
@@ -0,0 +1,183 @@
+import { ChatMessage, FolderContent, MessageType } from '../types';
+import { STORES, openDb, requestToPromise, transactionDone } from './db';
+import { ZipEntry, createZip, readZip } from './zip';
+
+// 聊天记录按对端 peerId 分组落盘；文件内容存放在 files 仓库，与接收端拼装结果共用同一份
+const MESSAGES = STORES.messages;
+const FILES = STORES.files;
+const ARCHIVE_VERSION = 1;
+const ARCHIVE_INDEX = 'conversation.json';
+
+interface StoredMessage extends ChatMessage {
+  peerId: string;
+  // 本机 ID 可能因冲突被更换，自己发出的消息载入时改写为当前 ID
+  fromSelf: boolean;
+  blobKeys?: string[];
+}
+
+interface ConversationArchive {
+  version: number;
+  peerId: string;
+  exportedAt: number;
+  messages: StoredMessage[];
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+  persisted: boolean;
+}
+
+// Blob 内容拆出去单独保存，记录里只留 key：单文件用消息 id（即 transferId），文件夹用各子传输 id
+const toRecord = (peerId: string, selfId: string, msg: ChatMessage): { record: StoredMessage; blobs: [string, Blob][] } => {
+  const fromSelf = msg.senderId === selfId;
+  if (msg.content instanceof Blob) {
+    return { record: { ...msg, peerId, fromSelf, content: null, blobKeys: [msg.id] }, blobs: [[msg.id, msg.content]] };
+  }
+  if (msg.type === MessageType.FOLDER && msg.content) {
+    const { manifest, files } = msg.content as FolderContent;
+    const blobs = Object.entries<Blob>(files);
+    return {
+      record: { ...msg, peerId, fromSelf, content: { manifest, files: {} }, blobKeys: blobs.map(([key]) => key) },
+      blobs
+    };
+  }
+  return { record: { ...msg, peerId, fromSelf }, blobs: [] };
+};
+
+const fromRecord = (record: StoredMessage, selfId: string, blobs: Record<string, Blob>): ChatMessage => {
+  const { peerId, fromSelf, blobKeys, ...stored } = record;
+  const msg: ChatMessage = fromSelf ? { ...stored, senderId: selfId } : stored;
+  if (!blobKeys) return msg;
+  if (msg.type === MessageType.FOLDER) {
+    const content = msg.content as FolderContent;
+    const files: Record<string, Blob> = {};
+    blobKeys.forEach(key => { if (blobs[key]) files[key] = blobs[key]; });
+    return { ...msg, content: { ...content, files } };
+  }
+  return { ...msg, content: blobs[blobKeys[0]] || null };
+};
+
+const readRecords = async (peerId: string): Promise<StoredMessage[]> => {
+  const db = await openDb();
+  const index = db.transaction(MESSAGES).objectStore(MESSAGES).index('peerId');
+  return requestToPromise(index.getAll(peerId)) as Promise<StoredMessage[]>;
+};
+
+const readBlobs = async (keys: string[]): Promise<Record<string, Blob>> => {
+  const db = await openDb();
+  const store = db.transaction(FILES).objectStore(FILES);
+  const values = await Promise.all(keys.map(key => requestToPromise(store.get(key))));
+  const blobs: Record<string, Blob> = {};
+  keys.forEach((key, i) => { if (values[i]) blobs[key] = values[i] as Blob; });
+  return blobs;
+};
+
+// 已在 files 仓库里的内容（接收端拼装时写入）不再重复写，避免大文件被复制一遍
+const writeRecords = async (records: StoredMessage[], blobs: [string, Blob][]): Promise<void> => {
+  const db = await openDb();
+  const store = db.transaction(FILES).objectStore(FILES);
+  const existing = await Promise.all(blobs.map(([key]) => requestToPromise(store.getKey(key))));
+  const tx = db.transaction([MESSAGES, FILES], 'readwrite');
+  records.forEach(record => tx.objectStore(MESSAGES).put(record));
+  blobs.forEach(([key, blob], i) => { if (existing[i] === undefined) tx.objectStore(FILES).put(blob, key); });
+  await transactionDone(tx);
+};
+
+export const saveMessages = async (peerId: string, selfId: string, messages: ChatMessage[]): Promise<void> => {
+  const records: StoredMessage[] = [];
+  const blobs: [string, Blob][] = [];
+  messages.forEach(msg => {
+    const converted = toRecord(peerId, selfId, msg);
+    records.push(converted.record);
+    blobs.push(...converted.blobs);
+  });
+  await writeRecords(records, blobs);
+};
+
+export const loadConversation = async (peerId: string, selfId: string): Promise<ChatMessage[]> => {
+  const records = await readRecords(peerId);
+  const blobs = await readBlobs(records.flatMap(r => r.blobKeys || []));
+  return records.sort((a, b) => a.timestamp - b.timestamp).map(r => fromRecord(r, selfId, blobs));
+};
+
+// 消息在 files 仓库中的内容：文件与语音以消息 id 为键，文件夹按清单中的全部子传输（包括尚未收完的）
+export const blobKeysOf = (msg: ChatMessage): string[] => {
+  if (msg.type === MessageType.FOLDER) return (msg.content as FolderContent | null)?.manifest.entries.map(e => e.transferId) || [];
+  const stored = msg.content instanceof Blob
+    || [MessageType.IMAGE, MessageType.VIDEO_FILE, MessageType.FILE, MessageType.VOICE].includes(msg.type);
+  return stored ? [msg.id] : [];
+};
+
+// 撤回时调用：记录随后会被改写为空内容，blobKeys 也随之丢失，必须先删掉内容本身
+export const deleteMessageFiles = async (msg: ChatMessage): Promise<void> => {
+  const keys = blobKeysOf(msg);
+  if (!keys.length) return;
+  const db = await openDb();
+  const tx = db.transaction(FILES, 'readwrite');
+  keys.forEach(key => tx.objectStore(FILES).delete(key));
+  await transactionDone(tx);
+};
+
+export const deleteConversation = async (peerId: string): Promise<void> => {
+  const records = await readRecords(peerId);
+  const db = await openDb();
+  const tx = db.transaction([MESSAGES, FILES], 'readwrite');
+  records.forEach(record => {
+    tx.objectStore(MESSAGES).delete([peerId, record.id]);
+    (record.blobKeys || []).forEach(key => tx.objectStore(FILES).delete(key));
+  });
+  await transactionDone(tx);
+};
+
+// 归档为 STORE 方式的 ZIP：conversation.json 索引 + files/<key> 原始内容，可在任意设备导入
+export const exportConversation = async (peerId: string): Promise<Blob> => {
+  const records = await readRecords(peerId);
+  const keys = records.flatMap(r => r.blobKeys || []);
+  const blobs = await readBlobs(keys);
+  const archive: ConversationArchive = {
+    version: ARCHIVE_VERSION,
+    peerId,
+    exportedAt: Date.now(),
+    messages: records.sort((a, b) => a.timestamp - b.timestamp)
+  };
+  const entries: ZipEntry[] = [
+    { path: ARCHIVE_INDEX, blob: new Blob([JSON.stringify(archive)], { type: 'application/json' }) },
+    ...Object.entries(blobs).map(([key, blob]) => ({ path: `files/${key}`, blob }))
+  ];
+  return createZip(entries);
+};
+
+export const importConversation = async (file: Blob): Promise<{ peerId: string; count: number }> => {
+  const entries = await readZip(file);
+  const index = entries.find(e => e.path === ARCHIVE_INDEX);
+  if (!index) throw new Error('Archive has no conversation index');
+  const archive = JSON.parse(await index.blob.text()) as ConversationArchive;
+  if (archive.version !== ARCHIVE_VERSION || !archive.peerId) throw new Error('Unsupported archive version');
+
+  const contents: Record<string, Blob> = {};
+  entries.forEach(e => { if (e.path.startsWith('files/')) contents[e.path.slice(6)] = e.blob; });
+  const blobs: [string, Blob][] = [];
+  archive.messages.forEach(record => {
+    record.peerId = archive.peerId;
+    (record.blobKeys || []).forEach(key => {
+      if (!contents[key]) return;
+      // ZIP 里没有 MIME 类型，按消息记录补回
+      const type = record.type === MessageType.FOLDER ? '' : record.mimeType || '';
+      blobs.push([key, new Blob([contents[key]], { type })]);
+    });
+  });
+  await writeRecords(archive.messages, blobs);
+  return { peerId: archive.peerId, count: archive.messages.length };
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  const persisted = navigator.storage.persisted ? await navigator.storage.persisted() : false;
+  return { usage, quota, persisted };
+};
+
+// 申请持久化存储，降低浏览器在空间紧张时清除记录的概率
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
@@ -0,0 +1,90 @@
+import { FileManifest } from '../types';
+import { STORES, openDb, requestToPromise, transactionDone } from './db';
+
+// 接收端分片落盘：内存占用与文件大小无关，页面刷新后可续传
+const TRANSFERS = STORES.transfers;
+const CHUNKS = STORES.chunks;
+const FILES = STORES.files;
+
+export interface StoredTransfer {
+  transferId: string;
+  senderId: string;
+  total: number;
+  fileName?: string;
+  manifest?: FileManifest;
+  // 房间成员等临时链路上的传输：刷新后无法续传，恢复时直接清理
+  scope?: string;
+}
+
+// 传输引擎依赖的分片存储；浏览器中为 IndexedDB，Node 中可换成 memoryTransferStore
+export interface TransferStore {
+  saveTransfer: (transfer: StoredTransfer) => Promise<void>;
+  putChunk: (transferId: string, index: number, data: ArrayBuffer) => Promise<void>;
+  listChunkIndices: (transferId: string) => Promise<number[]>;
+  loadPendingTransfers: () => Promise<StoredTransfer[]>;
+  assembleTransfer: (transferId: string, mimeType: string) => Promise<Blob>;
+  deleteTransfer: (transferId: string) => Promise<void>;
+  deleteFile: (transferId: string) => Promise<void>;
+}
+
+const chunkRange = (transferId: string) =>
+  IDBKeyRange.bound([transferId, 0], [transferId, Number.MAX_SAFE_INTEGER]);
+
+export const saveTransfer = async (transfer: StoredTransfer): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(TRANSFERS, 'readwrite');
+  tx.objectStore(TRANSFERS).put(transfer);
+  await transactionDone(tx);
+};
+
+export const putChunk = async (transferId: string, index: number, data: ArrayBuffer): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(CHUNKS, 'readwrite');
+  tx.objectStore(CHUNKS).put(new Blob([data]), [transferId, index]);
+  await transactionDone(tx);
+};
+
+export const listChunkIndices = async (transferId: string): Promise<number[]> => {
+  const db = await openDb();
+  const keys = await requestToPromise(db.transaction(CHUNKS).objectStore(CHUNKS).getAllKeys(chunkRange(transferId)));
+  return keys.map(key => (key as [string, number])[1]);
+};
+
+export const loadPendingTransfers = async (): Promise<StoredTransfer[]> => {
+  const db = await openDb();
+  return requestToPromise(db.transaction(TRANSFERS).objectStore(TRANSFERS).getAll());
+};
+
+/*
+ * 按序拼接分片并写入 files 仓库，再读回磁盘支撑的 Blob；
+ * 之后删除分片，避免同一份数据占两倍空间。
+ */
+export const assembleTransfer = async (transferId: string, mimeType: string): Promise<Blob> => {
+  const db = await openDb();
+  const parts = await requestToPromise(db.transaction(CHUNKS).objectStore(CHUNKS).getAll(chunkRange(transferId)));
+  const write = db.transaction(FILES, 'readwrite');
+  write.objectStore(FILES).put(new Blob(parts as Blob[], { type: mimeType }), transferId);
+  await transactionDone(write);
+  const blob = await requestToPromise(db.transaction(FILES).objectStore(FILES).get(transferId));
+  await deleteTransfer(transferId);
+  return blob as Blob;
+};
+
+export const deleteTransfer = async (transferId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([TRANSFERS, CHUNKS], 'readwrite');
+  tx.objectStore(TRANSFERS).delete(transferId);
+  tx.objectStore(CHUNKS).delete(chunkRange(transferId));
+  await transactionDone(tx);
+};
+
+export const deleteFile = async (transferId: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(FILES, 'readwrite');
+  tx.objectStore(FILES).delete(transferId);
+  await transactionDone(tx);
+};
+
+export const indexedDbTransferStore: TransferStore = {
+  saveTransfer, putChunk, listChunkIndices, loadPendingTransfers, assembleTransfer, deleteTransfer, deleteFile
+};
@@ -0,0 +1,104 @@
+// 本机固定 ID 与通讯录，均为小数据，放 localStorage 即可同步读取
+const DEVICE_ID_STORAGE = 'p2p-link:device-id';
+const CONTACTS_STORAGE = 'p2p-link:contacts';
+const ID_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // 去掉易混淆的 0/O、1/I
+const ID_LENGTH = 6;
+
+export interface Contact {
+  peerId: string;
+  nickname?: string;
+  lastSeen: number;
+  // 绑定的公钥指纹：同一短 ID 换了密钥即视为冒用
+  fingerprint?: string;
+}
+
+export const generatePeerId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(ID_LENGTH)))
+    .map(byte => ID_ALPHABET[byte % ID_ALPHABET.length])
+    .join('');
+
+export const loadDeviceId = (): string => {
+  const stored = localStorage.getItem(DEVICE_ID_STORAGE);
+  if (stored) return stored;
+  const id = generatePeerId();
+  localStorage.setItem(DEVICE_ID_STORAGE, id);
+  return id;
+};
+
+export const saveDeviceId = (id: string) => localStorage.setItem(DEVICE_ID_STORAGE, id);
+
+const readContacts = (): Record<string, Contact> => {
+  try {
+    return JSON.parse(localStorage.getItem(CONTACTS_STORAGE) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+const writeContacts = (contacts: Record<string, Contact>) =>
+  localStorage.setItem(CONTACTS_STORAGE, JSON.stringify(contacts));
+
+export const loadContacts = (): Contact[] =>
+  Object.values<Contact>(readContacts()).sort((a, b) => b.lastSeen - a.lastSeen);
+
+export const findContact = (peerId: string): Contact | undefined => readContacts()[peerId];
+
+export const updateContact = (peerId: string, changes: Partial<Contact>): Contact[] => {
+  const contacts = readContacts();
+  contacts[peerId] = { peerId, lastSeen: Date.now(), ...contacts[peerId], ...changes };
+  writeContacts(contacts);
+  return loadContacts();
+};
+
+export const removeContact = (peerId: string): Contact[] => {
+  const contacts = readContacts();
+  delete contacts[peerId];
+  writeContacts(contacts);
+  return loadContacts();
+};
+
+export const formatLastSeen = (time: number): string => {
+  const minutes = Math.floor((Date.now() - time) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return new Date(time).toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+// 配对链接 ?connect=ABC123：扫码或点击后直接发起连接
+const CONNECT_PARAM = 'connect';
+const PEER_ID_PATTERN = /^[A-Z0-9]{4,16}$/;
+
+const normalizePeerId = (text: string | null): string | null => {
+  const id = (text || '').trim().toUpperCase();
+  return PEER_ID_PATTERN.test(id) ? id : null;
+};
+
+export const pairingLink = (peerId: string): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(CONNECT_PARAM, peerId);
+  return url.toString();
+};
+
+// 二维码内容既可能是配对链接，也可能只是裸 ID
+export const parsePairingCode = (text: string): string | null => {
+  try {
+    return normalizePeerId(new URL(text.trim()).searchParams.get(CONNECT_PARAM));
+  } catch (e) {
+    return normalizePeerId(text);
+  }
+};
+
+// 读取启动参数后立即从地址栏移除，避免刷新时重复连接
+export const takeDeepLinkPeer = (): string | null => {
+  const url = new URL(window.location.href);
+  const id = normalizePeerId(url.searchParams.get(CONNECT_PARAM));
+  if (url.searchParams.has(CONNECT_PARAM)) {
+    url.searchParams.delete(CONNECT_PARAM);
+    window.history.replaceState(null, '', url.toString());
+  }
+  return id;
+};
@@ -0,0 +1,65 @@
+// 应用唯一的 IndexedDB：分片、已接收文件、聊天记录与本机密钥共用一个库
+const DB_NAME = 'p2p-link';
+const DB_VERSION = 4;
+
+export const STORES = {
+  transfers: 'transfers',
+  chunks: 'chunks',
+  files: 'files',
+  keys: 'keys',
+  messages: 'messages'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// 聊天记录以 [peerId, id] 为键，不同对话中 id 相同的消息（例如导入的归档）不会互相覆盖
+const createMessageStore = (db: IDBDatabase): IDBObjectStore => {
+  const store = db.createObjectStore(STORES.messages, { keyPath: ['peerId', 'id'] });
+  store.createIndex('peerId', 'peerId');
+  return store;
+};
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = event => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.transfers)) db.createObjectStore(STORES.transfers, { keyPath: 'transferId' });
+        if (!db.objectStoreNames.contains(STORES.chunks)) db.createObjectStore(STORES.chunks);
+        if (!db.objectStoreNames.contains(STORES.files)) db.createObjectStore(STORES.files);
+        if (!db.objectStoreNames.contains(STORES.keys)) db.createObjectStore(STORES.keys);
+        if (!db.objectStoreNames.contains(STORES.messages)) {
+          createMessageStore(db);
+        } else if (event.oldVersion < 4) {
+          // v3 及以前以 id 为键：读出全部记录后按新键重建
+          const existing = request.transaction!.objectStore(STORES.messages).getAll();
+          existing.onsuccess = () => {
+            db.deleteObjectStore(STORES.messages);
+            const store = createMessageStore(db);
+            existing.result.forEach(record => store.put(record));
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
@@ -0,0 +1,142 @@
+import { STORES, openDb, requestToPromise, transactionDone } from './db';
+
+// 应用层端到端加密：ECDH P-256 协商会话密钥，AES-GCM 加密每一帧
+const IDENTITY_KEY = 'identity';
+const KNOWN_KEYS_STORAGE = 'p2p-link:known-keys';
+const HKDF_INFO = 'p2p-link-e2e-v1';
+const IV_LENGTH = 12;
+
+const EMOJI = [
+  '🐶', '🐱', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮', '🐷', '🐸', '🐵', '🐔', '🐧', '🐦', '🦆',
+  '🦉', '🐴', '🦄', '🐝', '🦋', '🐌', '🐞', '🐢', '🐍', '🐙', '🦀', '🐬', '🐳', '🦈', '🐊', '🦒',
+  '🌵', '🌲', '🌻', '🍄', '🌙', '⭐', '🔥', '🌈', '❄️', '🍎', '🍋', '🍉', '🍇', '🍓', '🥕', '🌽',
+  '🍕', '🍩', '🎈', '🎁', '⚽', '🎸', '🚀', '⛵', '🚲', '⏰', '🔑', '🔔', '📎', '✏️', '💡', '⚓'
+];
+
+export interface Identity {
+  keyPair: CryptoKeyPair;
+  publicKey: string; // base64 raw P-256 公钥
+}
+
+export interface SafetyInfo {
+  remotePublicKey: string;
+  safetyNumber: string;
+  emoji: string;
+  fingerprint: string;
+}
+
+export const isE2ESupported = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary);
+};
+
+export const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const randomNonce = (): string => toBase64(crypto.getRandomValues(new Uint8Array(16)));
+
+const sha256 = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest('SHA-256', bytes));
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.length; });
+  return out;
+};
+
+// 本机长期身份密钥：私钥不可导出，存放在 IndexedDB
+export const loadIdentity = async (): Promise<Identity> => {
+  const db = await openDb();
+  let keyPair = await requestToPromise(db.transaction(STORES.keys).objectStore(STORES.keys).get(IDENTITY_KEY)) as CryptoKeyPair | undefined;
+  if (!keyPair) {
+    keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+    const tx = db.transaction(STORES.keys, 'readwrite');
+    tx.objectStore(STORES.keys).put(keyPair, IDENTITY_KEY);
+    await transactionDone(tx);
+  }
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+  return { keyPair, publicKey: toBase64(raw) };
+};
+
+/*
+ * 会话密钥 = HKDF(ECDH(本方私钥, 对方公钥))，盐为双方随机数。
+ * 双方按公钥排序拼接，保证两端得到相同的盐。
+ */
+export const deriveSessionKey = async (
+  identity: Identity, remotePublicKey: string, localNonce: string, remoteNonce: string
+): Promise<CryptoKey> => {
+  const remoteKey = await crypto.subtle.importKey(
+    'raw', fromBase64(remotePublicKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []
+  );
+  const secret = await crypto.subtle.deriveBits({ name: 'ECDH', public: remoteKey }, identity.keyPair.privateKey, 256);
+  const localFirst = identity.publicKey < remotePublicKey;
+  const salt = concat(
+    fromBase64(localFirst ? localNonce : remoteNonce),
+    fromBase64(localFirst ? remoteNonce : localNonce)
+  );
+  const hkdfKey = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt, info: new TextEncoder().encode(HKDF_INFO) },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptBytes = async (key: CryptoKey, plain: Uint8Array): Promise<Uint8Array> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  return concat(iv, cipher);
+};
+
+export const decryptBytes = async (key: CryptoKey, data: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: data.subarray(0, IV_LENGTH) }, key, data.subarray(IV_LENGTH)
+  ));
+
+// 安全码：对双方公钥排序后哈希，两端显示一致，可当面或电话核对
+export const computeSafetyInfo = async (localPublicKey: string, remotePublicKey: string): Promise<SafetyInfo> => {
+  const [a, b] = [localPublicKey, remotePublicKey].sort();
+  const hash = await sha256(concat(fromBase64(a), fromBase64(b)));
+  const groups: string[] = [];
+  for (let i = 0; i < 6; i++) {
+    const n = hash.slice(i * 5, i * 5 + 5).reduce((acc, byte) => acc * 256 + byte, 0);
+    groups.push(String(n % 100000).padStart(5, '0'));
+  }
+  const emoji = Array.from(hash.slice(0, 6)).map(byte => EMOJI[byte % EMOJI.length]).join(' ');
+  const fingerprint = Array.from(await sha256(fromBase64(remotePublicKey)))
+    .slice(0, 16).map(byte => byte.toString(16).padStart(2, '0')).join('');
+  return { remotePublicKey, safetyNumber: groups.join(' '), emoji, fingerprint };
+};
+
+const readKnownKeys = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(KNOWN_KEYS_STORAGE) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+// 只读取、不记录：对端未加密时用来判断它此前是否用过密钥
+export const knownKeyFor = (peerId: string): string | undefined => readKnownKeys()[peerId];
+
+// 首次见到即信任 (TOFU)；返回此前记录的指纹，供调用方判断是否变化
+export const checkKnownKey = (peerId: string, fingerprint: string): string | undefined => {
+  const known = readKnownKeys();
+  const previous = known[peerId];
+  if (!previous) {
+    known[peerId] = fingerprint;
+    localStorage.setItem(KNOWN_KEYS_STORAGE, JSON.stringify(known));
+  }
+  return previous;
+};
+
+export const trustKey = (peerId: string, fingerprint: string) => {
+  const known = readKnownKeys();
+  known[peerId] = fingerprint;
+  localStorage.setItem(KNOWN_KEYS_STORAGE, JSON.stringify(known));
+};
@@ -0,0 +1,30 @@
+// 极简事件分发：客户端与回环传输共用，不依赖 DOM 或 Node 的 EventEmitter
+export type EventMap = Record<string, (...args: any[]) => void>;
+
+export interface Emitter<E extends EventMap> {
+  // 返回取消订阅的函数
+  on: <K extends keyof E>(event: K, listener: E[K]) => () => void;
+  off: <K extends keyof E>(event: K, listener: E[K]) => void;
+  emit: <K extends keyof E>(event: K, ...args: Parameters<E[K]>) => void;
+}
+
+export const createEmitter = <E extends EventMap>(): Emitter<E> => {
+  const listeners = new Map<keyof E, Set<E[keyof E]>>();
+
+  const off = <K extends keyof E>(event: K, listener: E[K]) => {
+    listeners.get(event)?.delete(listener);
+  };
+
+  const on = <K extends keyof E>(event: K, listener: E[K]) => {
+    if (!listeners.has(event)) listeners.set(event, new Set());
+    listeners.get(event)!.add(listener);
+    return () => off(event, listener);
+  };
+
+  // 先复制一份，监听者在回调中取消订阅不影响本轮分发
+  const emit = <K extends keyof E>(event: K, ...args: Parameters<E[K]>) => {
+    Array.from(listeners.get(event) || []).forEach(listener => listener(...args));
+  };
+
+  return { on, off, emit };
+};
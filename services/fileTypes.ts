@@ -0,0 +1,43 @@
+import { MessageType } from '../types';
+
+// iOS 有时给出空的 File.type，按扩展名兜底
+const EXTENSION_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg', jpeg: 'image/jpeg', png: 'image/png', gif: 'image/gif', heic: 'image/heic', webp: 'image/webp',
+  mp4: 'video/mp4', mov: 'video/quicktime', m4v: 'video/x-m4v', webm: 'video/webm',
+  mp3: 'audio/mpeg', m4a: 'audio/mp4', aac: 'audio/aac', wav: 'audio/wav', ogg: 'audio/ogg',
+  pdf: 'application/pdf', zip: 'application/zip', txt: 'text/plain', json: 'application/json',
+  doc: 'application/msword', docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xls: 'application/vnd.ms-excel', xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+};
+
+export const resolveMimeType = (mimeType: string | undefined, fileName?: string): string => {
+  if (mimeType) return mimeType;
+  const extension = fileName?.split('.').pop()?.toLowerCase() || '';
+  return EXTENSION_TYPES[extension] || 'application/octet-stream';
+};
+
+// 只有浏览器能内联显示的图片和视频才用专门的气泡，其余一律作为通用文件
+export const messageTypeFor = (mimeType: string): MessageType => {
+  if (mimeType.startsWith('image/') && mimeType !== 'image/heic') return MessageType.IMAGE;
+  if (mimeType.startsWith('video/')) return MessageType.VIDEO_FILE;
+  return MessageType.FILE;
+};
+
+export const fileIcon = (mimeType: string = ''): string => {
+  if (mimeType.startsWith('image/')) return 'ph-file-image';
+  if (mimeType.startsWith('video/')) return 'ph-file-video';
+  if (mimeType.startsWith('audio/')) return 'ph-file-audio';
+  if (mimeType === 'application/pdf') return 'ph-file-pdf';
+  if (mimeType.includes('zip') || mimeType.includes('compressed')) return 'ph-file-zip';
+  if (mimeType.startsWith('text/') || mimeType.includes('json')) return 'ph-file-text';
+  if (mimeType.includes('sheet') || mimeType.includes('excel')) return 'ph-file-xls';
+  if (mimeType.includes('word')) return 'ph-file-doc';
+  return 'ph-file';
+};
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${Math.round(bytes)} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(2)} GB`;
+};
@@ -0,0 +1,94 @@
+import { FolderEntry } from '../types';
+
+export interface PickedFile {
+  file: File;
+  path: string;
+}
+
+export interface PickedFolder {
+  name: string;
+  files: PickedFile[];
+}
+
+export interface FolderTreeNode {
+  name: string;
+  path: string;
+  children: FolderTreeNode[];
+  entry?: FolderEntry;
+}
+
+// webkitdirectory 选择结果：按顶层目录分组，路径取自 webkitRelativePath
+export const foldersFromFileList = (files: FileList | File[]): PickedFolder[] => {
+  const groups: Record<string, PickedFile[]> = {};
+  Array.from(files).forEach(file => {
+    const path = (file as any).webkitRelativePath || file.name;
+    const root = path.split('/')[0];
+    (groups[root] = groups[root] || []).push({ file, path });
+  });
+  return Object.entries(groups).map(([name, files]) => ({ name, files }));
+};
+
+const readAllEntries = (reader: any): Promise<any[]> =>
+  new Promise((resolve, reject) => {
+    const all: any[] = [];
+    // readEntries 每次最多返回约 100 项，需要反复读取直到为空
+    const next = () => reader.readEntries((batch: any[]) => {
+      if (!batch.length) return resolve(all);
+      all.push(...batch);
+      next();
+    }, reject);
+    next();
+  });
+
+const walkEntry = async (entry: any, files: PickedFile[]): Promise<void> => {
+  if (entry.isFile) {
+    const file: File = await new Promise((resolve, reject) => entry.file(resolve, reject));
+    files.push({ file, path: entry.fullPath.replace(/^\//, '') });
+  } else if (entry.isDirectory) {
+    for (const child of await readAllEntries(entry.createReader())) await walkEntry(child, files);
+  }
+};
+
+// 拖放：目录展开为 PickedFolder，普通文件原样返回
+export const collectDropped = async (transfer: DataTransfer): Promise<{ folders: PickedFolder[]; files: File[] }> => {
+  const folders: PickedFolder[] = [];
+  const files: File[] = [];
+  const entries = Array.from(transfer.items || [])
+    .map(item => (item as any).webkitGetAsEntry?.())
+    .filter(Boolean);
+  if (!entries.length) return { folders, files: Array.from(transfer.files) };
+  for (const entry of entries) {
+    if (entry.isDirectory) {
+      const picked: PickedFile[] = [];
+      await walkEntry(entry, picked);
+      folders.push({ name: entry.name, files: picked });
+    } else {
+      files.push(await new Promise<File>((resolve, reject) => entry.file(resolve, reject)));
+    }
+  }
+  return { folders, files };
+};
+
+export const buildFolderTree = (name: string, entries: FolderEntry[]): FolderTreeNode => {
+  const root: FolderTreeNode = { name, path: '', children: [] };
+  [...entries].sort((a, b) => a.path.localeCompare(b.path)).forEach(entry => {
+    const segments = entry.path.split('/');
+    // 去掉与文件夹同名的顶层目录
+    if (segments.length > 1 && segments[0] === name) segments.shift();
+    let node = root;
+    segments.forEach((segment, i) => {
+      const path = segments.slice(0, i + 1).join('/');
+      let child = node.children.find(c => c.name === segment && !c.entry);
+      if (i === segments.length - 1) {
+        node.children.push({ name: segment, path, children: [], entry });
+        return;
+      }
+      if (!child) {
+        child = { name: segment, path, children: [] };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  });
+  return root;
+};
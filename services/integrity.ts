@@ -0,0 +1,28 @@
+import { FileManifest, IntegrityState } from '../types';
+import { createSha256 } from './sha256';
+
+export const MAX_VERIFY_RETRIES = 2;
+const HASH_SLICE = 1024 * 1024;
+
+// crypto.subtle 仅在安全上下文 (https / localhost) 中可用，只用于逐片摘要
+export const canVerify = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+export const sha256Hex = async (data: ArrayBuffer): Promise<string> => {
+  const hash = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(hash)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// 分段读取整文件摘要，避免把大文件一次性读进内存
+export const sha256Blob = async (blob: Blob): Promise<string> => {
+  const hasher = createSha256();
+  for (let offset = 0; offset < blob.size; offset += HASH_SLICE) {
+    hasher.update(await blob.slice(offset, offset + HASH_SLICE).arrayBuffer());
+  }
+  return hasher.digestHex();
+};
+
+export const verifyBlob = async (blob: Blob, manifest?: FileManifest): Promise<IntegrityState> => {
+  if (!manifest || !manifest.sha256) return 'unverified';
+  if (blob.size !== manifest.size) return 'corrupted';
+  return (await sha256Blob(blob)) === manifest.sha256 ? 'verified' : 'corrupted';
+};
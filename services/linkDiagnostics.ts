@@ -0,0 +1,148 @@
+import { ConnectionStatus, IceCandidateSummary, LinkFailure, LinkFailureReason, LinkStage } from '../types';
+
+// 握手总时长上限（从拨号到数据通道打开）
+export const HANDSHAKE_TIMEOUT = 45000; // 延长至 45 秒
+
+/*
+ * 主链路阶段的合法转换。任何阶段都可以回到 idle（销毁）或 signaling-connecting（重新登记）；
+ * failed 只由一次拨号走到终点产生，重连期间的失败在 reconnecting 内部退避。
+ */
+const TRANSITIONS: Record<LinkStage, LinkStage[]> = {
+  idle: ['signaling-connecting'],
+  'signaling-connecting': ['registered', 'reconnecting', 'dialing', 'connected'],
+  registered: ['dialing', 'ice-gathering', 'ice-checking', 'connected', 'reconnecting'],
+  dialing: ['ice-gathering', 'ice-checking', 'connected', 'failed', 'reconnecting', 'registered'],
+  'ice-gathering': ['ice-checking', 'connected', 'failed', 'reconnecting', 'registered'],
+  'ice-checking': ['connected', 'failed', 'reconnecting', 'registered'],
+  connected: ['degraded', 'reconnecting', 'registered', 'dialing'],
+  degraded: ['connected', 'reconnecting', 'registered', 'dialing'],
+  reconnecting: ['connected', 'registered', 'dialing'],
+  failed: ['dialing', 'registered', 'reconnecting', 'connected']
+};
+
+export const canTransition = (from: LinkStage, to: LinkStage): boolean =>
+  from === to || to === 'idle' || to === 'signaling-connecting' || TRANSITIONS[from].includes(to);
+
+// 拨号过程中的子阶段只前进不后退（候选收集在连通检查期间仍会继续）
+export const HANDSHAKE_STAGES: LinkStage[] = ['dialing', 'ice-gathering', 'ice-checking'];
+
+export const isHandshakeStage = (stage: LinkStage): boolean => HANDSHAKE_STAGES.includes(stage);
+
+export const isLaterHandshakeStage = (from: LinkStage, to: LinkStage): boolean =>
+  HANDSHAKE_STAGES.indexOf(to) > HANDSHAKE_STAGES.indexOf(from);
+
+export const statusForStage = (stage: LinkStage): ConnectionStatus => {
+  if (stage === 'connected' || stage === 'degraded') return ConnectionStatus.CONNECTED;
+  if (stage === 'failed') return ConnectionStatus.ERROR;
+  if (isHandshakeStage(stage)) return ConnectionStatus.CONNECTING;
+  return ConnectionStatus.DISCONNECTED;
+};
+
+export const STAGE_LABELS: Record<LinkStage, string> = {
+  idle: 'Offline',
+  'signaling-connecting': 'Reaching server',
+  registered: 'Online',
+  dialing: 'Dialing',
+  'ice-gathering': 'Gathering routes',
+  'ice-checking': 'Checking routes',
+  connected: 'Connected',
+  degraded: 'Unstable',
+  reconnecting: 'Reconnecting',
+  failed: 'Failed'
+};
+
+// PeerJS 的 err.type；unavailable-id 与重连期间的 peer-unavailable 由客户端自行处理
+const PEER_ERROR_REASONS: Record<string, LinkFailureReason> = {
+  'browser-incompatible': 'unsupported-browser',
+  'network': 'signaling-unreachable',
+  'server-error': 'signaling-unreachable',
+  'socket-error': 'signaling-unreachable',
+  'socket-closed': 'signaling-unreachable',
+  'disconnected': 'signaling-unreachable',
+  'invalid-key': 'signaling-rejected',
+  'ssl-unavailable': 'signaling-rejected',
+  'invalid-id': 'invalid-id',
+  'peer-unavailable': 'peer-offline',
+  'negotiation-failed': 'ice-failed',
+  'webrtc': 'negotiation-failed'
+};
+
+export const failureForError = (type: string): LinkFailureReason => PEER_ERROR_REASONS[type] || 'negotiation-failed';
+
+// 与对端无关、重新登记到信令后即可清除的失败
+export const isSignalingFailure = (reason: LinkFailureReason): boolean =>
+  reason === 'signaling-unreachable' || reason === 'signaling-rejected' || reason === 'unsupported-browser';
+
+// 超时时卡在哪一步决定原因：对方没有应答，还是应答后找不到可用路径
+export const failureForTimeout = (stage: LinkStage, answered: boolean): LinkFailureReason =>
+  !answered || stage === 'dialing' ? 'no-answer' : 'ice-timeout';
+
+export const FAILURE_TITLES: Record<LinkFailureReason, string> = {
+  'unsupported-browser': 'Browser not supported',
+  'signaling-unreachable': 'Server unreachable',
+  'signaling-rejected': 'Server refused',
+  'invalid-id': 'Invalid ID',
+  'peer-offline': 'Peer offline',
+  'no-answer': 'No answer',
+  'ice-timeout': 'Route not found',
+  'ice-failed': 'Direct link blocked',
+  'negotiation-failed': 'Negotiation failed',
+  'reconnect-exhausted': 'Link lost'
+};
+
+export const createCandidateSummary = (): IceCandidateSummary => ({ host: 0, srflx: 0, prflx: 0, relay: 0 });
+
+// 部分浏览器的 RTCIceCandidate 没有 type 字段，从 SDP 行里的 "typ xxx" 读取
+export const candidateType = (candidate: { type?: string | null; candidate?: string }): keyof IceCandidateSummary | null => {
+  const type = candidate.type || /\btyp (\w+)/.exec(candidate.candidate || '')?.[1];
+  return type === 'host' || type === 'srflx' || type === 'prflx' || type === 'relay' ? type : null;
+};
+
+export const describeCandidates = (summary: IceCandidateSummary): string =>
+  `${summary.host} host, ${summary.srflx + summary.prflx} srflx, ${summary.relay} relay`;
+
+export const describeRoute = (type: string | null): string => {
+  if (type === 'host') return 'direct (local network)';
+  if (type === 'srflx' || type === 'prflx') return 'direct (through NAT)';
+  if (type === 'relay') return 'TURN relay';
+  return 'unknown route';
+};
+
+// ICE 类失败的建议取决于本机收集到了哪些候选
+const iceRemedy = (candidates: IceCandidateSummary | null): string => {
+  if (!candidates) return 'Put both devices on the same Wi-Fi, or add a TURN server in network settings.';
+  if (candidates.host + candidates.srflx + candidates.prflx + candidates.relay === 0) {
+    return 'No network addresses were found. A VPN or privacy extension may be blocking WebRTC.';
+  }
+  if (candidates.srflx + candidates.prflx + candidates.relay === 0) {
+    return 'The STUN servers could not be reached. Use the same Wi-Fi, or check the ICE servers in network settings.';
+  }
+  if (candidates.relay === 0) {
+    return 'A firewall or strict NAT blocks direct links. Add a TURN server in network settings, or use the same Wi-Fi.';
+  }
+  return 'Even the TURN relay did not connect. Check its username, credential and port.';
+};
+
+export const remedyFor = (failure: LinkFailure, candidates: IceCandidateSummary | null): string => {
+  switch (failure.reason) {
+    case 'unsupported-browser':
+      return 'This browser has no WebRTC support. Open the app in a current Chrome, Safari or Firefox.';
+    case 'signaling-unreachable':
+      return 'Check your internet connection. With a custom signaling server, make sure it is running and reachable.';
+    case 'signaling-rejected':
+      return 'The signaling server rejected the key or TLS setting. Check them in network settings.';
+    case 'invalid-id':
+      return 'IDs may only contain letters, digits, dashes and underscores. Check the code.';
+    case 'peer-offline':
+      return 'They are not online. Ask them to open the app and keep it in front, then retry.';
+    case 'no-answer':
+      return 'Their device did not answer. Ask them to bring the app to the front, and check they use the same signaling server.';
+    case 'ice-timeout':
+    case 'ice-failed':
+      return iceRemedy(candidates);
+    case 'reconnect-exhausted':
+      return 'The link did not come back. Tap Reconnect once they are online again.';
+    default:
+      return 'The browsers could not agree on a connection. Both sides should reload the page and try again.';
+  }
+};
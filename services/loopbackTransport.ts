@@ -0,0 +1,316 @@
+import { createEmitter } from './emitter';
+import { LinkHandle, LinkOptions, MediaHandle, PeerHandle, PeerTransport, TransportListener } from './transport';
+
+/*
+ * 内存中的"信令 + 数据通道"：同一进程里的多个客户端互相拨号，不需要浏览器或网络。
+ * 延迟、抖动与丢包可随时调整，丢包只作用于未声明 reliable 的连接（与 WebRTC 可靠通道一致）；
+ * disconnect 模拟某一端断网（信令与全部直连立即中断），
+ * restore 之后由客户端自己 reconnect 重新上线。行为尽量贴近 PeerJS，包括未打开的连接关闭时不触发 close。
+ */
+export interface LinkConditions {
+  // 单程延迟（毫秒）
+  latency: number;
+  // 在延迟之上随机增加 0 ~ jitter 毫秒
+  jitter: number;
+  // 不可靠连接上每条数据被丢弃的概率 0 ~ 1；reliable 连接只受延迟与抖动影响
+  loss: number;
+}
+
+export interface LoopbackNetwork {
+  transport: PeerTransport;
+  setConditions: (next: Partial<LinkConditions>) => void;
+  disconnect: (peerId: string) => void;
+  restore: (peerId: string) => void;
+  // 当前已登记在信令上的 ID
+  online: () => string[];
+}
+
+interface LoopbackPeer extends PeerHandle {
+  links: Set<LoopbackLink>;
+  calls: Set<LoopbackMedia>;
+  emit: (event: string, ...args: any[]) => void;
+}
+
+interface LoopbackLink extends LinkHandle {
+  remote: LoopbackLink | null;
+  closed: boolean;
+  reliable: boolean;
+  pipe: Pipe;
+  emit: (event: string, ...args: any[]) => void;
+  drop: () => void;
+}
+
+interface LoopbackMedia extends MediaHandle {
+  remote: LoopbackMedia | null;
+  localStream: any;
+  closed: boolean;
+  emit: (event: string, ...args: any[]) => void;
+}
+
+interface Pipe {
+  push: (run: () => void) => void;
+  clear: () => void;
+}
+
+const DEFAULT_CONDITIONS: LinkConditions = { latency: 20, jitter: 0, loss: 0 };
+
+const peerError = (type: string, message: string) => Object.assign(new Error(message), { type });
+
+// 模拟序列化：发送后修改原对象不应影响对端收到的内容
+const copyData = (data: any): any => {
+  if (typeof data === 'string') return data;
+  if (data instanceof ArrayBuffer) return data.slice(0);
+  if (ArrayBuffer.isView(data)) return new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice().buffer;
+  return structuredClone(data);
+};
+
+// 用 (...args: any[]) 包一层，让内部的字符串事件名满足各 Handle 的事件签名
+const bindEvents = () => {
+  const events = createEmitter<Record<string, TransportListener>>();
+  return {
+    on: (event: string, listener: TransportListener) => { events.on(event, listener); },
+    off: (event: string, listener: TransportListener) => events.off(event, listener),
+    emit: (event: string, ...args: any[]) => events.emit(event, ...args)
+  };
+};
+
+export const createLoopbackNetwork = (initial: Partial<LinkConditions> = {}): LoopbackNetwork => {
+  let conditions: LinkConditions = { ...DEFAULT_CONDITIONS, ...initial };
+  const registry = new Map<string, LoopbackPeer>();
+  const offline = new Set<string>();
+
+  const delay = () => conditions.latency + Math.random() * conditions.jitter;
+
+  // 数据通道保序：同一方向的投递时间单调不减，由一个计时器按序取出
+  const createPipe = (): Pipe => {
+    const queue: { at: number; run: () => void }[] = [];
+    let timer: any = null;
+    let last = 0;
+    const pump = () => {
+      timer = null;
+      while (queue.length && queue[0].at <= Date.now()) queue.shift()!.run();
+      if (queue.length) timer = setTimeout(pump, queue[0].at - Date.now());
+    };
+    return {
+      push: run => {
+        last = Math.max(last, Date.now() + delay());
+        queue.push({ at: last, run });
+        if (!timer) timer = setTimeout(pump, last - Date.now());
+      },
+      clear: () => {
+        queue.length = 0;
+        clearTimeout(timer);
+        timer = null;
+      }
+    };
+  };
+
+  const isReachable = (peer: LoopbackPeer) => registry.get(peer.id) === peer && !offline.has(peer.id);
+
+  const createLink = (provider: LoopbackPeer, peerId: string, options: LinkOptions): LoopbackLink => {
+    const events = bindEvents();
+    const link: LoopbackLink = {
+      peer: peerId,
+      metadata: options.metadata,
+      serialization: options.serialization || 'binary',
+      open: false,
+      provider,
+      dataChannel: { bufferedAmount: 0 },
+      peerConnection: { connectionState: 'new' },
+      remote: null,
+      closed: false,
+      reliable: !!options.reliable,
+      pipe: createPipe(),
+      ...events,
+      send: data => {
+        const remote = link.remote;
+        if (!link.open || !remote) return;
+        if (!link.reliable && Math.random() < conditions.loss) return;
+        const copy = copyData(data);
+        link.pipe.push(() => {
+          if (remote.open) remote.emit('data', copy);
+        });
+      },
+      // 主动关闭：已发出的数据照常送达，关闭握手再多走一个单程后对端才收到 close
+      close: () => {
+        if (link.closed) return;
+        const remote = link.remote;
+        link.drop();
+        if (remote) link.pipe.push(() => setTimeout(() => remote.drop(), delay()));
+      },
+      // 立即断开，不再等待在途数据
+      drop: () => {
+        if (link.closed) return;
+        const wasOpen = link.open;
+        link.closed = true;
+        link.open = false;
+        link.peerConnection.connectionState = 'closed';
+        provider.links.delete(link);
+        if (wasOpen) link.emit('close');
+      }
+    };
+    return link;
+  };
+
+  const createMedia = (provider: LoopbackPeer, peerId: string, metadata: any, localStream: any): LoopbackMedia => {
+    const events = bindEvents();
+    const media: LoopbackMedia = {
+      peer: peerId,
+      metadata,
+      open: false,
+      peerConnection: null,
+      remote: null,
+      localStream,
+      closed: false,
+      ...events,
+      // 被叫接听：双方各自收到对方的流
+      answer: stream => {
+        const remote = media.remote;
+        if (media.closed || !remote) return;
+        media.localStream = stream;
+        setTimeout(() => {
+          if (media.closed || remote.closed) return;
+          media.open = remote.open = true;
+          media.emit('stream', remote.localStream);
+          remote.emit('stream', stream);
+        }, delay());
+      },
+      close: () => {
+        if (media.closed) return;
+        media.closed = true;
+        media.open = false;
+        provider.calls.delete(media);
+        media.emit('close');
+        const remote = media.remote;
+        if (remote) setTimeout(() => remote.close(), delay());
+      }
+    };
+    return media;
+  };
+
+  const createPeer = (peerId: string): LoopbackPeer => {
+    const events = bindEvents();
+
+    const register = () => setTimeout(() => {
+      if (peer.destroyed) return;
+      if (offline.has(peerId)) {
+        peer.disconnected = true;
+        peer.emit('error', peerError('network', 'Lost connection to server.'));
+        return;
+      }
+      const holder = registry.get(peerId);
+      if (holder && holder !== peer) {
+        peer.emit('error', peerError('unavailable-id', `ID "${peerId}" is taken`));
+        return;
+      }
+      registry.set(peerId, peer);
+      peer.open = true;
+      peer.disconnected = false;
+      peer.emit('open', peerId);
+    }, delay());
+
+    const peer: LoopbackPeer = {
+      id: peerId,
+      open: false,
+      disconnected: false,
+      destroyed: false,
+      links: new Set(),
+      calls: new Set(),
+      ...events,
+      connect: (target, options = {}) => {
+        const link = createLink(peer, target, options);
+        peer.links.add(link);
+        // 先经过信令交换，再经过一次 ICE 往返才打开
+        setTimeout(() => {
+          if (link.closed) return;
+          if (!isReachable(peer)) {
+            peer.emit('error', peerError('disconnected', 'Cannot connect to new Peer after disconnecting from server.'));
+            return;
+          }
+          const remotePeer = registry.get(target);
+          if (!remotePeer || offline.has(target)) {
+            peer.emit('error', peerError('peer-unavailable', `Could not connect to peer ${target}`));
+            return;
+          }
+          const remote = createLink(remotePeer, peer.id, options);
+          remote.remote = link;
+          link.remote = remote;
+          remotePeer.links.add(remote);
+          remotePeer.emit('connection', remote);
+          setTimeout(() => {
+            if (link.closed || remote.closed) return;
+            link.open = remote.open = true;
+            link.peerConnection.connectionState = remote.peerConnection.connectionState = 'connected';
+            remote.emit('open');
+            link.emit('open');
+          }, delay());
+        }, delay());
+        return link;
+      },
+      call: (target, stream, options = {}) => {
+        const media = createMedia(peer, target, options.metadata, stream);
+        peer.calls.add(media);
+        setTimeout(() => {
+          if (media.closed) return;
+          const remotePeer = registry.get(target);
+          if (!isReachable(peer) || !remotePeer || offline.has(target)) {
+            peer.emit('error', peerError('peer-unavailable', `Could not connect to peer ${target}`));
+            return;
+          }
+          const remote = createMedia(remotePeer, peer.id, options.metadata, null);
+          remote.remote = media;
+          media.remote = remote;
+          remotePeer.calls.add(remote);
+          remotePeer.emit('call', remote);
+        }, delay());
+        return media;
+      },
+      reconnect: () => {
+        if (peer.destroyed || !peer.disconnected) return;
+        register();
+      },
+      destroy: () => {
+        if (peer.destroyed) return;
+        Array.from(peer.links).forEach(link => link.close());
+        Array.from(peer.calls).forEach(media => media.close());
+        if (registry.get(peerId) === peer) registry.delete(peerId);
+        peer.destroyed = true;
+        peer.open = false;
+        if (!peer.disconnected) {
+          peer.disconnected = true;
+          peer.emit('disconnected', peerId);
+        }
+        peer.emit('close');
+      }
+    };
+
+    register();
+    return peer;
+  };
+
+  const disconnect = (peerId: string) => {
+    offline.add(peerId);
+    const peer = registry.get(peerId);
+    if (!peer) return;
+    registry.delete(peerId);
+    // 断网时两端都是意外断开，不经过在途数据
+    Array.from(peer.links).forEach(link => {
+      const remote = link.remote;
+      link.pipe.clear();
+      link.drop();
+      if (remote) setTimeout(() => remote.drop(), delay());
+    });
+    Array.from(peer.calls).forEach(media => media.close());
+    peer.open = false;
+    peer.disconnected = true;
+    peer.emit('disconnected', peerId);
+  };
+
+  return {
+    transport: { createPeer: (peerId: string) => createPeer(peerId) },
+    setConditions: next => { conditions = { ...conditions, ...next }; },
+    disconnect,
+    restore: (peerId: string) => { offline.delete(peerId); },
+    online: () => Array.from(registry.keys())
+  };
+};
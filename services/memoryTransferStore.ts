@@ -0,0 +1,33 @@
+import { StoredTransfer, TransferStore } from './chunkStore';
+
+// 分片只放在内存里，进程结束即丢失；客户端未指定存储时的默认值，也供 Node 中的测试使用
+export const createMemoryTransferStore = (): TransferStore => {
+  const transfers = new Map<string, StoredTransfer>();
+  const chunks = new Map<string, Map<number, ArrayBuffer>>();
+
+  const deleteTransfer = async (transferId: string) => {
+    transfers.delete(transferId);
+    chunks.delete(transferId);
+  };
+
+  return {
+    saveTransfer: async transfer => {
+      transfers.set(transfer.transferId, transfer);
+    },
+    putChunk: async (transferId, index, data) => {
+      if (!chunks.has(transferId)) chunks.set(transferId, new Map());
+      chunks.get(transferId)!.set(index, data);
+    },
+    listChunkIndices: async transferId => Array.from(chunks.get(transferId)?.keys() || []),
+    loadPendingTransfers: async () => Array.from(transfers.values()),
+    assembleTransfer: async (transferId, mimeType) => {
+      const parts = Array.from(chunks.get(transferId)?.entries() || [])
+        .sort(([a], [b]) => a - b)
+        .map(([, data]) => data);
+      await deleteTransfer(transferId);
+      return new Blob(parts, { type: mimeType });
+    },
+    deleteTransfer,
+    deleteFile: async () => {}
+  };
+};
@@ -0,0 +1,89 @@
+import { ChatMessage, MessageEdit, MessageType } from '../types';
+
+// 回复、表情回应、编辑、撤回都以 refId 指向目标消息；后三者不单独显示，而是合并进目标消息
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+export const LONG_PRESS_DELAY = 450;
+
+const OP_TYPES = new Set([MessageType.REACTION, MessageType.EDIT, MessageType.RECALL]);
+
+export const isMessageOp = (msg: ChatMessage): boolean => OP_TYPES.has(msg.type);
+
+export const isTextual = (msg: ChatMessage): boolean => msg.type === MessageType.TEXT || msg.type === MessageType.REPLY;
+
+export const canEdit = (msg: ChatMessage, selfId: string): boolean =>
+  msg.senderId === selfId && isTextual(msg) && !msg.recalled;
+
+export const canRecall = (msg: ChatMessage, selfId: string): boolean =>
+  msg.senderId === selfId && !msg.recalled && msg.type !== MessageType.SYSTEM && msg.type !== MessageType.CALL_LOG;
+
+// 回应任何人都可以加；编辑与撤回只能由目标消息的发送者发起
+export const isPermittedOp = (target: ChatMessage, op: ChatMessage): boolean =>
+  op.type === MessageType.REACTION || op.senderId === target.senderId;
+
+/*
+ * 操作可能早于目标消息到达，也可能彼此乱序：
+ * 回应按发送者取时间戳最新的一条；编辑按时间戳决定当前内容，较早的只并入历史；撤回优先于一切。
+ * 同一操作重复应用不产生变化，重连补发时无需去重。
+ */
+export const applyOp = (target: ChatMessage, op: ChatMessage): ChatMessage => {
+  if (target.recalled) return target;
+  switch (op.type) {
+    case MessageType.REACTION: {
+      const current = target.reactions?.[op.senderId];
+      if (current && current.at >= op.timestamp) return target;
+      const emoji: string | null = op.content?.emoji || null;
+      return { ...target, reactions: { ...target.reactions, [op.senderId]: { emoji, at: op.timestamp } } };
+    }
+    case MessageType.EDIT: {
+      const text = op.content?.text;
+      if (!isPermittedOp(target, op) || typeof text !== 'string') return target;
+      const currentAt = target.editedAt || target.timestamp;
+      const edits = target.edits || [];
+      if (op.timestamp === currentAt || edits.some(e => e.editedAt === op.timestamp)) return target;
+      if (op.timestamp < currentAt) {
+        // 迟到的旧版本只进历史
+        const older: MessageEdit = { content: text, editedAt: op.timestamp };
+        return { ...target, edits: [...edits, older].sort((a, b) => a.editedAt - b.editedAt) };
+      }
+      const previous: MessageEdit = { content: target.content, editedAt: currentAt };
+      return { ...target, content: text, editedAt: op.timestamp, edits: [...edits, previous] };
+    }
+    case MessageType.RECALL:
+      if (!isPermittedOp(target, op)) return target;
+      return {
+        id: target.id, senderId: target.senderId, type: target.type, timestamp: target.timestamp,
+        content: null, recalled: true, delivery: target.delivery
+      };
+    default:
+      return target;
+  }
+};
+
+export const applyOps = (messages: ChatMessage[], ops: ChatMessage[]): ChatMessage[] => {
+  if (!ops.length) return messages;
+  const byTarget = new Map<string, ChatMessage[]>();
+  ops.forEach(op => byTarget.set(op.refId!, [...(byTarget.get(op.refId!) || []), op]));
+  return messages.map(m => byTarget.has(m.id) ? byTarget.get(m.id)!.reduce(applyOp, m) : m);
+};
+
+// 同一表情合并计数
+export const summarizeReactions = (msg: ChatMessage, selfId: string): { emoji: string; count: number; mine: boolean }[] => {
+  const summary = new Map<string, { emoji: string; count: number; mine: boolean }>();
+  Object.entries(msg.reactions || {}).forEach(([sender, reaction]) => {
+    if (!reaction.emoji) return;
+    const entry = summary.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, mine: false };
+    entry.count++;
+    entry.mine = entry.mine || sender === selfId;
+    summary.set(reaction.emoji, entry);
+  });
+  return Array.from(summary.values());
+};
+
+export const snippetOf = (msg: ChatMessage): string => {
+  if (msg.recalled) return 'Message unsent';
+  if (isTextual(msg)) return String(msg.content || '');
+  if (msg.type === MessageType.VOICE) return 'Voice message';
+  if (msg.type === MessageType.IMAGE) return 'Photo';
+  if (msg.type === MessageType.VIDEO_FILE) return 'Video';
+  return msg.fileName || 'Attachment';
+};
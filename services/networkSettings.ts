@@ -0,0 +1,169 @@
+// 信令服务器与 ICE（STUN/TURN）配置：保存在本机，可通过配置链接 ?config=... 导入
+const SETTINGS_STORAGE = 'p2p-link:network';
+const CONFIG_PARAM = 'config';
+const ICE_URL_PATTERN = /^(stun|stuns|turn|turns):[^\s]+$/i;
+const HOST_PATTERN = /^[a-z0-9.-]+$|^\[[0-9a-f:]+\]$/i;
+
+export interface SignalingServer {
+  host: string;
+  port: number;
+  // 以 / 开头和结尾，与 PeerJS 的拼接方式一致
+  path: string;
+  key: string;
+  secure: boolean;
+}
+
+export interface IceServerEntry {
+  urls: string;
+  username?: string;
+  credential?: string;
+}
+
+export interface NetworkSettings {
+  // null 表示使用 PeerJS 公共信令服务器
+  signaling: SignalingServer | null;
+  iceServers: IceServerEntry[];
+}
+
+export const DEFAULT_ICE_SERVERS: IceServerEntry[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+  { urls: 'stun:stun1.l.google.com:19302' },
+  { urls: 'stun:stun.anyfirewall.com:3478' },
+  { urls: 'stun:stun.sipgate.net:3478' },
+  { urls: 'stun:global.stun.twilio.com:3478' }
+];
+
+export const DEFAULT_NETWORK_SETTINGS: NetworkSettings = { signaling: null, iceServers: DEFAULT_ICE_SERVERS };
+
+// 与 server/signaling.mjs 的默认值一致
+export const LOCAL_SIGNALING: SignalingServer = {
+  host: window.location.hostname || 'localhost',
+  port: 9000,
+  path: '/',
+  key: 'peerjs',
+  secure: false
+};
+
+export const normalizePath = (path: string): string => {
+  const trimmed = path.trim() || '/';
+  const withLead = trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+  return withLead.endsWith('/') ? withLead : `${withLead}/`;
+};
+
+const sanitizeSignaling = (raw: any): SignalingServer | null => {
+  if (!raw || typeof raw !== 'object') return null;
+  const host = String(raw.host || '').trim();
+  const port = Number(raw.port);
+  if (!HOST_PATTERN.test(host) || !Number.isInteger(port) || port < 1 || port > 65535) return null;
+  return {
+    host,
+    port,
+    path: normalizePath(String(raw.path || '/')),
+    key: String(raw.key || '').trim() || 'peerjs',
+    secure: !!raw.secure
+  };
+};
+
+const sanitizeIceServer = (raw: any): IceServerEntry | null => {
+  const urls = String(raw?.urls || '').trim();
+  if (!ICE_URL_PATTERN.test(urls)) return null;
+  const entry: IceServerEntry = { urls };
+  if (raw.username) entry.username = String(raw.username);
+  if (raw.credential) entry.credential = String(raw.credential);
+  return entry;
+};
+
+// 任何来源（本地存储、链接、粘贴）都先过这一道；字段不合法即整体作废
+export const sanitizeNetworkSettings = (raw: any): NetworkSettings | null => {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.iceServers)) return null;
+  const signaling = raw.signaling ? sanitizeSignaling(raw.signaling) : null;
+  if (raw.signaling && !signaling) return null;
+  const iceServers = raw.iceServers.map(sanitizeIceServer);
+  if (iceServers.some((entry: IceServerEntry | null) => !entry)) return null;
+  return { signaling, iceServers };
+};
+
+export const loadNetworkSettings = (): NetworkSettings => {
+  try {
+    const saved = sanitizeNetworkSettings(JSON.parse(localStorage.getItem(SETTINGS_STORAGE) || 'null'));
+    return saved || DEFAULT_NETWORK_SETTINGS;
+  } catch (e) {
+    return DEFAULT_NETWORK_SETTINGS;
+  }
+};
+
+export const saveNetworkSettings = (settings: NetworkSettings) => {
+  localStorage.setItem(SETTINGS_STORAGE, JSON.stringify(settings));
+};
+
+export const resetNetworkSettings = () => localStorage.removeItem(SETTINGS_STORAGE);
+
+export const describeSignaling = (signaling: SignalingServer | null): string =>
+  signaling
+    ? `${signaling.secure ? 'wss' : 'ws'}://${signaling.host}:${signaling.port}${signaling.path}`
+    : 'PeerJS cloud';
+
+// 本机与房间门牌共用的连接配置
+export const peerOptionsFor = (settings: NetworkSettings) => ({
+  debug: 1,
+  ...(settings.signaling || {}),
+  config: {
+    iceServers: settings.iceServers,
+    sdpSemantics: 'unified-plan',
+  }
+});
+
+const encodeConfig = (settings: NetworkSettings): string => {
+  const bytes = new TextEncoder().encode(JSON.stringify(settings));
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const decodeConfig = (text: string): NetworkSettings | null => {
+  try {
+    const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+    return sanitizeNetworkSettings(JSON.parse(new TextDecoder().decode(bytes)));
+  } catch (e) {
+    return null;
+  }
+};
+
+// 注意：链接里包含 TURN 凭据，只应发给信任的人
+export const configLink = (settings: NetworkSettings): string => {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = '';
+  url.searchParams.set(CONFIG_PARAM, encodeConfig(settings));
+  return url.toString();
+};
+
+// 接受配置链接或直接粘贴的 JSON
+export const parseConfigText = (text: string): NetworkSettings | null => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    try {
+      return sanitizeNetworkSettings(JSON.parse(trimmed));
+    } catch (e) {
+      return null;
+    }
+  }
+  try {
+    const param = new URL(trimmed).searchParams.get(CONFIG_PARAM);
+    return param ? decodeConfig(param) : null;
+  } catch (e) {
+    return decodeConfig(trimmed);
+  }
+};
+
+// 与配对链接一样读取后即从地址栏移除；是否采用由调用方向用户确认
+export const takeDeepLinkConfig = (): NetworkSettings | null => {
+  const url = new URL(window.location.href);
+  const param = url.searchParams.get(CONFIG_PARAM);
+  if (param === null) return null;
+  url.searchParams.delete(CONFIG_PARAM);
+  window.history.replaceState(null, '', url.toString());
+  return decodeConfig(param);
+};
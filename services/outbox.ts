@@ -0,0 +1,62 @@
+import { ChatMessage, MessageType, SessionResume } from '../types';
+
+// 数据通道意外断开后自动重连：指数退避，附带随机抖动，超过次数上限后放弃
+export const RECONNECT_BASE_DELAY = 1000;
+export const RECONNECT_MAX_DELAY = 30000;
+export const RECONNECT_MAX_ATTEMPTS = 10;
+// 单次拨号等待打开的时间；对端不在线时信令会更早报 peer-unavailable
+export const DIAL_TIMEOUT = 10000;
+
+const OP_OUTBOX_STORAGE = 'p2p-link:op-outbox';
+
+export const reconnectDelay = (attempt: number): number =>
+  Math.round(Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt) * (0.8 + Math.random() * 0.4));
+
+// 双方同时拨号会互相顶掉连接，只由 ID 较小的一方主动重拨
+export const shouldRedial = (selfId: string, remoteId: string): boolean => selfId < remoteId;
+
+// 文件另有分片续传，补发只针对文本消息
+export const isResumable = (msg: ChatMessage): boolean => msg.type === MessageType.TEXT || msg.type === MessageType.REPLY;
+
+// 发送前去掉本地投递与已读状态
+export const toWire = ({ delivery, readAt, ...msg }: ChatMessage): ChatMessage => msg;
+
+export const lastSeenFrom = (messages: ChatMessage[], selfId: string): SessionResume => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg.senderId !== selfId && isResumable(msg)) return { lastSeenId: msg.id, lastSeenAt: msg.timestamp };
+  }
+  return { lastSeenId: null, lastSeenAt: 0 };
+};
+
+/*
+ * 对端最后收到的消息之后、本机发出的文本消息都要补发；发件箱里排队的无论位置一律发出。
+ * 对端已清空记录（lastSeenId 为 null）时只发排队中的，找不到该 ID 时退回按时间判断。
+ */
+export const resumeGap = (messages: ChatMessage[], selfId: string, resume: SessionResume): ChatMessage[] => {
+  // 已撤回的消息对方从未见过，不再补发
+  const own = messages.filter(m => m.senderId === selfId && isResumable(m) && m.delivery !== 'failed' && !m.recalled);
+  const index = resume.lastSeenId ? own.findIndex(m => m.id === resume.lastSeenId) : -1;
+  return own.filter((m, i) =>
+    m.delivery === 'queued' ||
+    (index >= 0 ? i > index : !!resume.lastSeenId && m.timestamp > resume.lastSeenAt)
+  );
+};
+
+// 断线时做的回应、编辑与撤回按对端存下，刷新页面后重连仍会发出
+const readOpOutboxes = (): Record<string, ChatMessage[]> => {
+  try {
+    return JSON.parse(localStorage.getItem(OP_OUTBOX_STORAGE) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadOpOutbox = (peerId: string): ChatMessage[] => readOpOutboxes()[peerId] || [];
+
+export const saveOpOutbox = (peerId: string, ops: ChatMessage[]) => {
+  const outboxes = readOpOutboxes();
+  if (ops.length) outboxes[peerId] = ops;
+  else delete outboxes[peerId];
+  localStorage.setItem(OP_OUTBOX_STORAGE, JSON.stringify(outboxes));
+};
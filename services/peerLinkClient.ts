@@ -0,0 +1,618 @@
+import {
+  ChatMessage, ConnectionStatus, IceCandidateSummary, LinkFailure, LinkFailureReason, LinkStage, LogEntry, MessageType,
+  ReconnectState
+} from '../types';
+import { Identity, SafetyInfo } from './e2eCrypto';
+import { channelFor, createSecureChannel } from './secureChannel';
+import { WIRE_FORMAT } from './wireCodec';
+import { DIAL_TIMEOUT, RECONNECT_MAX_ATTEMPTS, reconnectDelay, shouldRedial } from './outbox';
+import { createEmitter } from './emitter';
+import {
+  FAILURE_TITLES, HANDSHAKE_TIMEOUT, STAGE_LABELS, canTransition, candidateType, createCandidateSummary,
+  describeCandidates, describeRoute, failureForError, failureForTimeout, isHandshakeStage, isLaterHandshakeStage,
+  isSignalingFailure, remedyFor, statusForStage
+} from './linkDiagnostics';
+import { createStatsSampler, sampleStats } from './callStats';
+import { LinkHandle, MediaHandle, PeerHandle, PeerTransport } from './transport';
+import { TRANSFER_EVENTS, TransferEngine, TransferEvents, createTransferEngine } from './transferEngine';
+import { CALL_EVENTS, CallController, CallEvents, CallMedia, NO_CALL_MEDIA, createCallController } from './callController';
+import { ROOM_TRANSFER_EVENTS, RoomTransferEvents, RoomTransfers, createRoomTransfers } from './roomTransfers';
+import { TransferStore } from './chunkStore';
+import { v4 as uuidv4 } from 'uuid';
+
+/*
+ * 与界面无关的连接层：管理本机在信令上的登记、与当前会话对端的主链路（加密、断线重连），
+ * 并持有主链路上的文件传输（transfers）、房间成员直连上的文件传输（roomFiles）与一对一通话（calls），
+ * 它们的事件也从这里发出。
+ * 房间等上层逻辑订阅这里的事件，通过 send/sendTo 发出消息。
+ * 不访问 window 或本地存储，换上 loopbackTransport 与内存分片存储即可在 Node 中运行。
+ */
+const ID_RETRY_LIMIT = 3;
+const ID_RETRY_DELAY = 3000;
+// 检查信令是否掉线、数据通道 ICE 是否已失败
+const WATCHDOG_INTERVAL = 15000;
+const FAREWELL_TIMEOUT = 1000;
+
+export type LogLevel = LogEntry['level'];
+
+export interface PeerLinkOptions {
+  transport: PeerTransport;
+  // 每次创建 Peer 时取一次，PeerJS 下即信令与 ICE 配置
+  peerOptions?: () => any;
+  // 每条主链路建立时取一次，返回 null 表示不加密
+  identity?: () => Promise<Identity | null>;
+  // 本机 ID 被其他设备占用时换用的新 ID
+  generateId: () => string;
+  // 接收文件的分片存储，缺省放在内存里（刷新后不能续传）
+  transferStore?: TransferStore;
+  // 通话的取流与设备，缺省时无法通话
+  media?: CallMedia;
+  // 本机在别处通话（例如群通话）时对来电回复忙
+  busy?: () => boolean;
+}
+
+export interface PeerLinkState {
+  // 本机 ID
+  peerId: string;
+  // 已在信令服务器上登记
+  online: boolean;
+  // 主链路阶段；status 由它推导，供只关心是否连通的界面使用
+  stage: LinkStage;
+  status: ConnectionStatus;
+  // 最近一次失败，重新拨号或恢复后清除
+  failure: LinkFailure | null;
+  // 本机为当前拨出链路收集到的 ICE 候选，传输层不提供时为 null
+  candidates: IceCandidateSummary | null;
+  // 连通后选中的本地候选类型（host / srflx / prflx / relay）
+  route: string | null;
+  // 当前会话的对端，断线重连期间保持不变
+  remotePeerId: string;
+  reconnect: ReconnectState | null;
+}
+
+export interface LinkCloseInfo {
+  wasOpen: boolean;
+  // 对端发送了 SESSION_END，属于主动离开
+  ended: boolean;
+}
+
+export type PeerLinkEvents = {
+  ready: (peerId: string) => void;
+  'id-taken': (previousId: string, freshId: string) => void;
+  state: (state: PeerLinkState) => void;
+  // 来访连接交由上层甄别，放行主链路时调用 accept
+  connection: (conn: LinkHandle) => void;
+  call: (media: MediaHandle) => void;
+  // 内部未处理的信令错误
+  error: (err: any) => void;
+  // 新的主链路（拨出、接受或重拨），尚未打开
+  link: (conn: LinkHandle) => void;
+  'link-open': (conn: LinkHandle, restored: boolean) => void;
+  'link-close': (conn: LinkHandle, info: LinkCloseInfo) => void;
+  secured: (peerId: string, info: SafetyInfo | null) => void;
+  message: (msg: ChatMessage, conn: LinkHandle) => void;
+  'reconnect-failed': (peerId: string) => void;
+  log: (message: string, level: LogLevel) => void;
+} & TransferEvents & RoomTransferEvents & CallEvents;
+
+export interface PeerLinkClient {
+  readonly id: string;
+  readonly peer: PeerHandle | null;
+  readonly link: LinkHandle | null;
+  // 主链路上的文件传输，断线重连后自动续传
+  readonly transfers: TransferEngine;
+  // 房间内扇出给各成员的文件，成员直连由上层建立后加入
+  readonly roomFiles: RoomTransfers;
+  readonly calls: CallController;
+  getState: () => PeerLinkState;
+  on: <K extends keyof PeerLinkEvents>(event: K, listener: PeerLinkEvents[K]) => () => void;
+  // 重复调用无副作用；destroy 之后可以再次 start（例如 StrictMode 下 effect 重新挂载）
+  start: (peerId: string) => void;
+  // 信令或 ICE 配置变更后以同一个 ID 重新上线
+  restart: () => void;
+  destroy: () => void;
+  connect: (peerId: string, metadata?: Record<string, any>) => void;
+  accept: (conn: LinkHandle, buffered?: any[]) => void;
+  leave: () => void;
+  retryLink: () => void;
+  resumeReconnect: () => void;
+  send: (msg: ChatMessage) => Promise<void>;
+  sendTo: (conn: LinkHandle, msg: ChatMessage) => Promise<void>;
+  farewell: (conn: LinkHandle) => void;
+  // 暂停/恢复主链路上的全部发送，等待用户确认对端身份
+  hold: () => void;
+  release: () => void;
+  call: (peerId: string, stream: any, metadata?: any) => MediaHandle | null;
+  createPeer: (peerId: string) => PeerHandle | null;
+}
+
+export const createPeerLinkClient = (options: PeerLinkOptions): PeerLinkClient => {
+  const events = createEmitter<PeerLinkEvents>();
+  const identity = options.identity || (() => Promise.resolve(null));
+  const peerOptions = options.peerOptions || (() => undefined);
+  let peer: PeerHandle | null = null;
+  let link: LinkHandle | null = null;
+  // 重拨时沿用首次拨号的 metadata（例如对方的 PIN）
+  let dialMetadata: Record<string, any> = {};
+  let watchdog: any = null;
+  let idRetryTimer: any = null;
+  let pending: { peerId: string; attempt: number; timer: any } | null = null;
+  let handshakeTimer: any = null;
+  // 拨出的 offer 是否已得到应答，超时时据此区分"对方没响应"与"找不到路径"
+  let answered = false;
+  // 已打开的链路 ICE 暂时断开（尚未判定失败）
+  let iceInterrupted = false;
+  const ended = new WeakSet<LinkHandle>();
+  let state: PeerLinkState = {
+    peerId: '', online: false, stage: 'idle', status: ConnectionStatus.DISCONNECTED, failure: null,
+    candidates: null, route: null, remotePeerId: '', reconnect: null
+  };
+
+  const log = (message: string, level: LogLevel = 'info') => events.emit('log', message, level);
+
+  const transfers = createTransferEngine({
+    send: msg => link ? sendTo(link, msg) : Promise.resolve(),
+    link: () => link,
+    selfId: () => selfId(),
+    store: options.transferStore
+  });
+
+  const roomFiles = createRoomTransfers({
+    send: (conn, msg) => sendTo(conn, msg),
+    selfId: () => selfId(),
+    store: options.transferStore
+  });
+
+  const calls = createCallController({
+    signal: (type, content) => {
+      if (link?.open) sendTo(link, { id: uuidv4(), senderId: selfId(), type, content, timestamp: Date.now() });
+    },
+    dial: (peerId, stream, metadata) => peer?.call(peerId, stream, { metadata }) ?? null,
+    remotePeer: () => link?.open && peer ? link.peer : null,
+    media: options.media || NO_CALL_MEDIA,
+    busy: options.busy || (() => false)
+  });
+
+  // 各模块的事件原样从客户端发出，界面只需订阅客户端；房间与主链路的传输事件同名，共用一套处理
+  const forward = (source: { on: (event: any, listener: any) => () => void }, names: string[]) =>
+    names.forEach(name => source.on(name, (...args: any[]) => (events.emit as any)(name, ...args)));
+  forward(transfers, Object.keys(TRANSFER_EVENTS));
+  forward(roomFiles, Object.keys(ROOM_TRANSFER_EVENTS));
+  forward(calls, Object.keys(CALL_EVENTS));
+
+  const update = (patch: Partial<PeerLinkState>) => {
+    state = { ...state, ...patch };
+    events.emit('state', state);
+  };
+
+  const selfId = () => peer?.id || state.peerId;
+
+  // 所有阶段变化都经过这里，不合法的转换只记录不生效
+  const setStage = (next: LinkStage, patch: Partial<PeerLinkState> = {}) => {
+    if (!canTransition(state.stage, next)) {
+      log(`Ignored stage change ${state.stage} -> ${next}`, "warn");
+      if (Object.keys(patch).length) update(patch);
+      return;
+    }
+    update({ ...patch, stage: next, status: statusForStage(next) });
+  };
+
+  // 没有进行中的链路时所处的阶段
+  const restingStage = (): LinkStage => {
+    if (pending) return 'reconnecting';
+    if (!peer) return 'idle';
+    return state.online ? 'registered' : 'signaling-connecting';
+  };
+
+  // 已连通的链路在信令或 ICE 短暂中断时为 degraded，恢复后回到 connected
+  const refreshOpenStage = () => {
+    if (!link?.open || (state.stage !== 'connected' && state.stage !== 'degraded')) return;
+    setStage(state.online && !iceInterrupted ? 'connected' : 'degraded');
+  };
+
+  const clearHandshake = () => {
+    clearTimeout(handshakeTimer);
+    handshakeTimer = null;
+  };
+
+  // 一次拨号走到终点：关闭尚未打开的连接，等待用户重试
+  const failLink = (reason: LinkFailureReason, detail?: string) => {
+    const conn = link;
+    clearHandshake();
+    link = null;
+    const failure: LinkFailure = { reason, stage: state.stage, detail, at: Date.now() };
+    setStage('failed', { failure });
+    log(`${FAILURE_TITLES[reason]}${detail ? ` (${detail})` : ''}`, "error");
+    log(remedyFor(failure, state.candidates), "warn");
+    conn?.close();
+  };
+
+  const stopWatchdog = () => {
+    if (watchdog) clearInterval(watchdog);
+    watchdog = null;
+  };
+
+  const startWatchdog = () => {
+    stopWatchdog();
+    watchdog = setInterval(() => {
+      if (peer && !peer.destroyed && peer.disconnected) {
+        log("Signaling lost, reconnecting...", "warn");
+        peer.reconnect();
+      }
+      // ICE 已失败但 close 事件迟迟未到时主动关闭，交给自动重连处理
+      if (link?.open && link.peerConnection?.connectionState === 'failed') {
+        log("Data link failed, closing", "warn");
+        link.close();
+      }
+    }, WATCHDOG_INTERVAL);
+  };
+
+  const start = (peerId: string, attempt = 0) => {
+    // 已经以同一 ID 在线或正在登记时重复调用不做任何事
+    if (peer && !peer.destroyed && state.peerId === peerId) return;
+    clearTimeout(idRetryTimer);
+    update({ peerId, online: false });
+    setStage('signaling-connecting');
+    log("Initializing P2P kernel...", "info");
+    let next: PeerHandle;
+    try {
+      next = options.transport.createPeer(peerId, peerOptions());
+    } catch (e: any) {
+      log(`Critical: ${e?.message || e}`, "error");
+      return;
+    }
+    peer = next;
+
+    next.on('open', (id: string) => {
+      if (peer !== next) return;
+      update({ peerId: id, online: true });
+      if (state.failure && isSignalingFailure(state.failure.reason)) update({ failure: null });
+      if (state.stage === 'signaling-connecting') setStage(restingStage());
+      else refreshOpenStage();
+      log(`Online. ID: ${id}`, "success");
+      startWatchdog();
+      events.emit('ready', id);
+    });
+
+    next.on('connection', (conn: LinkHandle) => {
+      // 双方同时重拨：保留 ID 较小一方发起的连接
+      if (link && !link.open && link.peer === conn.peer && shouldRedial(next.id, conn.peer)) {
+        log(`Ignoring simultaneous link from ${conn.peer}`, "info");
+        conn.close();
+        return;
+      }
+      events.emit('connection', conn);
+    });
+
+    next.on('call', (media: MediaHandle) => events.emit('call', media));
+
+    next.on('error', (err: any) => {
+      if (peer !== next) return;
+      if (err.type === 'unavailable-id') {
+        next.destroy();
+        // 刚刷新时信令服务器可能还保留着上一次的会话，先等它过期；多次失败才认定与他人冲突
+        if (attempt < ID_RETRY_LIMIT) {
+          log(`ID ${peerId} is still registered, retrying...`, "warn");
+          idRetryTimer = setTimeout(() => start(peerId, attempt + 1), ID_RETRY_DELAY);
+        } else {
+          const freshId = options.generateId();
+          log(`ID ${peerId} is taken by another device. Your new ID is ${freshId}`, "warn");
+          events.emit('id-taken', peerId, freshId);
+          start(freshId);
+        }
+        return;
+      }
+      // 重连期间对端暂时不在线是正常情况，继续退避
+      if (err.type === 'peer-unavailable' && pending) {
+        log(`${pending.peerId} is not online yet`, "warn");
+        scheduleReconnect(pending.peerId);
+        return;
+      }
+      const reason = failureForError(err.type);
+      const dialing = link && !link.open && !pending && isHandshakeStage(state.stage);
+      if (dialing && (err.type === 'disconnected' || (err.type === 'peer-unavailable' && String(err.message).includes(link!.peer)))) {
+        failLink(reason);
+      } else if (isSignalingFailure(reason) && !state.online && state.stage !== 'failed') {
+        update({ failure: { reason, stage: state.stage, detail: err.type, at: Date.now() } });
+        log(remedyFor(state.failure!, null), "warn");
+      }
+      events.emit('error', err);
+      if (err.type === 'disconnected') {
+        log("Link to server lost. Reconnecting...", "warn");
+        next.reconnect();
+      }
+    });
+
+    next.on('disconnected', () => {
+      if (peer !== next) return;
+      update({ online: false });
+      if (state.stage === 'registered') setStage('signaling-connecting');
+      else refreshOpenStage();
+      log("Signaling server disconnected.", "warn");
+    });
+  };
+
+  const stopPeer = () => {
+    stopWatchdog();
+    clearTimeout(idRetryTimer);
+    const current = peer;
+    peer = null;
+    current?.destroy();
+  };
+
+  const restart = () => {
+    const peerId = selfId();
+    stopPeer();
+    start(peerId);
+  };
+
+  const stopReconnect = () => {
+    if (pending) clearTimeout(pending.timer);
+    pending = null;
+    if (state.reconnect) update({ reconnect: null });
+  };
+
+  const scheduleReconnect = (peerId: string) => {
+    const current = pending;
+    if (current) clearTimeout(current.timer);
+    const attempt = current?.peerId === peerId ? current.attempt + 1 : 0;
+    if (attempt >= RECONNECT_MAX_ATTEMPTS) {
+      stopReconnect();
+      const failure: LinkFailure = { reason: 'reconnect-exhausted', stage: 'reconnecting', at: Date.now() };
+      setStage(restingStage(), { failure });
+      log(`Could not reconnect to ${peerId}, giving up`, "error");
+      events.emit('reconnect-failed', peerId);
+      return;
+    }
+    const delay = reconnectDelay(attempt);
+    pending = { peerId, attempt, timer: setTimeout(() => attemptReconnect(peerId), delay) };
+    setStage('reconnecting', { reconnect: { attempt: attempt + 1, nextAt: Date.now() + delay } });
+  };
+
+  // force 为用户手动重试：不论 ID 大小都由本机拨号
+  const attemptReconnect = (peerId: string, force = false) => {
+    if (state.remotePeerId !== peerId || link?.open) {
+      stopReconnect();
+      return;
+    }
+    const current = pending || { peerId, attempt: -1, timer: null };
+    clearTimeout(current.timer);
+    if (peer && !peer.destroyed && peer.disconnected) {
+      log("Reconnecting to signaling server...", "info");
+      peer.reconnect();
+    } else if (peer && !peer.destroyed && (force || shouldRedial(peer.id, peerId))) {
+      log(`Reconnecting to ${peerId} (attempt ${current.attempt + 2})...`, "info");
+      dial(peerId);
+    } else {
+      log(`Waiting for ${peerId} to reconnect...`, "info");
+    }
+    // 拨号失败不一定有回调，超时后进入下一轮退避
+    pending = { ...current, timer: setTimeout(() => scheduleReconnect(peerId), DIAL_TIMEOUT) };
+    setStage('reconnecting', { reconnect: { attempt: current.attempt + 2, nextAt: Date.now() } });
+  };
+
+  // PeerJS 自己占用了 onicecandidate 等属性，这里用 addEventListener 旁听；回环传输没有这些事件
+  const watchIce = (conn: LinkHandle, outgoing: boolean) => {
+    const pc = conn.peerConnection;
+    if (typeof pc?.addEventListener !== 'function') return;
+    const current = () => link === conn;
+    // 拨号中的子阶段只由本机主动拨出时推进，重连期间保持 reconnecting
+    const advance = (next: LinkStage) => {
+      if (!pending && isHandshakeStage(state.stage) && isLaterHandshakeStage(state.stage, next)) setStage(next);
+    };
+    // 来访连接放行前候选早已收集完毕，不计数
+    if (outgoing) update({ candidates: createCandidateSummary() });
+
+    pc.addEventListener('icecandidate', (e: any) => {
+      if (!current() || !state.candidates) return;
+      if (!e.candidate) {
+        log(`ICE candidates: ${describeCandidates(state.candidates)}`, "info");
+        return;
+      }
+      const type = candidateType(e.candidate);
+      if (type) update({ candidates: { ...state.candidates, [type]: state.candidates[type] + 1 } });
+    });
+    pc.addEventListener('icegatheringstatechange', () => {
+      if (current() && pc.iceGatheringState === 'gathering') advance('ice-gathering');
+    });
+    pc.addEventListener('signalingstatechange', () => {
+      // 拨出方收到应答后回到 stable
+      if (current() && pc.signalingState === 'stable') answered = true;
+    });
+    pc.addEventListener('iceconnectionstatechange', () => {
+      if (!current()) return;
+      const ice = pc.iceConnectionState;
+      if (ice === 'checking') advance('ice-checking');
+      else if (ice === 'failed' && !conn.open && !pending && isHandshakeStage(state.stage)) failLink('ice-failed');
+      else if (conn.open && (ice === 'disconnected' || ice === 'connected' || ice === 'completed')) {
+        iceInterrupted = ice === 'disconnected';
+        if (iceInterrupted) log("ICE interrupted, waiting for it to recover", "warn");
+        refreshOpenStage();
+      }
+    });
+  };
+
+  // 连通后读取选中的候选对，记录实际走的是直连还是中继
+  const reportRoute = (conn: LinkHandle) => {
+    const pc = conn.peerConnection;
+    if (typeof pc?.getStats !== 'function') return;
+    sampleStats(pc, createStatsSampler()).then(stats => {
+      if (link !== conn) return;
+      update({ route: stats.candidateType });
+      log(`Route: ${describeRoute(stats.candidateType)}`, "info");
+    }).catch(() => {});
+  };
+
+  const attach = (conn: LinkHandle, buffered: any[] = [], outgoing = false) => {
+    // 先替换再关闭，旧连接的 close 回调据此判断不是意外断开
+    const previous = link;
+    link = conn;
+    if (previous && previous !== conn) previous.close();
+    let wasOpen = false;
+    answered = !outgoing;
+    iceInterrupted = false;
+
+    update({ remotePeerId: conn.peer, candidates: null, route: null });
+    log(`Syncing with ${conn.peer}...`, "info");
+    events.emit('link', conn);
+    watchIce(conn, outgoing);
+    const channel = createSecureChannel(conn, identity(), {
+      // 发送者以连接为准：对方在消息里写的 senderId 不可信，否则可以冒充本机编辑或撤回
+      onMessage: raw => {
+        const msg: ChatMessage = { ...raw, senderId: conn.peer };
+        if (msg.type === MessageType.SESSION_END) ended.add(conn);
+        else if (!transfers.handle(msg) && !calls.handle(msg)) events.emit('message', msg, conn);
+      },
+      onEstablished: info => events.emit('secured', conn.peer, info),
+      onError: message => log(`E2E: ${message}`, "error")
+    });
+
+    // 经过确认的来访连接在放行时通常已经打开
+    const handleOpen = () => {
+      if (link !== conn) return;
+      log("Link established, exchanging keys...", "success");
+      clearHandshake();
+      wasOpen = true;
+      const restored = !!pending;
+      if (restored) log("Link restored", "success");
+      stopReconnect();
+      setStage('connected', { failure: null });
+      refreshOpenStage();
+      reportRoute(conn);
+      channel.start();
+      transfers.announceResume();
+      events.emit('link-open', conn, restored);
+    };
+    if (conn.open) handleOpen();
+    else conn.on('open', handleOpen);
+
+    conn.on('close', () => {
+      // 本机离开或已被新连接替换时 link 已不指向它
+      if (link !== conn) return;
+      log("Secure link severed", "warn");
+      const info = { wasOpen, ended: ended.has(conn) };
+      if (!wasOpen && !pending) {
+        // 未打开就被关闭：拨出时算作一次失败，来访连接直接丢弃
+        if (isHandshakeStage(state.stage)) failLink('negotiation-failed', 'closed before opening');
+        else setStage(restingStage());
+      } else if (info.ended) {
+        log(`${conn.peer} left the chat`, "info");
+        setStage(restingStage());
+      } else {
+        scheduleReconnect(conn.peer);
+      }
+      transfers.wake();
+      calls.linkClosed(conn.peer);
+      events.emit('link-close', conn, info);
+    });
+
+    conn.on('error', (err: any) => {
+      const type = err.type || err.message || 'connection-failed';
+      log(`Link Error: ${type}`, "error");
+      // 已打开的链路随后会 close，交给自动重连
+      if (link !== conn || wasOpen || pending || !isHandshakeStage(state.stage)) return;
+      failLink(failureForError(type), type);
+    });
+
+    conn.on('data', (raw: any) => channel.receive(raw));
+    buffered.forEach(raw => channel.receive(raw));
+  };
+
+  // raw 序列化：由 wireCodec 自行编码，文件分片以二进制帧发送
+  const dial = (peerId: string) => {
+    if (!peer) return;
+    attach(peer.connect(peerId, {
+      reliable: true,
+      serialization: 'raw',
+      metadata: { wire: WIRE_FORMAT, ...dialMetadata }
+    }), [], true);
+  };
+
+  const connect = (peerId: string, metadata: Record<string, any> = {}) => {
+    if (!peer) return;
+    dialMetadata = metadata;
+    stopReconnect();
+    clearHandshake();
+    setStage('dialing', { failure: null });
+    dial(peerId);
+    // 读取的是超时那一刻的阶段，而不是拨号时的快照
+    const conn = link;
+    handshakeTimer = setTimeout(() => {
+      handshakeTimer = null;
+      if (link !== conn || conn?.open || !isHandshakeStage(state.stage)) return;
+      log(`Handshake timed out while ${STAGE_LABELS[state.stage].toLowerCase()}`, "error");
+      failLink(failureForTimeout(state.stage, answered));
+    }, HANDSHAKE_TIMEOUT);
+  };
+
+  const sendTo = (conn: LinkHandle, msg: ChatMessage): Promise<void> =>
+    channelFor(conn)?.send(msg) ?? Promise.resolve();
+
+  // 先告知对方是主动离开，避免对方自动重连
+  const farewell = (conn: LinkHandle) => {
+    if (!conn.open) {
+      conn.close();
+      return;
+    }
+    const sent = sendTo(conn, {
+      id: uuidv4(), senderId: selfId(), type: MessageType.SESSION_END, content: null, timestamp: Date.now()
+    });
+    Promise.race([sent, new Promise(resolve => setTimeout(resolve, FAREWELL_TIMEOUT))]).then(() => conn.close());
+  };
+
+  const leave = () => {
+    stopReconnect();
+    clearHandshake();
+    const conn = link;
+    link = null;
+    dialMetadata = {};
+    setStage(restingStage(), { remotePeerId: '', failure: null, candidates: null, route: null });
+    if (conn) farewell(conn);
+  };
+
+  return {
+    get id() { return selfId(); },
+    get peer() { return peer; },
+    get link() { return link; },
+    transfers,
+    roomFiles,
+    calls,
+    getState: () => state,
+    on: events.on,
+    start: peerId => start(peerId),
+    restart,
+    destroy: () => {
+      stopReconnect();
+      clearHandshake();
+      stopPeer();
+      link = null;
+      setStage('idle', { online: false, remotePeerId: '' });
+    },
+    connect,
+    accept: (conn, buffered) => attach(conn, buffered),
+    leave,
+    retryLink: () => {
+      if (!state.remotePeerId) return;
+      stopReconnect();
+      attemptReconnect(state.remotePeerId, true);
+    },
+    // 网络恢复时不必等退避计时，立即重试
+    resumeReconnect: () => {
+      if (pending) attemptReconnect(pending.peerId);
+    },
+    send: msg => link ? sendTo(link, msg) : Promise.resolve(),
+    sendTo,
+    farewell,
+    hold: () => { if (link) channelFor(link)?.hold(); },
+    release: () => { if (link) channelFor(link)?.release(); },
+    call: (peerId, stream, metadata) => peer?.call(peerId, stream, { metadata }) ?? null,
+    createPeer: peerId => {
+      try {
+        return options.transport.createPeer(peerId, peerOptions());
+      } catch (e: any) {
+        log(`Critical: ${e?.message || e}`, "error");
+        return null;
+      }
+    }
+  };
+};
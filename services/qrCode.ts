@@ -0,0 +1,286 @@
+// 本地生成二维码（字节模式，纠错等级 M），不依赖任何在线服务
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26,
+  26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28
+];
+const NUM_ECC_BLOCKS = [
+  -1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16,
+  17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49
+];
+const ECC_FORMAT_BITS = 0; // M
+
+export interface QrCode {
+  size: number;
+  modules: boolean[][];
+}
+
+const rawDataModules = (ver: number): number => {
+  let result = (16 * ver + 128) * ver + 64;
+  if (ver >= 2) {
+    const numAlign = Math.floor(ver / 7) + 2;
+    result -= (25 * numAlign - 10) * numAlign - 55;
+    if (ver >= 7) result -= 36;
+  }
+  return result;
+};
+
+const dataCodewords = (ver: number): number =>
+  Math.floor(rawDataModules(ver) / 8) - ECC_CODEWORDS_PER_BLOCK[ver] * NUM_ECC_BLOCKS[ver];
+
+const alignmentPositions = (ver: number): number[] => {
+  if (ver === 1) return [];
+  const numAlign = Math.floor(ver / 7) + 2;
+  const step = Math.floor((ver * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2;
+  const result = [6];
+  for (let pos = ver * 4 + 10; result.length < numAlign; pos -= step) result.splice(1, 0, pos);
+  return result;
+};
+
+// GF(256) 乘法，本原多项式 x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree: number): number[] => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < result.length) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = divisor.map(() => 0);
+  data.forEach(b => {
+    const factor = b ^ (result.shift() as number);
+    result.push(0);
+    divisor.forEach((coef, i) => { result[i] ^= gfMultiply(coef, factor); });
+  });
+  return result;
+};
+
+// 分块加纠错码后交错排列
+const addEccAndInterleave = (data: number[], ver: number): number[] => {
+  const numBlocks = NUM_ECC_BLOCKS[ver];
+  const blockEccLen = ECC_CODEWORDS_PER_BLOCK[ver];
+  const rawCodewords = Math.floor(rawDataModules(ver) / 8);
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks);
+  const shortBlockLen = Math.floor(rawCodewords / numBlocks);
+  const divisor = rsDivisor(blockEccLen);
+
+  const blocks: number[][] = [];
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const dat = data.slice(k, k + shortBlockLen - blockEccLen + (i < numShortBlocks ? 0 : 1));
+    k += dat.length;
+    const ecc = rsRemainder(dat, divisor);
+    if (i < numShortBlocks) dat.push(0);
+    blocks.push(dat.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // 短块末尾补的 0 不参与输出
+      if (i !== shortBlockLen - blockEccLen || j >= numShortBlocks) result.push(block[i]);
+    });
+  }
+  return result;
+};
+
+const encodeData = (bytes: Uint8Array, ver: number): number[] => {
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  append(0b0100, 4);
+  append(bytes.length, ver <= 9 ? 8 : 16);
+  bytes.forEach(b => append(b, 8));
+
+  const capacity = dataCodewords(ver) * 8;
+  append(0, Math.min(4, capacity - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) append(pad, 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((acc, bit) => (acc << 1) | bit, 0));
+  }
+  return codewords;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0
+];
+
+const buildMatrix = (ver: number, codewords: number[], mask: number): boolean[][] => {
+  const size = ver * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    isFunction[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  [[3, 3], [size - 4, 3], [3, size - 4]].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        const x = cx + dx, y = cy + dy;
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  });
+  const align = alignmentPositions(ver);
+  const last = align.length - 1;
+  align.forEach((ay, i) => align.forEach((ax, j) => {
+    if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) set(ax + dx, ay + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+    }
+  }));
+
+  // 格式信息：纠错等级 + 掩码，BCH(15,5)
+  const format = (ECC_FORMAT_BITS << 3) | mask;
+  let rem = format;
+  for (let i = 0; i < 10; i++) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  const formatBits = ((format << 10) | rem) ^ 0x5412;
+  const formatBit = (i: number) => ((formatBits >>> i) & 1) !== 0;
+  for (let i = 0; i <= 5; i++) set(8, i, formatBit(i));
+  set(8, 7, formatBit(6));
+  set(8, 8, formatBit(7));
+  set(7, 8, formatBit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, formatBit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, formatBit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, formatBit(i));
+  set(8, size - 8, true);
+
+  // 版本信息（7 及以上）：BCH(18,6)
+  if (ver >= 7) {
+    let vrem = ver;
+    for (let i = 0; i < 12; i++) vrem = (vrem << 1) ^ ((vrem >>> 11) * 0x1f25);
+    const versionBits = (ver << 12) | vrem;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) !== 0;
+      const a = size - 11 + (i % 3), b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+
+  // 之字形填充数据位，同时套用掩码
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (isFunction[y][x]) continue;
+        let dark = false;
+        if (bit < codewords.length * 8) {
+          dark = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) !== 0;
+          bit++;
+        }
+        modules[y][x] = dark !== MASKS[mask](x, y);
+      }
+    }
+  }
+  return modules;
+};
+
+// 标准的四项罚分，用于挑选最易识别的掩码
+const penalty = (modules: boolean[][]): number => {
+  const size = modules.length;
+  let score = 0;
+  const lines: boolean[][] = [];
+  for (let i = 0; i < size; i++) {
+    lines.push(modules[i]);
+    lines.push(modules.map(row => row[i]));
+  }
+  const finderLike = [
+    [true, false, true, true, true, false, true, false, false, false, false],
+    [false, false, false, false, true, false, true, true, true, false, true]
+  ];
+  lines.forEach(line => {
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    for (let i = 0; i + 11 <= size; i++) {
+      if (finderLike.some(p => p.every((dark, k) => line[i + k] === dark))) score += 40;
+    }
+  });
+  let dark = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++;
+      if (x + 1 < size && y + 1 < size) {
+        const c = modules[y][x];
+        if (c === modules[y][x + 1] && c === modules[y + 1][x] && c === modules[y + 1][x + 1]) score += 3;
+      }
+    }
+  }
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+export const encodeQr = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text);
+  let ver = 1;
+  for (; ver <= 40; ver++) {
+    const headerBits = 4 + (ver <= 9 ? 8 : 16);
+    if (headerBits + bytes.length * 8 <= dataCodewords(ver) * 8) break;
+  }
+  if (ver > 40) throw new Error('Text too long for a QR code');
+  const codewords = addEccAndInterleave(encodeData(bytes, ver), ver);
+
+  let best: boolean[][] = [];
+  let bestScore = Infinity;
+  for (let mask = 0; mask < 8; mask++) {
+    const modules = buildMatrix(ver, codewords, mask);
+    const score = penalty(modules);
+    if (score < bestScore) {
+      best = modules;
+      bestScore = score;
+    }
+  }
+  return { size: best.length, modules: best };
+};
+
+// 每个深色模块一个 1x1 方块，拼成单条 SVG path
+export const qrSvgPath = (qr: QrCode): string => {
+  const parts: string[] = [];
+  qr.modules.forEach((row, y) => row.forEach((dark, x) => {
+    if (dark) parts.push(`M${x} ${y}h1v1h-1z`);
+  }));
+  return parts.join('');
+};
@@ -0,0 +1,53 @@
+import { ChatMessage, DeliveryState, MessageType } from '../types';
+
+// 回执攒一批再发，文件传输期间间隔更长，避免控制消息挤占数据通道
+export const RECEIPT_BATCH_DELAY = 1000;
+export const RECEIPT_BATCH_DELAY_BUSY = 3000;
+export const RECEIPT_BATCH_LIMIT = 200;
+
+// 输入状态：输入中每隔一段时间续报一次，停手后发 stop；接收端超时未续报则自动清除
+export const TYPING_REFRESH = 3000;
+export const TYPING_IDLE = 4000;
+export const TYPING_EXPIRE = 8000;
+
+export type ReceiptKind = 'delivered' | 'read';
+
+export interface ReceiptBatch {
+  delivered: Set<string>;
+  read: Set<string>;
+  timer: any;
+}
+
+const RECEIPT_TYPES = new Set([
+  MessageType.TEXT, MessageType.IMAGE, MessageType.VIDEO_FILE, MessageType.FILE, MessageType.FOLDER, MessageType.VOICE,
+  MessageType.REPLY
+]);
+
+const DELIVERY_RANK: Record<DeliveryState, number> = { failed: 0, queued: 0, sent: 1, delivered: 2, read: 3 };
+
+export const isReceiptable = (msg: ChatMessage): boolean => RECEIPT_TYPES.has(msg.type);
+
+// 状态只前进不后退：回执可能早于本地的 sent 标记到达
+export const advancesDelivery = (current: DeliveryState | undefined, next: DeliveryState): boolean =>
+  next === 'queued' ? current === 'failed' : DELIVERY_RANK[next] > (current ? DELIVERY_RANK[current] : 0);
+
+export const createReceiptBatch = (): ReceiptBatch => ({ delivered: new Set(), read: new Set(), timer: null });
+
+export const addReceipts = (batch: ReceiptBatch, kind: ReceiptKind, ids: string[]) => {
+  ids.forEach(id => {
+    batch[kind].add(id);
+    // 已读隐含已送达
+    if (kind === 'read') batch.delivered.delete(id);
+  });
+};
+
+export const takeReceipts = (batch: ReceiptBatch): Record<ReceiptKind, string[]> => {
+  const take = (set: Set<string>) => {
+    const ids = Array.from(set).slice(0, RECEIPT_BATCH_LIMIT);
+    ids.forEach(id => set.delete(id));
+    return ids;
+  };
+  return { delivered: take(batch.delivered), read: take(batch.read) };
+};
+
+export const hasPendingReceipts = (batch: ReceiptBatch): boolean => batch.delivered.size + batch.read.size > 0;
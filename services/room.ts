@@ -0,0 +1,43 @@
+import { generatePeerId } from './contacts';
+
+/*
+ * 房间没有服务器：最先加入的成员以房间码派生的 ID 在信令上登记，充当"门牌"。
+ * 新成员向门牌索取成员列表，再与每位成员各自直连，消息与文件在这张网上逐个扇出。
+ * 门牌持有者离开后，剩下的成员错开时间争抢该 ID，谁抢到谁接手。
+ */
+const ROOM_ID_PREFIX = 'p2plink-room-';
+const ROOM_KEY_PREFIX = 'room:';
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{4,12}$/;
+
+export const ROOM_CLAIM_JITTER = 2000;
+export const ROOM_LOOKUP_TIMEOUT = 10000;
+
+export interface RoomState {
+  code: string;
+  // 已打开直连的其他成员
+  members: string[];
+  // 其他成员中正在群通话的
+  inCall: string[];
+  // 其他成员中公钥与通讯录或首次记录一致的，只有他们显示通讯录昵称
+  verified: string[];
+  hosting: boolean;
+  // 房间 PIN：成员间直连与向门牌索取成员列表都要出示；为空时知道房间码即可加入，不经确认
+  pin: string | null;
+}
+
+export const createRoom = (code: string, pin: string | null = null): RoomState =>
+  ({ code, members: [], inCall: [], verified: [], hosting: false, pin });
+
+export const roomAdmits = (room: RoomState, suppliedPin: unknown): boolean => !room.pin || suppliedPin === room.pin;
+
+export const generateRoomCode = (): string => generatePeerId();
+
+export const parseRoomCode = (text: string): string | null => {
+  const code = text.trim().toUpperCase();
+  return ROOM_CODE_PATTERN.test(code) ? code : null;
+};
+
+export const roomHostId = (code: string): string => `${ROOM_ID_PREFIX}${code}`;
+
+// 聊天记录按会话键存储，房间与单聊共用同一张表
+export const roomKey = (code: string): string => `${ROOM_KEY_PREFIX}${code}`;
@@ -0,0 +1,208 @@
+import { ChatMessage, TransferAction, TransferStatus, VoiceNoteMeta } from '../types';
+import { TransferEngine, TransferEvents, createTransferEngine } from './transferEngine';
+import { TransferStore } from './chunkStore';
+import { createEmitter } from './emitter';
+import { LinkHandle } from './transport';
+import { v4 as uuidv4 } from 'uuid';
+
+/*
+ * 房间里的文件传输：与每位成员的直连各有一个 transferEngine，ACK 补发、摘要校验、分片落盘、暂停与取消都与主链路相同。
+ * 发出的文件以同一个 transferId 扇出给当时在线的成员，每位成员都确认收齐才算发出；
+ * 期间有成员掉线或拒收则记为失败。进度面板里显示最慢那位成员的进度。
+ */
+export interface RoomTransferOptions {
+  send: (conn: LinkHandle, msg: ChatMessage) => Promise<void>;
+  selfId: () => string;
+  store?: TransferStore;
+}
+
+export type RoomTransferEvents = Omit<TransferEvents, 'file-sent'> & {
+  // 扇出的文件：全部成员收齐为 sent，有成员没有收到为 failed
+  'room-file-delivery': (transferId: string, delivery: 'sent' | 'failed') => void;
+};
+
+export const ROOM_TRANSFER_EVENTS: Record<keyof RoomTransferEvents, true> = {
+  transfer: true, 'file-incoming': true, 'folder-incoming': true, 'file-received': true, 'file-corrupted': true,
+  'transfer-cancelled': true, 'room-file-delivery': true, log: true
+};
+
+export interface RoomTransfers {
+  on: <K extends keyof RoomTransferEvents>(event: K, listener: RoomTransferEvents[K]) => () => void;
+  // 与成员的直连建立时加入，同一成员换了新连接时替换；scope 写入落盘记录，刷新后只清理不续传
+  addMember: (conn: LinkHandle, scope: string) => void;
+  // 成员离开：丢弃与他之间进行中的传输与已落盘的分片，他尚未收齐的发出文件记为失败
+  removeMember: (peerId: string) => void;
+  // 处理某位成员发来的传输消息，其他类型返回 false
+  handle: (peerId: string, msg: ChatMessage) => boolean;
+  // 发给当前在线的全部成员，返回 transferId；没有在线成员时为 null
+  sendFile: (file: File, voice?: VoiceNoteMeta) => string | null;
+  control: (transferId: string, action: TransferAction) => void;
+  cyclePriority: (transferId: string) => void;
+  retry: (transferId: string) => void;
+  isSending: (transferId: string) => boolean;
+  isBusy: () => boolean;
+  // 离开房间
+  clear: () => void;
+}
+
+interface Member {
+  conn: LinkHandle;
+  engine: TransferEngine;
+  offs: (() => void)[];
+}
+
+// 一个扇出的文件：pending 为尚未收齐的成员，statuses 为各成员的进度
+interface FanOut {
+  fileName: string;
+  pending: Set<string>;
+  statuses: Record<string, TransferStatus>;
+  failed: boolean;
+}
+
+export const createRoomTransfers = (options: RoomTransferOptions): RoomTransfers => {
+  const events = createEmitter<RoomTransferEvents>();
+  const members = new Map<string, Member>();
+  const fanOuts: Record<string, FanOut> = {};
+  // 收到的文件来自哪位成员，暂停、取消与重新索取都发给他
+  const senders: Record<string, string> = {};
+  // 本机取消扇出时各引擎各自发出的事件由这里合并为一次
+  let muted = false;
+
+  const reportFanOut = (tId: string, fanOut: FanOut) => {
+    const statuses = Object.values(fanOut.statuses);
+    if (!statuses.length) return;
+    events.emit('transfer', tId, statuses.reduce((slowest, s) => s.bytes < slowest.bytes ? s : slowest));
+  };
+
+  const settle = (tId: string, peerId: string, delivered: boolean) => {
+    const fanOut = fanOuts[tId];
+    if (!fanOut || !fanOut.pending.delete(peerId)) return;
+    delete fanOut.statuses[peerId];
+    if (!delivered) fanOut.failed = true;
+    if (fanOut.pending.size) {
+      reportFanOut(tId, fanOut);
+      return;
+    }
+    delete fanOuts[tId];
+    events.emit('transfer', tId, null);
+    events.emit('room-file-delivery', tId, fanOut.failed ? 'failed' : 'sent');
+  };
+
+  const trackStatus = (peerId: string, tId: string, status: TransferStatus | null) => {
+    const fanOut = fanOuts[tId];
+    if (!fanOut) {
+      if (status?.direction === 'receive') senders[tId] = peerId;
+      events.emit('transfer', tId, status);
+      return;
+    }
+    if (!fanOut.pending.has(peerId)) return;
+    if (status) fanOut.statuses[peerId] = status;
+    else delete fanOut.statuses[peerId];
+    reportFanOut(tId, fanOut);
+  };
+
+  // 本机取消扇出期间（muted）各引擎发出的事件一律忽略
+  const subscribe = (peerId: string, engine: TransferEngine): (() => void)[] => [
+    engine.on('transfer', (tId, status) => {
+      if (!muted) trackStatus(peerId, tId, status);
+    }),
+    engine.on('file-incoming', (tId, senderId, fileName, manifest) => {
+      if (!muted) events.emit('file-incoming', tId, senderId, fileName, manifest);
+    }),
+    engine.on('folder-incoming', (manifest, senderId) => {
+      if (!muted) events.emit('folder-incoming', manifest, senderId);
+    }),
+    engine.on('file-received', (msg, manifest) => {
+      if (muted) return;
+      delete senders[msg.id];
+      events.emit('file-received', msg, manifest);
+    }),
+    engine.on('file-corrupted', msg => {
+      if (!muted) events.emit('file-corrupted', msg);
+    }),
+    engine.on('file-sent', msg => {
+      if (!muted) settle(msg.id, peerId, true);
+    }),
+    engine.on('transfer-cancelled', (tId, fileName, by) => {
+      if (muted) return;
+      delete senders[tId];
+      settle(tId, peerId, false);
+      events.emit('transfer-cancelled', tId, fileName, by);
+    }),
+    engine.on('log', (message, level) => {
+      if (!muted) events.emit('log', message, level);
+    })
+  ];
+
+  const removeMember = (peerId: string) => {
+    const member = members.get(peerId);
+    if (!member) return;
+    members.delete(peerId);
+    // 先丢弃，让进度面板随之移除这位成员的传输，再退订
+    member.engine.dispose();
+    member.offs.forEach(off => off());
+    Object.keys(senders).filter(tId => senders[tId] === peerId).forEach(tId => delete senders[tId]);
+    Object.keys(fanOuts).forEach(tId => settle(tId, peerId, false));
+  };
+
+  const addMember = (conn: LinkHandle, scope: string) => {
+    const peerId = conn.peer;
+    removeMember(peerId);
+    const engine = createTransferEngine({
+      send: msg => options.send(conn, msg),
+      link: () => conn,
+      selfId: options.selfId,
+      store: options.store,
+      scope
+    });
+    members.set(peerId, { conn, engine, offs: subscribe(peerId, engine) });
+  };
+
+  const sendFile = (file: File, voice?: VoiceNoteMeta): string | null => {
+    const targets = Array.from(members.entries()).filter(([, m]) => m.conn.open);
+    if (!targets.length) return null;
+    const transferId = uuidv4();
+    fanOuts[transferId] = { fileName: file.name, pending: new Set(targets.map(([id]) => id)), statuses: {}, failed: false };
+    targets.forEach(([, m]) => m.engine.sendFile(file, { transferId, voice }));
+    return transferId;
+  };
+
+  // 发出的文件作用于每位尚未收齐的成员，收到的文件只作用于发送者
+  const enginesFor = (tId: string): TransferEngine[] => {
+    const peers = fanOuts[tId] ? Array.from(fanOuts[tId].pending) : senders[tId] ? [senders[tId]] : [];
+    return peers.map(id => members.get(id)?.engine).filter((e): e is TransferEngine => !!e);
+  };
+
+  const cancelFanOut = (tId: string, fanOut: FanOut) => {
+    const engines = enginesFor(tId);
+    delete fanOuts[tId];
+    muted = true;
+    try {
+      engines.forEach(engine => engine.control(tId, 'cancel'));
+    } finally {
+      muted = false;
+    }
+    events.emit('transfer', tId, null);
+    events.emit('log', `Transfer cancelled: ${fanOut.fileName}`, "warn");
+    events.emit('transfer-cancelled', tId, fanOut.fileName, 'local');
+    events.emit('room-file-delivery', tId, 'failed');
+  };
+
+  return {
+    on: events.on,
+    addMember,
+    removeMember,
+    handle: (peerId, msg) => members.get(peerId)?.engine.handle(msg) ?? false,
+    sendFile,
+    control: (tId, action) => {
+      const fanOut = fanOuts[tId];
+      if (fanOut && action === 'cancel') cancelFanOut(tId, fanOut);
+      else enginesFor(tId).forEach(engine => engine.control(tId, action));
+    },
+    cyclePriority: tId => enginesFor(tId).forEach(engine => engine.cyclePriority(tId)),
+    retry: tId => enginesFor(tId).forEach(engine => engine.retry(tId)),
+    isSending: tId => !!fanOuts[tId],
+    isBusy: () => Array.from(members.values()).some(m => m.engine.isBusy()),
+    clear: () => Array.from(members.keys()).forEach(removeMember)
+  };
+};
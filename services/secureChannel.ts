@@ -0,0 +1,173 @@
+import { ChatMessage, MessageType } from '../types';
+import { decodeMessage, encodeMessage, wireModeOf } from './wireCodec';
+import {
+  Identity, SafetyInfo, computeSafetyInfo, decryptBytes, deriveSessionKey, encryptBytes, randomNonce
+} from './e2eCrypto';
+
+const ENVELOPE_MARKER = 0xe2;
+const KIND_JSON = 0;
+const KIND_FRAME = 1;
+const KEY_EXCHANGE_TIMEOUT = 15000;
+
+export interface KeyExchange {
+  publicKey: string | null;
+  nonce: string;
+}
+
+export interface SecureChannelHandlers {
+  onMessage: (msg: ChatMessage) => void;
+  // info 为 null 表示对端或本机不支持 WebCrypto，链路未加密
+  onEstablished: (info: SafetyInfo | null) => void;
+  onError: (message: string) => void;
+}
+
+export interface SecureChannel {
+  start: () => void;
+  // 暂停发送（已排队的也不发出），直到 release；用于安全码变化或加密被降级时等待用户确认
+  hold: () => void;
+  release: () => void;
+  send: (msg: ChatMessage) => Promise<void>;
+  receive: (raw: any) => void;
+}
+
+const channels = new WeakMap<any, SecureChannel>();
+
+export const channelFor = (conn: any): SecureChannel | undefined => channels.get(conn);
+
+/*
+ * 包装一条 DataConnection：open 后先明文交换公钥，之后每一帧（文本 JSON 或二进制分片）
+ * 都封装为 [0xE2][iv][AES-GCM 密文]。收发各自串成一条 Promise 链，保证异步加解密不打乱顺序。
+ */
+export const createSecureChannel = (
+  conn: any, identityPromise: Promise<Identity | null>, handlers: SecureChannelHandlers
+): SecureChannel => {
+  const framed = wireModeOf(conn) === 'frames';
+  const localNonce = randomNonce();
+  let key: CryptoKey | null = null;
+  let state: 'pending' | 'encrypted' | 'plain' | 'failed' = framed ? 'pending' : 'plain';
+  let markReady: () => void = () => {};
+  let markFailed: (reason: Error) => void = () => {};
+  const ready = new Promise<void>((resolve, reject) => {
+    markReady = resolve;
+    markFailed = reject;
+  });
+  // 没有排队的发送时也不应出现未处理的 rejection
+  ready.catch(() => {});
+  let sendChain = Promise.resolve();
+  let recvChain = Promise.resolve();
+  let timer: any = null;
+  let held: Promise<void> | null = null;
+  let unhold: () => void = () => {};
+
+  const hold = () => {
+    if (held) return;
+    held = new Promise(resolve => { unhold = resolve; });
+  };
+
+  const release = () => {
+    held = null;
+    unhold();
+  };
+
+  // 先通知上层再放行发送，上层可以在回调里同步 hold，排队中的消息不会抢先发出
+  const establish = (info: SafetyInfo | null) => {
+    handlers.onEstablished(info);
+    markReady();
+  };
+
+  const start = () => {
+    if (!framed) {
+      establish(null);
+      return;
+    }
+    identityPromise.then(identity => {
+      const exchange: KeyExchange = { publicKey: identity?.publicKey || null, nonce: localNonce };
+      conn.send(JSON.stringify({
+        id: localNonce, senderId: conn.provider?.id || '', type: MessageType.KEY_EXCHANGE,
+        content: exchange, timestamp: Date.now()
+      }));
+    });
+    // 超时后排队中的消息不再发出，关闭链路交给上层的断线重连重新握手
+    timer = setTimeout(() => {
+      if (state !== 'pending') return;
+      state = 'failed';
+      markFailed(new Error('Key exchange timed out'));
+      handlers.onError('Key exchange timed out, closing the link');
+      conn.close();
+    }, KEY_EXCHANGE_TIMEOUT);
+  };
+
+  const handleKeyExchange = async (exchange: KeyExchange) => {
+    if (state !== 'pending') return;
+    clearTimeout(timer);
+    const identity = await identityPromise;
+    if (!identity || !exchange?.publicKey) {
+      state = 'plain';
+      establish(null);
+      return;
+    }
+    key = await deriveSessionKey(identity, exchange.publicKey, localNonce, exchange.nonce);
+    state = 'encrypted';
+    establish(await computeSafetyInfo(identity.publicKey, exchange.publicKey));
+  };
+
+  const send = (msg: ChatMessage): Promise<void> => {
+    sendChain = sendChain.then(async () => {
+      await ready;
+      while (held) await held;
+      if (!conn.open) return;
+      const encoded = encodeMessage(conn, msg);
+      if (!key) {
+        conn.send(encoded);
+        return;
+      }
+      const body = typeof encoded === 'string' ? new TextEncoder().encode(encoded) : new Uint8Array(encoded);
+      const plain = new Uint8Array(body.length + 1);
+      plain[0] = typeof encoded === 'string' ? KIND_JSON : KIND_FRAME;
+      plain.set(body, 1);
+      const sealed = await encryptBytes(key, plain);
+      const envelope = new Uint8Array(sealed.length + 1);
+      envelope[0] = ENVELOPE_MARKER;
+      envelope.set(sealed, 1);
+      conn.send(envelope.buffer);
+    }).catch(e => {
+      if (state !== 'failed') handlers.onError(`Send failed: ${e?.message || e}`);
+    });
+    return sendChain;
+  };
+
+  const open = async (raw: any): Promise<ChatMessage | null> => {
+    if (!framed) return decodeMessage(conn, raw);
+    if (typeof raw === 'string') {
+      const msg = JSON.parse(raw) as ChatMessage;
+      if (msg.type === MessageType.KEY_EXCHANGE) {
+        await handleKeyExchange(msg.content as KeyExchange);
+        return null;
+      }
+      if (state !== 'plain') throw new Error('Plaintext message on an encrypted link');
+      return msg;
+    }
+    const bytes = raw instanceof ArrayBuffer ? new Uint8Array(raw) : new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength);
+    if (bytes[0] !== ENVELOPE_MARKER) {
+      if (state !== 'plain') throw new Error('Plaintext frame on an encrypted link');
+      return decodeMessage(conn, raw);
+    }
+    if (!key) throw new Error('Encrypted frame before key exchange');
+    const plain = await decryptBytes(key, bytes.subarray(1));
+    const body = plain.subarray(1);
+    return plain[0] === KIND_JSON
+      ? decodeMessage(conn, new TextDecoder().decode(body))
+      : decodeMessage(conn, body.slice().buffer);
+  };
+
+  const receive = (raw: any) => {
+    recvChain = recvChain.then(async () => {
+      const msg = await open(raw);
+      if (msg) handlers.onMessage(msg);
+    }).catch(e => handlers.onError(`Dropped frame: ${e?.message || e}`));
+  };
+
+  const channel = { start, hold, release, send, receive };
+  channels.set(conn, channel);
+  return channel;
+};
@@ -0,0 +1,578 @@
+import {
+  ChatMessage, FileManifest, FolderManifest, LogEntry, MessageType, TransferAck, TransferAction, TransferControl,
+  TransferStatus, VoiceNoteMeta
+} from '../types';
+import {
+  ACK_EVERY, CHUNK_SIZE, IncomingTransfer, OutgoingTransfer, Signal, applyAck, buildAck, createIncomingTransfer,
+  createOutgoingTransfer, hasChunk, hashThrough, isStalled, markChunk, readChunk, resumeTransfer, takeNextChunk,
+  waitForDrain, waitForSignal
+} from './transferProtocol';
+import { PRIORITY_WEIGHTS, isSendable, measureTransfer, nextPriority, planRound } from './transferScheduler';
+import { TransferStore } from './chunkStore';
+import { createMemoryTransferStore } from './memoryTransferStore';
+import { MAX_VERIFY_RETRIES, canVerify, sha256Hex, verifyBlob } from './integrity';
+import { messageTypeFor, resolveMimeType } from './fileTypes';
+import { PickedFolder } from './folderEntries';
+import { createEmitter } from './emitter';
+import { LinkHandle } from './transport';
+import { v4 as uuidv4 } from 'uuid';
+
+/*
+ * 一条链路上的文件传输：清单与整文件摘要、分片 ACK 与补发、分片落盘与断线续传、
+ * 暂停/取消以及多文件的优先级调度。与界面无关：主链路上的实例由 PeerLinkClient 持有，
+ * 房间里每位成员的直连各有一个实例。
+ */
+export interface TransferEngineOptions {
+  send: (msg: ChatMessage) => Promise<void>;
+  // 承载传输的链路；调度循环据此判断能否发送，并读取缓冲量做背压
+  link: () => LinkHandle | null;
+  selfId: () => string;
+  store?: TransferStore;
+  // 非空表示临时链路上的传输（例如某个房间），写入落盘记录，刷新后不续传
+  scope?: string;
+}
+
+export interface SendFileOptions {
+  // 重新发送时沿用原来的 ID
+  transferId?: string;
+  folder?: { folderId: string; path: string };
+  voice?: VoiceNoteMeta;
+}
+
+export type TransferEvents = {
+  // 进度面板中的一条传输，null 表示移除
+  transfer: (transferId: string, status: TransferStatus | null) => void;
+  // 对方开始发来一个文件（首次收到清单或分片，或刷新后继续接收）
+  'file-incoming': (transferId: string, senderId: string, fileName: string, manifest?: FileManifest) => void;
+  'folder-incoming': (manifest: FolderManifest, senderId: string) => void;
+  // 收齐并通过校验的文件消息；属于文件夹的文件由 manifest.folderId 指出
+  'file-received': (msg: ChatMessage, manifest?: FileManifest) => void;
+  // 摘要不符的提示消息，引擎会自动向对方重新请求
+  'file-corrupted': (msg: ChatMessage) => void;
+  // 对方确认收齐了全部分片
+  'file-sent': (msg: ChatMessage, manifest?: FileManifest) => void;
+  'transfer-cancelled': (transferId: string, fileName: string, by: 'local' | 'remote') => void;
+  log: (message: string, level: LogEntry['level']) => void;
+};
+
+// 客户端据此把事件转发到自己的 on 上；写成 Record 让新增的事件不会漏转
+export const TRANSFER_EVENTS: Record<keyof TransferEvents, true> = {
+  transfer: true, 'file-incoming': true, 'folder-incoming': true, 'file-received': true, 'file-corrupted': true,
+  'file-sent': true, 'transfer-cancelled': true, log: true
+};
+
+export interface TransferEngine {
+  on: <K extends keyof TransferEvents>(event: K, listener: TransferEvents[K]) => () => void;
+  // 处理传输相关的消息，其他类型返回 false
+  handle: (msg: ChatMessage) => boolean;
+  sendFile: (file: File, options?: SendFileOptions) => string;
+  // 先发文件夹清单，再把每个文件作为带 folderId 的普通传输排入调度；链路不可用时返回 null
+  sendFolder: (folder: PickedFolder) => FolderManifest | null;
+  control: (transferId: string, action: TransferAction) => void;
+  cyclePriority: (transferId: string) => void;
+  // 接收端校验失败后手动重新索取整个文件
+  retry: (transferId: string) => void;
+  // 链路打开时告知对方本机的接收进度，对方据此续传
+  announceResume: () => void;
+  // 链路断开时唤醒调度循环，使其在链路恢复前退出
+  wake: () => void;
+  // 从存储中恢复刷新前未完成的接收，返回恢复的数量
+  restore: () => Promise<number>;
+  isSending: (transferId: string) => boolean;
+  isBusy: () => boolean;
+  // 链路不会再回来（例如房间成员离开）：丢弃全部进行中的传输与已落盘的分片
+  dispose: () => void;
+}
+
+export const createTransferEngine = (options: TransferEngineOptions): TransferEngine => {
+  const events = createEmitter<TransferEvents>();
+  const store = options.store || createMemoryTransferStore();
+  const incoming: Record<string, IncomingTransfer> = {};
+  // 已收齐的传输：对方重发分片或续传时直接确认全部
+  const completed: Record<string, number> = {};
+  const outgoing: Record<string, OutgoingTransfer> = {};
+  const manifests: Record<string, FileManifest> = {};
+  // 已发出的文件保留到本次运行结束，对方校验失败时据此重发
+  const sentFiles: Record<string, { file: File; folder?: { folderId: string; path: string }; voice?: VoiceNoteMeta }> = {};
+  const verifyAttempts: Record<string, number> = {};
+  const cancelled: Record<string, true> = {};
+  const restored: Record<string, true> = {};
+  const statuses: Record<string, TransferStatus> = {};
+  const scheduler: Signal & { running: boolean } = { running: false };
+  let disposed = false;
+
+  const log = (message: string, level: LogEntry['level'] = 'info') => events.emit('log', message, level);
+
+  const sendControl = (type: MessageType, fields: Partial<ChatMessage>) => {
+    if (!options.link()?.open) return;
+    options.send({
+      id: uuidv4(), senderId: options.selfId(), type,
+      content: null, timestamp: Date.now(), ...fields
+    });
+  };
+
+  const sendAck = (tId: string, ack: TransferAck) => {
+    sendControl(MessageType.CHUNK_ACK, { transferId: tId, content: ack });
+  };
+
+  const setStatus = (tId: string, status: TransferStatus | null) => {
+    if (status) statuses[tId] = status;
+    else delete statuses[tId];
+    events.emit('transfer', tId, status);
+  };
+
+  const startTracking = (status: Omit<TransferStatus, 'speed' | 'eta' | 'updatedAt' | 'state'>) => {
+    setStatus(status.transferId, { ...status, state: 'active', speed: 0, eta: null, updatedAt: Date.now() });
+  };
+
+  const reportProgress = (tId: string, bytes: number) => {
+    if (statuses[tId]) setStatus(tId, measureTransfer(statuses[tId], bytes));
+  };
+
+  const stopTracking = (tId: string) => {
+    if (statuses[tId]) setStatus(tId, null);
+  };
+
+  const receivedBytes = (tId: string, t: IncomingTransfer) =>
+    Math.min(t.received * CHUNK_SIZE, manifests[tId]?.size ?? t.total * CHUNK_SIZE);
+
+  const announceIncoming = (tId: string, senderId: string, t: IncomingTransfer, fileName?: string) => {
+    const name = manifests[tId]?.fileName || fileName || 'file';
+    events.emit('file-incoming', tId, senderId, name, manifests[tId]);
+    startTracking({
+      transferId: tId, direction: 'receive', fileName: name, bytes: receivedBytes(tId, t),
+      totalBytes: manifests[tId]?.size ?? t.total * CHUNK_SIZE
+    });
+  };
+
+  const persist = (tId: string, senderId: string, total: number, fileName?: string) => {
+    store.saveTransfer({ transferId: tId, senderId, total, fileName, manifest: manifests[tId], scope: options.scope })
+      .catch(() => log("Could not persist transfer state", "warn"));
+  };
+
+  const trackIncoming = (tId: string, total: number, senderId: string, fileName?: string): IncomingTransfer => {
+    if (!incoming[tId]) {
+      incoming[tId] = createIncomingTransfer(total);
+      persist(tId, senderId, total, fileName);
+      announceIncoming(tId, senderId, incoming[tId], fileName);
+    }
+    return incoming[tId];
+  };
+
+  const handleManifest = (manifest: FileManifest, senderId: string) => {
+    const tId = manifest.transferId;
+    if (cancelled[tId]) return;
+    manifests[tId] = manifest;
+    if (completed[tId] !== undefined) return;
+    const isNew = !incoming[tId];
+    const transfer = trackIncoming(tId, manifest.totalChunks, senderId, manifest.fileName);
+    if (restored[tId]) {
+      // 刷新前未完成的传输：发送端续传时重新显示进度
+      delete restored[tId];
+      announceIncoming(tId, senderId, transfer, manifest.fileName);
+    }
+    // 清单更新（整文件摘要在最后一个分片前才算出）
+    if (!isNew) persist(tId, senderId, manifest.totalChunks, manifest.fileName);
+  };
+
+  const handleIncomingChunk = async (msg: ChatMessage) => {
+    const tId = msg.transferId!;
+    if (completed[tId] !== undefined) {
+      sendAck(tId, { transferId: tId, base: completed[tId], missing: [] });
+      return;
+    }
+    if (cancelled[tId]) return;
+    const transfer = trackIncoming(tId, msg.totalChunks!, msg.senderId, msg.fileName);
+    transfer.sinceAck++;
+    if (hasChunk(transfer, msg.chunkIndex!)) {
+      if (transfer.sinceAck >= ACK_EVERY) sendAck(tId, buildAck(tId, transfer));
+      return;
+    }
+    if (msg.digest && canVerify() && msg.content instanceof ArrayBuffer && (await sha256Hex(msg.content)) !== msg.digest) {
+      // 损坏的分片不入库，下一次 ACK 会把它列为缺失
+      log(`Chunk ${msg.chunkIndex} of ${manifests[tId]?.fileName || msg.fileName} failed its digest`, "warn");
+      return;
+    }
+    try {
+      await store.putChunk(tId, msg.chunkIndex!, msg.content as ArrayBuffer);
+    } catch (e) {
+      log("Storage full or unavailable, chunk dropped", "error");
+      return;
+    }
+    if (incoming[tId] !== transfer || !markChunk(transfer, msg.chunkIndex!)) return;
+    if (transfer.received % ACK_EVERY === 0) reportProgress(tId, receivedBytes(tId, transfer));
+
+    if (transfer.received === transfer.total) {
+      completed[tId] = transfer.total;
+      delete incoming[tId];
+      stopTracking(tId);
+      const manifest: FileManifest | undefined = manifests[tId];
+      const blob = await store.assembleTransfer(tId, resolveMimeType(manifest?.mimeType, manifest?.fileName || msg.fileName));
+      // 拼装成功后才确认收齐，否则发送端会在这边失败时已显示为发出
+      sendAck(tId, buildAck(tId, transfer));
+      await finishIncoming(msg, blob);
+    } else if (transfer.sinceAck >= ACK_EVERY) {
+      sendAck(tId, buildAck(tId, transfer));
+    }
+  };
+
+  // 校验通过后才交出文件消息；失败则自动重新请求
+  const finishIncoming = async (msg: ChatMessage, blob: Blob) => {
+    const tId = msg.transferId!;
+    const manifest: FileManifest | undefined = manifests[tId];
+    const integrity = await verifyBlob(blob, manifest);
+    // 二进制帧不携带文件名，以清单为准
+    const fileName = manifest?.fileName || msg.fileName;
+    const base = { id: tId, senderId: msg.senderId, timestamp: Date.now(), fileName, transferId: tId };
+
+    if (integrity === 'corrupted') {
+      const attempts = (verifyAttempts[tId] || 0) + 1;
+      verifyAttempts[tId] = attempts;
+      log(`Integrity check failed: ${fileName} (attempt ${attempts})`, "error");
+      events.emit('file-corrupted', { ...base, type: MessageType.SYSTEM, content: `Integrity check failed: ${fileName}`, integrity });
+      store.deleteFile(tId).catch(() => {});
+      if (attempts <= MAX_VERIFY_RETRIES) requestRetransfer(tId);
+      return;
+    }
+
+    if (integrity === 'verified') log(`Verified ${fileName}`, "success");
+    const mimeType = resolveMimeType(manifest?.mimeType, fileName);
+    delete manifests[tId];
+    delete verifyAttempts[tId];
+    events.emit('file-received', {
+      ...base,
+      type: manifest?.voice ? MessageType.VOICE : messageTypeFor(mimeType),
+      content: blob,
+      mimeType,
+      fileSize: blob.size,
+      integrity,
+      voice: manifest?.voice
+    }, manifest);
+  };
+
+  const requestRetransfer = (tId: string) => {
+    log("Re-requesting file from sender...", "warn");
+    delete completed[tId];
+    delete incoming[tId];
+    store.deleteTransfer(tId).catch(() => {});
+    const manifest: FileManifest | undefined = manifests[tId];
+    startTracking({ transferId: tId, direction: 'receive', fileName: manifest?.fileName || 'file', bytes: 0, totalBytes: manifest?.size ?? 0 });
+    sendControl(MessageType.TRANSFER_RETRY, { transferId: tId });
+  };
+
+  const handleTransferRetry = (tId: string) => {
+    const existing: OutgoingTransfer | undefined = outgoing[tId];
+    if (existing) {
+      resumeTransfer(existing);
+      announceManifest(existing);
+      runScheduler();
+      return;
+    }
+    const sent = sentFiles[tId];
+    if (!sent) {
+      log("Peer requested a file that is no longer available", "warn");
+      return;
+    }
+    log(`Peer re-requested ${sent.file.name}`, "warn");
+    sendFile(sent.file, { transferId: tId, folder: sent.folder, voice: sent.voice });
+  };
+
+  const handleChunkEnd = (msg: ChatMessage) => {
+    const tId = msg.transferId!;
+    if (completed[tId] !== undefined) {
+      sendAck(tId, { transferId: tId, base: completed[tId], missing: [] });
+      return;
+    }
+    if (cancelled[tId]) return;
+    const transfer = trackIncoming(tId, msg.totalChunks!, msg.senderId, msg.fileName);
+    // 发送端已发完：把末尾未到达的分片也列为缺失
+    transfer.highest = transfer.total - 1;
+    sendAck(tId, buildAck(tId, transfer));
+  };
+
+  const handleChunkAck = (ack: TransferAck) => {
+    const transfer: OutgoingTransfer | undefined = outgoing[ack?.transferId];
+    if (!transfer) return;
+    const before = transfer.acked;
+    applyAck(transfer, ack);
+    if (transfer.acked >= transfer.totalChunks) {
+      finishOutgoing(transfer);
+    } else if (transfer.acked > before) {
+      reportProgress(transfer.transferId, Math.min(transfer.acked * CHUNK_SIZE, transfer.file.size));
+    }
+    scheduler.wake?.();
+  };
+
+  const announceResume = () => {
+    const acks: TransferAck[] = [
+      ...Object.entries(incoming).map(([tId, t]) => buildAck(tId, t)),
+      ...Object.entries(completed).map(([tId, total]) => ({ transferId: tId, base: total, missing: [] }))
+    ];
+    sendControl(MessageType.TRANSFER_RESUME, { content: acks });
+  };
+
+  const handleTransferResume = (acks: TransferAck[]) => {
+    Object.values(outgoing).forEach(t => {
+      const ack = (acks || []).find(a => a.transferId === t.transferId);
+      log(`Resuming ${t.file.name} from chunk ${ack?.base ?? 0}/${t.totalChunks}`, "info");
+      resumeTransfer(t, ack);
+      announceManifest(t);
+    });
+    runScheduler();
+  };
+
+  const applyAction = (tId: string, action: TransferAction, by: 'local' | 'remote') => {
+    if (action === 'cancel') {
+      cancelTransfer(tId, by);
+      return;
+    }
+    const state = action === 'pause' ? 'paused' : 'active';
+    const pausedBy = action === 'pause' ? by : undefined;
+    const transfer: OutgoingTransfer | undefined = outgoing[tId];
+    if (transfer) {
+      transfer.state = state;
+      transfer.pausedBy = pausedBy;
+      transfer.lastAckAt = Date.now();
+      if (state === 'active') runScheduler();
+    }
+    if (statuses[tId]) setStatus(tId, { ...statuses[tId], state, pausedBy, speed: 0, eta: null, updatedAt: Date.now() });
+  };
+
+  const cancelTransfer = (tId: string, by: 'local' | 'remote') => {
+    const name = outgoing[tId]?.file.name || manifests[tId]?.fileName || 'file';
+    cancelled[tId] = true;
+    delete outgoing[tId];
+    delete sentFiles[tId];
+    if (incoming[tId]) {
+      delete incoming[tId];
+      store.deleteTransfer(tId).catch(() => {});
+    }
+    delete manifests[tId];
+    stopTracking(tId);
+    log(`Transfer cancelled${by === 'remote' ? ' by peer' : ''}: ${name}`, "warn");
+    events.emit('transfer-cancelled', tId, name, by);
+  };
+
+  const control = (tId: string, action: TransferAction) => {
+    sendControl(MessageType.TRANSFER_CONTROL, { transferId: tId, content: { transferId: tId, action } as TransferControl });
+    applyAction(tId, action, 'local');
+  };
+
+  // 读文件、落盘或拼装出错时无法继续：按取消处理，界面与对方都能知道，而不是一直停在进行中
+  const failTransfer = (tId: string, error: any) => {
+    if (disposed || cancelled[tId]) return;
+    const name = outgoing[tId]?.file.name || manifests[tId]?.fileName || 'file';
+    log(`Transfer failed: ${name} (${error?.message || error})`, "error");
+    delete completed[tId];
+    control(tId, 'cancel');
+  };
+
+  const cyclePriority = (tId: string) => {
+    const transfer: OutgoingTransfer | undefined = outgoing[tId];
+    if (!transfer) return;
+    transfer.priority = nextPriority(transfer.priority);
+    if (statuses[tId]) setStatus(tId, { ...statuses[tId], priority: transfer.priority });
+  };
+
+  const sendFile = (file: File, { transferId = uuidv4(), folder, voice }: SendFileOptions = {}): string => {
+    if (disposed) return transferId;
+    const transfer = createOutgoingTransfer(transferId, options.selfId(), file);
+    // sha256 随发送增量计算，在最后一个分片之前补发
+    transfer.manifest = {
+      transferId,
+      fileName: file.name,
+      size: file.size,
+      mimeType: resolveMimeType(file.type, file.name),
+      sha256: '',
+      totalChunks: transfer.totalChunks,
+      chunkDigests: canVerify(),
+      folderId: folder?.folderId,
+      path: folder?.path,
+      voice
+    };
+    outgoing[transferId] = transfer;
+    sentFiles[transferId] = { file, folder, voice };
+    startTracking({
+      transferId, direction: 'send', fileName: file.name, bytes: 0,
+      totalBytes: file.size, priority: transfer.priority
+    });
+    announceManifest(transfer);
+    runScheduler();
+    return transferId;
+  };
+
+  const sendFolder = (folder: PickedFolder): FolderManifest | null => {
+    if (!options.link()?.open || !folder.files.length) return null;
+    const folderId = uuidv4();
+    const picked = folder.files.map(f => ({ ...f, transferId: uuidv4() }));
+    const manifest: FolderManifest = {
+      folderId,
+      name: folder.name,
+      totalBytes: picked.reduce((sum, f) => sum + f.file.size, 0),
+      entries: picked.map(f => ({
+        path: f.path, size: f.file.size, transferId: f.transferId,
+        mimeType: resolveMimeType(f.file.type, f.file.name)
+      }))
+    };
+    log(`Sending folder ${folder.name} (${picked.length} files)`, "info");
+    sendControl(MessageType.FOLDER_MANIFEST, { content: manifest });
+    picked.forEach(f => sendFile(f.file, { transferId: f.transferId, folder: { folderId, path: f.path } }));
+    return manifest;
+  };
+
+  const announceManifest = (t: OutgoingTransfer) => {
+    if (t.manifest) sendControl(MessageType.FILE_MANIFEST, { transferId: t.transferId, content: t.manifest });
+  };
+
+  const sendChunk = async (t: OutgoingTransfer, index: number) => {
+    const chunk = await readChunk(t, index);
+    if ((await hashThrough(t, index, chunk)) && t.manifest) {
+      t.manifest.sha256 = t.hasher.digestHex();
+      announceManifest(t);
+    }
+    await options.send({
+      id: uuidv4(), senderId: t.senderId, type: MessageType.CHUNK,
+      content: chunk, timestamp: Date.now(), transferId: t.transferId,
+      chunkIndex: index, totalChunks: t.totalChunks, fileName: t.file.name,
+      digest: t.manifest?.chunkDigests ? await sha256Hex(chunk) : undefined
+    });
+  };
+
+  /*
+   * 单一调度循环：所有发送中的文件按优先级加权轮询，每个文件受 ACK 窗口限速，
+   * 整体受 bufferedAmount 背压。文本与控制消息直接发送，不进入此队列。
+   */
+  const runScheduler = async () => {
+    if (scheduler.running) {
+      scheduler.wake?.();
+      return;
+    }
+    scheduler.running = true;
+    let round = 0;
+    try {
+      while (true) {
+        const conn = options.link();
+        const active = Object.values(outgoing).filter(isSendable);
+        if (!conn?.open || !active.length) break;
+        let sent = false;
+        for (const t of planRound(active, round++)) {
+          for (let k = 0; k < PRIORITY_WEIGHTS[t.priority] && isSendable(t) && conn.open; k++) {
+            await waitForDrain(conn);
+            const index = takeNextChunk(t);
+            if (index === null) break;
+            try {
+              await sendChunk(t, index);
+            } catch (e) {
+              failTransfer(t.transferId, e);
+              break;
+            }
+            sent = true;
+          }
+          if (isSendable(t) && t.next >= t.totalChunks && t.retransmit.length === 0 && !t.endSent) {
+            sendControl(MessageType.CHUNK_END, { transferId: t.transferId, totalChunks: t.totalChunks, fileName: t.file.name });
+            t.endSent = true;
+          }
+          if (isSendable(t) && isStalled(t)) {
+            log(`No ACK for ${t.file.name}, retransmitting from chunk ${t.acked}`, "warn");
+            t.next = t.acked;
+            t.endSent = false;
+            t.lastAckAt = Date.now();
+          }
+        }
+        if (!sent) await waitForSignal(scheduler, 1000);
+      }
+    } finally {
+      scheduler.running = false;
+    }
+  };
+
+  const finishOutgoing = (t: OutgoingTransfer) => {
+    if (!outgoing[t.transferId]) return;
+    delete outgoing[t.transferId];
+    stopTracking(t.transferId);
+    const mimeType = resolveMimeType(t.file.type, t.file.name);
+    const voice = t.manifest?.voice;
+    events.emit('file-sent', {
+      id: t.transferId, senderId: t.senderId, type: voice ? MessageType.VOICE : messageTypeFor(mimeType),
+      content: t.file, timestamp: Date.now(), fileName: t.file.name,
+      mimeType, fileSize: t.file.size, voice, delivery: 'sent'
+    }, t.manifest);
+  };
+
+  const loadPending = async (): Promise<number> => {
+    let count = 0;
+    try {
+      const pending = await store.loadPendingTransfers();
+      for (const stored of pending) {
+        // 临时链路上的传输无人续传，只清理
+        if (stored.scope) {
+          store.deleteTransfer(stored.transferId).catch(() => {});
+          continue;
+        }
+        const indices = await store.listChunkIndices(stored.transferId);
+        incoming[stored.transferId] = createIncomingTransfer(stored.total, indices);
+        if (stored.manifest) manifests[stored.transferId] = stored.manifest;
+        restored[stored.transferId] = true;
+        count++;
+      }
+      if (count) log(`Restored ${count} partial transfer(s) from disk`, "info");
+    } catch (e) {
+      log("Local transfer store unavailable", "warn");
+    }
+    return count;
+  };
+
+  // 只从磁盘读取一次，重复调用得到同一结果
+  let restoring: Promise<number> | null = null;
+  const restore = (): Promise<number> => restoring ??= loadPending();
+
+  const handle = (msg: ChatMessage): boolean => {
+    if (msg.type === MessageType.CHUNK) {
+      handleIncomingChunk(msg).catch(e => failTransfer(msg.transferId!, e));
+    } else if (msg.type === MessageType.CHUNK_END) {
+      handleChunkEnd(msg);
+    } else if (msg.type === MessageType.CHUNK_ACK) {
+      handleChunkAck(msg.content as TransferAck);
+    } else if (msg.type === MessageType.TRANSFER_RESUME) {
+      handleTransferResume(msg.content as TransferAck[]);
+    } else if (msg.type === MessageType.FILE_MANIFEST) {
+      handleManifest(msg.content as FileManifest, msg.senderId);
+    } else if (msg.type === MessageType.TRANSFER_RETRY) {
+      handleTransferRetry(msg.transferId!);
+    } else if (msg.type === MessageType.TRANSFER_CONTROL) {
+      const control = msg.content as TransferControl;
+      applyAction(control.transferId, control.action, 'remote');
+    } else if (msg.type === MessageType.FOLDER_MANIFEST) {
+      const manifest = msg.content as FolderManifest;
+      log(`Receiving folder ${manifest.name} (${manifest.entries.length} files)`, "info");
+      events.emit('folder-incoming', manifest, msg.senderId);
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  const dispose = () => {
+    disposed = true;
+    Object.keys(incoming).forEach(tId => store.deleteTransfer(tId).catch(() => {}));
+    Object.keys(statuses).forEach(stopTracking);
+    [incoming, completed, outgoing, manifests, sentFiles].forEach(map => Object.keys(map).forEach(key => delete map[key]));
+    scheduler.wake?.();
+  };
+
+  return {
+    on: events.on,
+    handle,
+    sendFile,
+    sendFolder,
+    control,
+    cyclePriority,
+    retry: requestRetransfer,
+    announceResume,
+    wake: () => scheduler.wake?.(),
+    restore,
+    isSending: tId => !!outgoing[tId],
+    isBusy: () => Object.keys(outgoing).length > 0 || Object.keys(incoming).length > 0,
+    dispose
+  };
+};
@@ -0,0 +1,154 @@
+import { FileManifest, TransferAck, TransferPriority, TransferState } from '../types';
+import { Sha256, createSha256 } from './sha256';
+
+export const CHUNK_SIZE = 16384;
+export const WINDOW_SIZE = 64; // 未确认分片上限
+export const ACK_EVERY = 16;
+// 缓冲区保持较浅，文本与控制消息直接发送时无需排在大量分片之后
+export const BUFFER_HIGH_WATER = 256 * 1024;
+export const BUFFER_LOW_WATER = 64 * 1024;
+export const ACK_TIMEOUT = 5000;
+
+export interface OutgoingTransfer {
+  transferId: string;
+  senderId: string;
+  file: File;
+  totalChunks: number;
+  manifest?: FileManifest;
+  hasher: Sha256;
+  hashedUpTo: number;
+  acked: number;
+  next: number;
+  retransmit: number[];
+  endSent: boolean;
+  state: TransferState;
+  pausedBy?: 'local' | 'remote';
+  priority: TransferPriority;
+  lastAckAt: number;
+}
+
+export interface Signal {
+  wake?: () => void;
+}
+
+export interface IncomingTransfer {
+  have: Uint8Array;
+  total: number;
+  received: number;
+  base: number;
+  highest: number;
+  sinceAck: number;
+}
+
+export const createOutgoingTransfer = (transferId: string, senderId: string, file: File): OutgoingTransfer => ({
+  transferId,
+  senderId,
+  file,
+  totalChunks: Math.max(1, Math.ceil(file.size / CHUNK_SIZE)),
+  hasher: createSha256(),
+  hashedUpTo: 0,
+  acked: 0,
+  next: 0,
+  retransmit: [],
+  endSent: false,
+  state: 'active',
+  priority: file.size < 1024 * 1024 ? 'high' : 'normal',
+  lastAckAt: Date.now()
+});
+
+// indices 为已落盘的分片，刷新页面后据此恢复
+export const createIncomingTransfer = (total: number, indices: number[] = []): IncomingTransfer => {
+  const t: IncomingTransfer = { have: new Uint8Array(total), total, received: 0, base: 0, highest: -1, sinceAck: 0 };
+  indices.forEach(i => markChunk(t, i));
+  return t;
+};
+
+// 按需切片读取，发送端不再整体载入文件
+export const readChunk = (t: OutgoingTransfer, index: number): Promise<ArrayBuffer> =>
+  t.file.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE).arrayBuffer();
+
+// Feeds the whole-file digest in order; returns true once the digest is complete.
+export const hashThrough = async (t: OutgoingTransfer, index: number, chunk: ArrayBuffer): Promise<boolean> => {
+  if (t.hashedUpTo > index || t.hashedUpTo >= t.totalChunks) return false;
+  while (t.hashedUpTo < index) {
+    t.hasher.update(await readChunk(t, t.hashedUpTo));
+    t.hashedUpTo++;
+  }
+  t.hasher.update(chunk);
+  t.hashedUpTo++;
+  return t.hashedUpTo === t.totalChunks;
+};
+
+export const hasChunk = (t: IncomingTransfer, index: number): boolean => t.have[index] === 1;
+
+// Marks a persisted chunk and reports whether it was new. Duplicates from retransmission are expected.
+export const markChunk = (t: IncomingTransfer, index: number): boolean => {
+  if (index < 0 || index >= t.total || t.have[index]) return false;
+  t.have[index] = 1;
+  t.received++;
+  if (index > t.highest) t.highest = index;
+  return true;
+};
+
+export const buildAck = (transferId: string, t: IncomingTransfer): TransferAck => {
+  while (t.base < t.total && t.have[t.base]) t.base++;
+  const missing: number[] = [];
+  for (let i = t.base; i <= t.highest && missing.length < WINDOW_SIZE; i++) {
+    if (!t.have[i]) missing.push(i);
+  }
+  t.sinceAck = 0;
+  return { transferId, base: t.base, missing };
+};
+
+export const applyAck = (t: OutgoingTransfer, ack: TransferAck) => {
+  if (ack.base > t.acked) t.acked = Math.min(ack.base, t.totalChunks);
+  if (t.next < t.acked) t.next = t.acked;
+  t.retransmit = t.retransmit.filter(i => i >= t.acked);
+  ack.missing.forEach(i => {
+    if (i >= t.acked && i < t.next && !t.retransmit.includes(i)) t.retransmit.push(i);
+  });
+  t.lastAckAt = Date.now();
+};
+
+// Rewinds to what the receiver confirmed after a reconnect; no ack means it lost everything.
+export const resumeTransfer = (t: OutgoingTransfer, ack?: TransferAck) => {
+  t.acked = 0;
+  t.next = 0;
+  t.retransmit = [];
+  t.endSent = false;
+  t.lastAckAt = Date.now();
+  if (ack) applyAck(t, ack);
+};
+
+export const takeNextChunk = (t: OutgoingTransfer): number | null => {
+  if (t.retransmit.length) return t.retransmit.shift()!;
+  if (t.next < t.totalChunks && t.next < t.acked + WINDOW_SIZE) return t.next++;
+  return null;
+};
+
+// 窗口耗尽或已发完，但迟迟没有新的 ACK
+export const isStalled = (t: OutgoingTransfer, now: number = Date.now()): boolean =>
+  now - t.lastAckAt > ACK_TIMEOUT && t.retransmit.length === 0 &&
+  (t.next >= t.totalChunks || t.next >= t.acked + WINDOW_SIZE);
+
+export const waitForSignal = (signal: Signal, timeout: number): Promise<boolean> =>
+  new Promise(resolve => {
+    const timer = setTimeout(() => { signal.wake = undefined; resolve(false); }, timeout);
+    signal.wake = () => { clearTimeout(timer); signal.wake = undefined; resolve(true); };
+  });
+
+// 背压：数据通道缓冲超过高水位时等待其回落
+export const waitForDrain = (conn: any): Promise<void> => {
+  const channel: RTCDataChannel | undefined = conn?.dataChannel;
+  if (!channel || channel.bufferedAmount < BUFFER_HIGH_WATER) return Promise.resolve();
+  channel.bufferedAmountLowThreshold = BUFFER_LOW_WATER;
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      channel.removeEventListener('bufferedamountlow', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ACK_TIMEOUT);
+    channel.addEventListener('bufferedamountlow', done);
+  });
+};
@@ -0,0 +1,34 @@
+import { TransferPriority, TransferStatus } from '../types';
+import { OutgoingTransfer } from './transferProtocol';
+
+// 每轮调度中各优先级可连续发送的分片数
+export const PRIORITY_WEIGHTS: Record<TransferPriority, number> = { high: 4, normal: 2, low: 1 };
+const SPEED_SMOOTHING = 0.3;
+
+export const isSendable = (t: OutgoingTransfer): boolean =>
+  t.state === 'active' && t.acked < t.totalChunks;
+
+// 加权轮询：起点随轮次轮转，避免总是同一个文件先发
+export const planRound = (transfers: OutgoingTransfer[], round: number): OutgoingTransfer[] => {
+  const ready = transfers.filter(isSendable);
+  if (!ready.length) return [];
+  const start = round % ready.length;
+  return [...ready.slice(start), ...ready.slice(0, start)];
+};
+
+export const nextPriority = (priority: TransferPriority): TransferPriority =>
+  priority === 'low' ? 'normal' : priority === 'normal' ? 'high' : 'low';
+
+export const measureTransfer = (status: TransferStatus, bytes: number, now: number = Date.now()): TransferStatus => {
+  const elapsed = (now - status.updatedAt) / 1000;
+  if (elapsed <= 0 || bytes <= status.bytes) return { ...status, bytes: Math.max(bytes, status.bytes) };
+  const instant = (bytes - status.bytes) / elapsed;
+  const speed = status.speed ? status.speed * (1 - SPEED_SMOOTHING) + instant * SPEED_SMOOTHING : instant;
+  return {
+    ...status,
+    bytes,
+    speed,
+    eta: speed > 0 ? (status.totalBytes - bytes) / speed : null,
+    updatedAt: now
+  };
+};
@@ -0,0 +1,64 @@
+/*
+ * 客户端只依赖下面这组与 PeerJS 同形的接口：浏览器中由 PeerJS 实现，
+ * 测试与脚本中可换成 loopbackTransport 的内存网络。字段只列出客户端与各服务实际用到的部分。
+ */
+export type TransportListener = (...args: any[]) => void;
+
+export interface LinkOptions {
+  reliable?: boolean;
+  serialization?: string;
+  metadata?: any;
+}
+
+export interface LinkHandle {
+  peer: string;
+  metadata: any;
+  serialization: string;
+  open: boolean;
+  provider?: { id: string };
+  // waitForDrain 读取 bufferedAmount 做背压
+  dataChannel?: any;
+  peerConnection?: any;
+  send: (data: any) => void;
+  close: () => void;
+  on: (event: 'open' | 'data' | 'close' | 'error', listener: TransportListener) => void;
+  off: (event: 'open' | 'data' | 'close' | 'error', listener: TransportListener) => void;
+}
+
+export interface MediaHandle {
+  peer: string;
+  metadata: any;
+  open?: boolean;
+  peerConnection?: any;
+  // 录制时从媒体连接上取对方的流
+  remoteStream?: any;
+  answer: (stream?: any) => void;
+  close: () => void;
+  on: (event: 'stream' | 'close' | 'error', listener: TransportListener) => void;
+}
+
+export interface PeerHandle {
+  id: string;
+  open: boolean;
+  disconnected: boolean;
+  destroyed: boolean;
+  connect: (peerId: string, options?: LinkOptions) => LinkHandle;
+  call: (peerId: string, stream: any, options?: { metadata?: any }) => MediaHandle;
+  reconnect: () => void;
+  destroy: () => void;
+  on: (event: 'open' | 'connection' | 'call' | 'error' | 'disconnected' | 'close', listener: TransportListener) => void;
+}
+
+export interface PeerTransport {
+  // options 为 PeerJS 构造参数（信令与 ICE），其他实现可以忽略
+  createPeer: (peerId: string, options?: any) => PeerHandle;
+}
+
+// PeerJS 由 index.html 以全局变量加载
+export const peerJsTransport: PeerTransport = {
+  createPeer: (peerId, options) => {
+    const Peer = (globalThis as any).Peer;
+    if (!Peer) throw new Error('PeerJS library missing!');
+    return new Peer(peerId, options);
+  }
+};
@@ -0,0 +1,87 @@
+import { VoiceNoteMeta } from '../types';
+
+// 按住录音：松手发送，录音过短直接丢弃
+export const MIN_VOICE_DURATION = 500;
+export const MAX_VOICE_DURATION = 5 * 60 * 1000;
+export const WAVEFORM_BARS = 48;
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+// iOS Safari 只能录 mp4，其余浏览器优先 opus
+const VOICE_TYPES = ['audio/webm;codecs=opus', 'audio/mp4', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+export interface VoiceRecording {
+  startedAt: number;
+  stop: () => Promise<{ blob: Blob; meta: VoiceNoteMeta }>;
+  cancel: () => void;
+}
+
+export const canRecordVoice = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+export const voiceFileName = (mimeType: string, startedAt: number): string => {
+  const stamp = new Date(startedAt).toISOString().slice(0, 19).replace(/[T:]/g, '-');
+  const ext = mimeType.includes('mp4') ? 'm4a' : mimeType.includes('ogg') ? 'ogg' : 'weba';
+  return `voice-${stamp}.${ext}`;
+};
+
+export const formatVoiceDuration = (ms: number): string => {
+  const total = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// 解码后按段取峰值并归一化；解码失败（部分浏览器不支持 webm）时返回平直波形
+export const computeWaveform = async (blob: Blob, bars: number = WAVEFORM_BARS): Promise<{ peaks: number[]; duration: number | null }> => {
+  const flat = { peaks: new Array(bars).fill(0.3), duration: null };
+  if (typeof AudioContext === 'undefined') return flat;
+  const ctx = new AudioContext();
+  try {
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const data = buffer.getChannelData(0);
+    const step = Math.max(1, Math.floor(data.length / bars));
+    const peaks: number[] = [];
+    for (let i = 0; i < bars; i++) {
+      let peak = 0;
+      for (let j = i * step; j < Math.min(data.length, (i + 1) * step); j++) peak = Math.max(peak, Math.abs(data[j]));
+      peaks.push(peak);
+    }
+    const max = Math.max(...peaks, 0.01);
+    return { peaks: peaks.map(p => Math.round((p / max) * 100) / 100), duration: Math.round(buffer.duration * 1000) };
+  } catch (e) {
+    return flat;
+  } finally {
+    ctx.close().catch(() => {});
+  }
+};
+
+export const startVoiceRecording = async (): Promise<VoiceRecording> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+  const mimeType = VOICE_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || '';
+  const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  const startedAt = Date.now();
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+  recorder.start(250);
+
+  const release = () => stream.getTracks().forEach(t => t.stop());
+
+  const stop = () => new Promise<{ blob: Blob; meta: VoiceNoteMeta }>((resolve, reject) => {
+    const elapsed = Date.now() - startedAt;
+    recorder.onstop = async () => {
+      release();
+      const blob = new Blob(chunks, { type: recorder.mimeType || mimeType || 'audio/webm' });
+      if (!blob.size) return reject(new Error('Empty recording'));
+      const { peaks, duration } = await computeWaveform(blob);
+      resolve({ blob, meta: { duration: duration ?? elapsed, waveform: peaks } });
+    };
+    if (recorder.state === 'inactive') reject(new Error('Recorder stopped'));
+    else recorder.stop();
+  });
+
+  const cancel = () => {
+    recorder.onstop = null;
+    if (recorder.state !== 'inactive') recorder.stop();
+    release();
+  };
+
+  return { startedAt, stop, cancel };
+};
@@ -0,0 +1,135 @@
+import { ChatMessage, MessageType } from '../types';
+
+// 在连接 metadata 中协商；双方都支持时才启用二进制帧
+// v2：TRANSFER_CONTROL 移回枚举末尾，类型码与 v1 不兼容，旧版本据此退回对象序列化
+export const WIRE_FORMAT = 'p2p-frames-v2';
+const FRAME_VERSION = 2;
+
+// 帧中的类型码：与枚举顺序解耦，已分配的码不得改动，新类型只追加新码
+const TYPE_CODES: Readonly<Record<MessageType, number>> = Object.freeze({
+  [MessageType.TEXT]: 0,
+  [MessageType.IMAGE]: 1,
+  [MessageType.VIDEO_FILE]: 2,
+  [MessageType.CHUNK]: 3,
+  [MessageType.CHUNK_END]: 4,
+  [MessageType.CHUNK_ACK]: 5,
+  [MessageType.TRANSFER_RESUME]: 6,
+  [MessageType.FILE_MANIFEST]: 7,
+  [MessageType.TRANSFER_RETRY]: 8,
+  [MessageType.CALL_REQUEST]: 9,
+  [MessageType.CALL_RESPONSE]: 10,
+  [MessageType.SYSTEM]: 11,
+  [MessageType.FILE]: 12,
+  [MessageType.FOLDER]: 13,
+  [MessageType.FOLDER_MANIFEST]: 14,
+  [MessageType.KEY_EXCHANGE]: 15,
+  [MessageType.CALL_LOG]: 16,
+  [MessageType.CALL_MEDIA]: 17,
+  [MessageType.CALL_RECORDING]: 18,
+  [MessageType.VOICE]: 19,
+  [MessageType.SESSION_RESUME]: 20,
+  [MessageType.SESSION_END]: 21,
+  [MessageType.RECEIPT_DELIVERED]: 22,
+  [MessageType.RECEIPT_READ]: 23,
+  [MessageType.TYPING]: 24,
+  [MessageType.REPLY]: 25,
+  [MessageType.REACTION]: 26,
+  [MessageType.EDIT]: 27,
+  [MessageType.RECALL]: 28,
+  [MessageType.ROOM_ROSTER]: 29,
+  [MessageType.ROOM_CALL]: 30,
+  [MessageType.TRANSFER_CONTROL]: 31
+});
+
+const TYPES_BY_CODE: ReadonlyMap<number, MessageType> = new Map(
+  (Object.entries(TYPE_CODES) as [MessageType, number][]).map(([type, code]) => [code, type])
+);
+
+export type WireMode = 'frames' | 'objects';
+
+export const wireModeOf = (conn: any): WireMode =>
+  conn?.serialization === 'raw' && conn?.metadata?.wire === WIRE_FORMAT ? 'frames' : 'objects';
+
+const isBinary = (value: any): value is ArrayBuffer | ArrayBufferView =>
+  value instanceof ArrayBuffer || ArrayBuffer.isView(value);
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.substr(i * 2, 2), 16);
+  return bytes;
+};
+
+const bytesToHex = (bytes: Uint8Array): string =>
+  Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/*
+ * Frame layout (big endian):
+ *   u8 version | u8 type | u8 idLen | transferId | u32 chunkIndex | u32 totalChunks | u8 digestLen | digest | payload
+ */
+export const encodeFrame = (msg: ChatMessage): ArrayBuffer => {
+  const id = new TextEncoder().encode(msg.transferId || '');
+  const digest = msg.digest ? hexToBytes(msg.digest) : new Uint8Array(0);
+  const content = msg.content as ArrayBuffer | ArrayBufferView;
+  const payload = content instanceof ArrayBuffer
+    ? new Uint8Array(content)
+    : new Uint8Array(content.buffer, content.byteOffset, content.byteLength);
+  const headerLength = 3 + id.length + 8 + 1 + digest.length;
+  const frame = new Uint8Array(headerLength + payload.length);
+  const view = new DataView(frame.buffer);
+  let offset = 0;
+  view.setUint8(offset++, FRAME_VERSION);
+  view.setUint8(offset++, TYPE_CODES[msg.type]);
+  view.setUint8(offset++, id.length);
+  frame.set(id, offset); offset += id.length;
+  view.setUint32(offset, msg.chunkIndex ?? 0); offset += 4;
+  view.setUint32(offset, msg.totalChunks ?? 0); offset += 4;
+  view.setUint8(offset++, digest.length);
+  frame.set(digest, offset); offset += digest.length;
+  frame.set(payload, offset);
+  return frame.buffer;
+};
+
+export const decodeFrame = (data: ArrayBuffer, senderId: string): ChatMessage => {
+  const frame = new Uint8Array(data);
+  const view = new DataView(data);
+  let offset = 0;
+  const version = view.getUint8(offset++);
+  if (version !== FRAME_VERSION) throw new Error(`Unsupported frame version ${version}`);
+  const code = view.getUint8(offset++);
+  const type = TYPES_BY_CODE.get(code);
+  if (type === undefined) throw new Error(`Unknown frame type ${code}`);
+  const idLength = view.getUint8(offset++);
+  const transferId = new TextDecoder().decode(frame.subarray(offset, offset + idLength)); offset += idLength;
+  const chunkIndex = view.getUint32(offset); offset += 4;
+  const totalChunks = view.getUint32(offset); offset += 4;
+  const digestLength = view.getUint8(offset++);
+  const digest = digestLength ? bytesToHex(frame.subarray(offset, offset + digestLength)) : undefined;
+  offset += digestLength;
+  return {
+    id: `${transferId}:${chunkIndex}`,
+    senderId,
+    type,
+    content: data.slice(offset),
+    timestamp: Date.now(),
+    transferId,
+    chunkIndex,
+    totalChunks,
+    digest
+  };
+};
+
+// 二进制负载走紧凑帧，其余消息保持 JSON 文本，便于在日志中阅读
+export const encodeMessage = (conn: any, msg: ChatMessage): any => {
+  if (wireModeOf(conn) === 'objects') return msg;
+  return isBinary(msg.content) ? encodeFrame(msg) : JSON.stringify(msg);
+};
+
+export const decodeMessage = (conn: any, data: any): ChatMessage | null => {
+  if (wireModeOf(conn) === 'objects') return data;
+  if (typeof data === 'string') return JSON.parse(data);
+  if (data instanceof ArrayBuffer) return decodeFrame(data, conn.peer);
+  if (ArrayBuffer.isView(data)) {
+    return decodeFrame(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer, conn.peer);
+  }
+  return null;
+};
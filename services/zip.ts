@@ -0,0 +1,132 @@
+// 仅存储 (STORE) 的 ZIP 读写：不压缩，直接拼接或切片原始 Blob，内存占用只有文件头
+export interface ZipEntry {
+  path: string;
+  blob: Blob;
+}
+
+const READ_SLICE = 1024 * 1024;
+const MAX_ZIP_SIZE = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = async (blob: Blob): Promise<number> => {
+  let crc = 0xffffffff;
+  for (let offset = 0; offset < blob.size; offset += READ_SLICE) {
+    const bytes = new Uint8Array(await blob.slice(offset, offset + READ_SLICE).arrayBuffer());
+    for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const createZip = async (entries: ZipEntry[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path.replace(/^\/+/, ''));
+    const crc = await crc32(entry.blob);
+    const size = entry.blob.size;
+    if (offset + size > MAX_ZIP_SIZE) throw new Error('Folder too large for a ZIP archive');
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, 0x0800, true); // UTF-8 文件名
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, size, true);
+    lv.setUint32(22, size, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const record = new Uint8Array(46 + name.length);
+    const cv = new DataView(record.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, size, true);
+    cv.setUint32(24, size, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    record.set(name, 46);
+
+    parts.push(local, entry.blob);
+    central.push(record);
+    offset += local.length + size;
+  }
+
+  const centralSize = central.reduce((sum, r) => sum + r.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};
+
+// 只读取 STORE 方式的条目（本应用导出的归档即是如此），条目内容为原归档的切片
+export const readZip = async (archive: Blob): Promise<ZipEntry[]> => {
+  const tailSize = Math.min(archive.size, 65557);
+  const tail = new Uint8Array(await archive.slice(archive.size - tailSize).arrayBuffer());
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail[i] === 0x50 && tail[i + 1] === 0x4b && tail[i + 2] === 0x05 && tail[i + 3] === 0x06) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error('Not a ZIP archive');
+  const ev = new DataView(tail.buffer, eocd);
+  const count = ev.getUint16(10, true);
+  const centralSize = ev.getUint32(12, true);
+  const centralOffset = ev.getUint32(16, true);
+  const central = new Uint8Array(await archive.slice(centralOffset, centralOffset + centralSize).arrayBuffer());
+  const cv = new DataView(central.buffer);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  let pos = 0;
+  for (let i = 0; i < count; i++) {
+    if (cv.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupted ZIP directory');
+    const method = cv.getUint16(pos + 10, true);
+    const size = cv.getUint32(pos + 20, true);
+    const nameLength = cv.getUint16(pos + 28, true);
+    const extraLength = cv.getUint16(pos + 30, true);
+    const commentLength = cv.getUint16(pos + 32, true);
+    const localOffset = cv.getUint32(pos + 42, true);
+    const path = decoder.decode(central.subarray(pos + 46, pos + 46 + nameLength));
+    pos += 46 + nameLength + extraLength + commentLength;
+    if (method !== 0) throw new Error(`Compressed entry not supported: ${path}`);
+    const local = new DataView(await archive.slice(localOffset, localOffset + 30).arrayBuffer());
+    const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.push({ path, blob: archive.slice(dataStart, dataStart + size) });
+  }
+  return entries;
+};
@@ -0,0 +1,317 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PeerLinkClient, PeerLinkEvents, createPeerLinkClient } from '../services/peerLinkClient';
+import { createLoopbackNetwork } from '../services/loopbackTransport';
+import { createMemoryTransferStore } from '../services/memoryTransferStore';
+import { createSecureChannel } from '../services/secureChannel';
+import { LinkHandle } from '../services/transport';
+import { WIRE_FORMAT, decodeFrame, encodeFrame } from '../services/wireCodec';
+import { CHUNK_SIZE } from '../services/transferProtocol';
+import { generatePeerId } from '../services/contacts';
+import { MessageType } from '../types';
+
+// ALICE < BOB：主链路断开后由 ALICE 重拨
+const ALICE = 'ALICE';
+const BOB = 'BOB';
+const CAROL = 'CAROL';
+const ROOM = 'room:TEST';
+
+const createClient = (net: ReturnType<typeof createLoopbackNetwork>) => createPeerLinkClient({
+  transport: net.transport,
+  generateId: generatePeerId,
+  transferStore: createMemoryTransferStore()
+});
+
+// 等待下一次满足条件的事件，返回其参数
+const next = <K extends keyof PeerLinkEvents>(
+  client: PeerLinkClient, event: K, accept: (...args: Parameters<PeerLinkEvents[K]>) => boolean = () => true
+): Promise<Parameters<PeerLinkEvents[K]>> =>
+  new Promise(resolve => {
+    const off = client.on(event, ((...args: Parameters<PeerLinkEvents[K]>) => {
+      if (!accept(...args)) return;
+      off();
+      resolve(args);
+    }) as PeerLinkEvents[K]);
+  });
+
+const pattern = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(size);
+  for (let i = 0; i < size; i++) bytes[i] = (i * 31 + (i >> 8)) & 0xff;
+  return bytes;
+};
+
+test('frames keep their type and reject unknown type codes', () => {
+  const frame = encodeFrame({
+    id: 'x', senderId: ALICE, type: MessageType.CHUNK, content: pattern(64), timestamp: 0,
+    transferId: 't1', chunkIndex: 3, totalChunks: 9, digest: 'ab01'
+  });
+  const decoded = decodeFrame(frame, ALICE);
+  assert.equal(decoded.type, MessageType.CHUNK);
+  assert.equal(decoded.chunkIndex, 3);
+  assert.equal(decoded.digest, 'ab01');
+  assert.deepEqual(new Uint8Array(decoded.content), pattern(64));
+
+  new Uint8Array(frame)[1] = 0xff;
+  assert.throws(() => decodeFrame(frame, ALICE), /Unknown frame type 255/);
+});
+
+test('a key exchange that never completes closes the link and drops queued sends', async t => {
+  t.mock.timers.enable({ apis: ['setTimeout'] });
+  const sent: any[] = [];
+  const errors: string[] = [];
+  let closed = false;
+  const conn = {
+    peer: BOB, serialization: 'raw', metadata: { wire: WIRE_FORMAT }, open: true,
+    send: (data: any) => sent.push(data),
+    close: () => { closed = true; }
+  };
+  const channel = createSecureChannel(conn, Promise.resolve(null), {
+    onMessage: () => {},
+    onEstablished: () => assert.fail('the peer never answered'),
+    onError: message => errors.push(message)
+  });
+  channel.start();
+  const queued = channel.send({ id: 'm1', senderId: ALICE, type: MessageType.TEXT, content: 'hi', timestamp: 0 });
+  await Promise.resolve();
+  t.mock.timers.tick(15000);
+  await queued;
+
+  assert.equal(closed, true);
+  assert.deepEqual(errors, ['Key exchange timed out, closing the link']);
+  // 只发出了本机的公钥
+  assert.equal(sent.length, 1);
+  assert.equal(JSON.parse(sent[0]).type, MessageType.KEY_EXCHANGE);
+});
+
+test('two loopback clients connect, survive a drop mid-transfer and finish the file', { timeout: 60000 }, async () => {
+  const net = createLoopbackNetwork({ latency: 20 });
+  const alice = createClient(net);
+  const bob = createClient(net);
+  bob.on('connection', conn => bob.accept(conn));
+
+  try {
+    const ready = Promise.all([next(alice, 'ready'), next(bob, 'ready')]);
+    alice.start(ALICE);
+    bob.start(BOB);
+    await ready;
+
+    const opened = next(alice, 'link-open');
+    alice.connect(BOB);
+    const [, firstRestored] = await opened;
+    assert.equal(firstRestored, false);
+    assert.equal(alice.getState().stage, 'connected');
+
+    // 消息里冒充对方的 senderId 会被改回连接的对端
+    const spoofed = next(bob, 'message');
+    alice.send({ id: 'spoof', senderId: BOB, type: MessageType.RECALL, refId: 'x', content: null, timestamp: Date.now() });
+    const [spoof] = await spoofed;
+    assert.equal(spoof.senderId, ALICE);
+
+    // 足够大，使传输跨越多个 ACK 窗口，断线发生在中途
+    const bytes = pattern(CHUNK_SIZE * 200 + 1234);
+    const received = next(bob, 'file-received');
+    const sent = next(alice, 'file-sent');
+    const midway = next(bob, 'transfer', (_, status) => !!status && status.bytes > 0 && status.bytes < status.totalBytes);
+    const transferId = alice.transfers.sendFile(new File([bytes], 'sample.bin', { type: 'application/octet-stream' }));
+    await midway;
+
+    const closed = next(alice, 'link-close');
+    const restored = next(alice, 'link-open');
+    net.disconnect(BOB);
+    await closed;
+    assert.equal(alice.transfers.isSending(transferId), true);
+    assert.notEqual(alice.getState().stage, 'connected');
+
+    net.restore(BOB);
+    bob.peer!.reconnect();
+    const [, wasRestored] = await restored;
+    assert.equal(wasRestored, true);
+
+    const [msg, manifest] = await received;
+    assert.equal(msg.id, transferId);
+    assert.equal(msg.fileName, 'sample.bin');
+    assert.equal(msg.integrity, 'verified');
+    assert.equal(manifest?.size, bytes.length);
+    assert.deepEqual(new Uint8Array(await (msg.content as Blob).arrayBuffer()), bytes);
+
+    const [sentMsg] = await sent;
+    assert.equal(sentMsg.id, transferId);
+    assert.equal(sentMsg.delivery, 'sent');
+    assert.equal(alice.transfers.isBusy(), false);
+    assert.equal(bob.transfers.isBusy(), false);
+  } finally {
+    alice.destroy();
+    bob.destroy();
+  }
+});
+
+test('start and restore can be repeated and the client comes back after destroy', { timeout: 60000 }, async () => {
+  const net = createLoopbackNetwork({ latency: 5 });
+  const alice = createClient(net);
+  try {
+    // 与 StrictMode 下的挂载、卸载、再挂载相同
+    alice.start(ALICE);
+    const first = alice.peer;
+    alice.start(ALICE);
+    assert.equal(alice.peer, first);
+    assert.equal(alice.transfers.restore(), alice.transfers.restore());
+
+    alice.destroy();
+    const ready = next(alice, 'ready');
+    alice.start(ALICE);
+    const [id] = await ready;
+    assert.equal(id, ALICE);
+    assert.equal(alice.getState().online, true);
+  } finally {
+    alice.destroy();
+  }
+});
+
+test('a transfer finishes under jitter and loss, which only unreliable links suffer', { timeout: 60000 }, async () => {
+  const net = createLoopbackNetwork({ latency: 10, jitter: 40, loss: 0.3 });
+  const alice = createClient(net);
+  const bob = createClient(net);
+  let probed = 0;
+  bob.on('connection', conn => {
+    if (conn.metadata?.probe) conn.on('data', () => probed++);
+    else bob.accept(conn);
+  });
+
+  try {
+    const ready = Promise.all([next(alice, 'ready'), next(bob, 'ready')]);
+    alice.start(ALICE);
+    bob.start(BOB);
+    await ready;
+    const opened = next(alice, 'link-open');
+    alice.connect(BOB);
+    await opened;
+
+    const bytes = pattern(CHUNK_SIZE * 40 + 321);
+    const received = next(bob, 'file-received');
+    const sent = next(alice, 'file-sent');
+    const transferId = alice.transfers.sendFile(new File([bytes], 'jitter.bin'));
+    const [msg] = await received;
+    assert.equal(msg.id, transferId);
+    assert.equal(msg.integrity, 'verified');
+    assert.deepEqual(new Uint8Array(await (msg.content as Blob).arrayBuffer()), bytes);
+    await sent;
+
+    // 同样的条件下，不可靠连接确实会丢数据
+    const probe = alice.peer!.connect(BOB, { reliable: false, metadata: { probe: true } });
+    await new Promise(resolve => probe.on('open', resolve));
+    for (let i = 0; i < 100; i++) probe.send(String(i));
+    await new Promise(resolve => setTimeout(resolve, 200));
+    assert.ok(probed > 0 && probed < 100, `unreliable link delivered ${probed} of 100`);
+    probe.close();
+  } finally {
+    alice.destroy();
+    bob.destroy();
+  }
+});
+
+test('a storage failure while receiving cancels the transfer on both sides', { timeout: 60000 }, async () => {
+  const net = createLoopbackNetwork({ latency: 5 });
+  const alice = createClient(net);
+  // 拼装时存储出错（例如配额用尽）
+  const bob = createPeerLinkClient({
+    transport: net.transport,
+    generateId: generatePeerId,
+    transferStore: { ...createMemoryTransferStore(), assembleTransfer: () => Promise.reject(new Error('quota exceeded')) }
+  });
+  bob.on('connection', conn => bob.accept(conn));
+
+  try {
+    const ready = Promise.all([next(alice, 'ready'), next(bob, 'ready')]);
+    alice.start(ALICE);
+    bob.start(BOB);
+    await ready;
+    const opened = next(alice, 'link-open');
+    alice.connect(BOB);
+    await opened;
+
+    const bobCancelled = next(bob, 'transfer-cancelled');
+    const aliceCancelled = next(alice, 'transfer-cancelled');
+    alice.on('file-sent', () => assert.fail('the sender must not report a file the receiver could not store'));
+    const transferId = alice.transfers.sendFile(new File([pattern(CHUNK_SIZE * 2)], 'doomed.bin'));
+    const [bobId, , bobBy] = await bobCancelled;
+    assert.equal(bobId, transferId);
+    assert.equal(bobBy, 'local');
+    const [aliceId, , aliceBy] = await aliceCancelled;
+    assert.equal(aliceId, transferId);
+    assert.equal(aliceBy, 'remote');
+    assert.equal(alice.transfers.isSending(transferId), false);
+    assert.equal(bob.transfers.isBusy(), false);
+  } finally {
+    alice.destroy();
+    bob.destroy();
+  }
+});
+
+// 与 App 中的房间直连相同：每条直连一个加密通道，收到的传输消息交给 roomFiles
+const attachRoomLink = (client: PeerLinkClient, conn: LinkHandle) => {
+  const channel = createSecureChannel(conn, Promise.resolve(null), {
+    onMessage: data => client.roomFiles.handle(conn.peer, { ...data, senderId: conn.peer }),
+    onEstablished: () => {},
+    onError: () => {}
+  });
+  client.roomFiles.addMember(conn, ROOM);
+  conn.on('open', () => channel.start());
+  conn.on('data', raw => channel.receive(raw));
+  conn.on('close', () => client.roomFiles.removeMember(conn.peer));
+};
+
+test('room files reach every member and fail when a member drops before finishing', { timeout: 60000 }, async () => {
+  const net = createLoopbackNetwork({ latency: 20 });
+  const alice = createClient(net);
+  const bob = createClient(net);
+  const carol = createClient(net);
+  [bob, carol].forEach(member => member.on('connection', conn => attachRoomLink(member, conn)));
+
+  try {
+    const ready = Promise.all([alice, bob, carol].map(c => next(c, 'ready')));
+    alice.start(ALICE);
+    bob.start(BOB);
+    carol.start(CAROL);
+    await ready;
+
+    const links = [BOB, CAROL].map(id => alice.peer!.connect(id, {
+      reliable: true, serialization: 'raw', metadata: { wire: WIRE_FORMAT, room: 'TEST' }
+    }));
+    links.forEach(conn => attachRoomLink(alice, conn));
+    await Promise.all(links.map(conn => new Promise(resolve => conn.on('open', resolve))));
+
+    const small = pattern(CHUNK_SIZE * 3 + 17);
+    const bobGot = next(bob, 'file-received');
+    const carolGot = next(carol, 'file-received');
+    const firstId = alice.roomFiles.sendFile(new File([small], 'small.bin'));
+    assert.ok(firstId);
+    const [, delivery] = await next(alice, 'room-file-delivery', tId => tId === firstId);
+    assert.equal(delivery, 'sent');
+    for (const [msg] of await Promise.all([bobGot, carolGot])) {
+      assert.equal(msg.id, firstId);
+      assert.equal(msg.senderId, ALICE);
+      assert.equal(msg.integrity, 'verified');
+      assert.deepEqual(new Uint8Array(await (msg.content as Blob).arrayBuffer()), small);
+    }
+
+    // 第二个文件发到一半时 CAROL 断网：BOB 照常收齐，整体记为失败
+    const large = pattern(CHUNK_SIZE * 200 + 5);
+    const bobGotLarge = next(bob, 'file-received');
+    const secondId = alice.roomFiles.sendFile(new File([large], 'large.bin'));
+    const settled = next(alice, 'room-file-delivery', tId => tId === secondId);
+    await next(carol, 'transfer', (tId, status) => tId === secondId && !!status && status.bytes > 0);
+    net.disconnect(CAROL);
+
+    const [msg] = await bobGotLarge;
+    assert.deepEqual(new Uint8Array(await (msg.content as Blob).arrayBuffer()), large);
+    const [, secondDelivery] = await settled;
+    assert.equal(secondDelivery, 'failed');
+    assert.equal(alice.roomFiles.isSending(secondId!), false);
+    assert.equal(alice.roomFiles.isBusy(), false);
+  } finally {
+    [alice, bob, carol].forEach(c => {
+      c.roomFiles.clear();
+      c.destroy();
+    });
+  }
+});
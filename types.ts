@@ -5,9 +5,33 @@ export enum MessageType {
   VIDEO_FILE = 'VIDEO_FILE',
   CHUNK = 'CHUNK', 
   CHUNK_END = 'CHUNK_END', 
+  CHUNK_ACK = 'CHUNK_ACK',
+  TRANSFER_RESUME = 'TRANSFER_RESUME',
+  FILE_MANIFEST = 'FILE_MANIFEST',
+  TRANSFER_RETRY = 'TRANSFER_RETRY',
   CALL_REQUEST = 'CALL_REQUEST', 
   CALL_RESPONSE = 'CALL_RESPONSE', 
-  SYSTEM = 'SYSTEM'
+  SYSTEM = 'SYSTEM',
+  FILE = 'FILE',
+  FOLDER = 'FOLDER',
+  FOLDER_MANIFEST = 'FOLDER_MANIFEST',
+  KEY_EXCHANGE = 'KEY_EXCHANGE',
+  CALL_LOG = 'CALL_LOG',
+  CALL_MEDIA = 'CALL_MEDIA',
+  CALL_RECORDING = 'CALL_RECORDING',
+  VOICE = 'VOICE',
+  SESSION_RESUME = 'SESSION_RESUME',
+  SESSION_END = 'SESSION_END',
+  RECEIPT_DELIVERED = 'RECEIPT_DELIVERED',
+  RECEIPT_READ = 'RECEIPT_READ',
+  TYPING = 'TYPING',
+  REPLY = 'REPLY',
+  REACTION = 'REACTION',
+  EDIT = 'EDIT',
+  RECALL = 'RECALL',
+  ROOM_ROSTER = 'ROOM_ROSTER',
+  ROOM_CALL = 'ROOM_CALL',
+  TRANSFER_CONTROL = 'TRANSFER_CONTROL'
 }
 
 export interface ChatMessage {
@@ -17,9 +41,181 @@ export interface ChatMessage {
   content: any;
   timestamp: number;
   fileName?: string;
+  mimeType?: string;
+  fileSize?: number;
   totalChunks?: number;
   chunkIndex?: number;
   transferId?: string;
+  digest?: string;
+  integrity?: IntegrityState;
+  voice?: VoiceNoteMeta;
+  delivery?: DeliveryState;
+  // 收到的消息：已向对方发出已读回执的时间
+  readAt?: number;
+  // REPLY / REACTION / EDIT / RECALL 指向的目标消息
+  refId?: string;
+  reactions?: Record<string, Reaction>;
+  edits?: MessageEdit[];
+  editedAt?: number;
+  recalled?: boolean;
+}
+
+// emoji 为 null 表示撤销回应，仍保留时间戳用于乱序比较
+export interface Reaction {
+  emoji: string | null;
+  at: number;
+}
+
+// 编辑前的历史版本
+export interface MessageEdit {
+  content: string;
+  editedAt: number;
+}
+
+// 本机发出的消息：queued 在发件箱中等待链路，failed 需手动重试；delivered / read 来自对方回执
+export type DeliveryState = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+// 重连后双方交换各自最后收到的对方消息，据此补发缺口
+export interface SessionResume {
+  lastSeenId: string | null;
+  lastSeenAt: number;
+}
+
+export interface ReconnectState {
+  attempt: number;
+  nextAt: number;
+}
+
+// 语音消息的时长与波形由发送端计算，随文件清单一起发出
+export interface VoiceNoteMeta {
+  duration: number; // ms
+  waveform: number[]; // 0..1
+}
+
+export type IntegrityState = 'verifying' | 'verified' | 'corrupted' | 'unverified';
+
+// 发送端在首个分片前公布的文件清单
+export interface FileManifest {
+  transferId: string;
+  fileName: string;
+  size: number;
+  mimeType: string;
+  sha256: string;
+  totalChunks: number;
+  chunkDigests: boolean;
+  folderId?: string;
+  path?: string;
+  voice?: VoiceNoteMeta;
+}
+
+// 文件夹中每个文件仍是独立的 transfer，清单只记录相对路径与对应关系
+export interface FolderEntry {
+  path: string;
+  size: number;
+  mimeType: string;
+  transferId: string;
+}
+
+export interface FolderManifest {
+  folderId: string;
+  name: string;
+  totalBytes: number;
+  entries: FolderEntry[];
+}
+
+// FOLDER 消息的 content：files 以 transferId 为键，随各文件完成逐步填充
+export interface FolderContent {
+  manifest: FolderManifest;
+  files: Record<string, Blob>;
+}
+
+// 接收端确认：base 之前的分片全部到达，missing 为 base 之后缺失的分片
+export interface TransferAck {
+  transferId: string;
+  base: number;
+  missing: number[];
+}
+
+export type TransferPriority = 'high' | 'normal' | 'low';
+export type TransferState = 'active' | 'paused';
+export type TransferAction = 'pause' | 'resume' | 'cancel';
+
+export interface TransferControl {
+  transferId: string;
+  action: TransferAction;
+}
+
+// 供界面展示的单个传输状态（速度单位 B/s，eta 单位秒）
+export interface TransferStatus {
+  transferId: string;
+  direction: 'send' | 'receive';
+  fileName: string;
+  bytes: number;
+  totalBytes: number;
+  state: TransferState;
+  pausedBy?: 'local' | 'remote';
+  priority?: TransferPriority;
+  speed: number;
+  eta: number | null;
+  updatedAt: number;
+}
+
+export interface LinkSecurity {
+  state: 'negotiating' | 'encrypted' | 'unencrypted';
+  safetyNumber?: string;
+  emoji?: string;
+  fingerprint?: string;
+  keyChanged?: boolean;
+}
+
+export type CallDirection = 'outgoing' | 'incoming';
+export type CallKind = 'video' | 'audio';
+export type VideoSource = 'camera' | 'screen';
+export type CallPhase = 'ringing' | 'connecting' | 'active' | 'ended';
+export type CallEndReason = 'ended' | 'ended-by-remote' | 'declined' | 'busy' | 'missed' | 'cancelled' | 'failed';
+export type CallAction = 'request' | 'accept' | 'decline' | 'busy' | 'cancel' | 'hangup' | 'failed';
+
+// CALL_REQUEST / CALL_RESPONSE 的内容
+export interface CallSignal {
+  callId: string;
+  action: CallAction;
+  kind?: CallKind; // 仅 request 携带，缺省为视频通话
+}
+
+// 通话中告知对方本端麦克风/摄像头开关
+export interface CallMediaState {
+  callId: string;
+  audio: boolean;
+  video: boolean;
+  source: VideoSource;
+}
+
+// 录制开始/结束时通知对方，双方都显示录制提示
+export interface CallRecordingState {
+  callId: string;
+  recording: boolean;
+}
+
+// 房间门牌回复新成员的成员列表（不含新成员自己）；refused 表示房间 PIN 不符
+export interface RoomRoster {
+  code: string;
+  members: string[];
+  refused?: boolean;
+}
+
+// 成员加入/离开群通话时广播，新成员连上时在通话中的成员也会单独告知
+export interface RoomCallState {
+  code: string;
+  inCall: boolean;
+}
+
+// 聊天记录中的通话条目，仅本地生成
+export interface CallLog {
+  callId: string;
+  direction: CallDirection;
+  kind: CallKind;
+  outcome: CallEndReason;
+  duration: number;
 }
 
 export enum ConnectionStatus {
@@ -29,6 +225,32 @@ export enum ConnectionStatus {
   ERROR = 'ERROR'
 }
 
+// 主链路的连接阶段：ConnectionStatus 是它的粗粒度投影，界面据此显示进度与失败原因
+// degraded 为数据通道仍通但信令掉线或 ICE 暂时断开
+export type LinkStage =
+  | 'idle' | 'signaling-connecting' | 'registered' | 'dialing' | 'ice-gathering' | 'ice-checking'
+  | 'connected' | 'degraded' | 'reconnecting' | 'failed';
+
+export type LinkFailureReason =
+  | 'unsupported-browser' | 'signaling-unreachable' | 'signaling-rejected' | 'invalid-id'
+  | 'peer-offline' | 'no-answer' | 'ice-timeout' | 'ice-failed' | 'negotiation-failed' | 'reconnect-exhausted';
+
+export interface LinkFailure {
+  reason: LinkFailureReason;
+  // 失败时所处的阶段
+  stage: LinkStage;
+  detail?: string;
+  at: number;
+}
+
+// 本机为当前链路收集到的 ICE 候选，按类型计数
+export interface IceCandidateSummary {
+  host: number;
+  srflx: number;
+  prflx: number;
+  relay: number;
+}
+
 export interface LogEntry {
   id: string;
   time: string;